@@ -1,5 +1,24 @@
-import { CopyFileContentUseCase } from '../usecases/CopyFileContentUseCase';
+import * as vscode from 'vscode';
+import { CopyFileContentUseCase, CopyFileContentOptions } from '../usecases/CopyFileContentUseCase';
 import { ClearClipboardUseCase } from '../usecases/ClearClipboardUseCase';
+import { CopySymbolUseCase, SymbolCopyOptions, SymbolPicker } from '../usecases/CopySymbolUseCase';
+import {
+    CopyWithDependenciesUseCase,
+    CopyWithDependenciesOptions,
+    DependencyPicker
+} from '../usecases/CopyWithDependenciesUseCase';
+import { CopyGitDiffUseCase, CopyGitDiffOptions, GitRefPicker } from '../usecases/CopyGitDiffUseCase';
+import { CopyExplorerSelectionUseCase, CopyExplorerSelectionOptions } from '../usecases/CopyExplorerSelectionUseCase';
+import { ManageCopiedStackUseCase } from '../usecases/ManageCopiedStackUseCase';
+import { ManageClipboardSessionsUseCase } from '../usecases/ManageClipboardSessionsUseCase';
+import { ApplyDetectedFilesUseCase, ApplyTargetPicker, HunkPicker } from '../usecases/ApplyDetectedFilesUseCase';
+import { CopyPermalinkUseCase, CopyPermalinkOptions } from '../usecases/CopyPermalinkUseCase';
+import { BundleDocumentUseCase } from '../usecases/BundleDocumentUseCase';
+import { CopyTreeStructureUseCase, TreeStructureTarget } from '../usecases/CopyTreeStructureUseCase';
+import { CopyWithPromptUseCase, PromptPicker } from '../usecases/CopyWithPromptUseCase';
+import { TreeStructureOptions } from '../../../domain/clipboard/entities/TreeStructure';
+import { ClipboardSession } from '../../../domain/clipboard/entities/ClipboardSession';
+import { DetectedFile } from '../../../domain/clipboard/entities/DetectedFile';
 
 export interface IClipboardUIRefreshService {
     refreshClipboardView(): void;
@@ -10,21 +29,190 @@ export class ClipboardApplicationService {
     constructor(
         private readonly copyFileContentUseCase: CopyFileContentUseCase,
         private readonly clearClipboardUseCase: ClearClipboardUseCase,
-        private readonly uiRefreshService: IClipboardUIRefreshService
+        private readonly uiRefreshService: IClipboardUIRefreshService,
+        private readonly copySymbolUseCase: CopySymbolUseCase,
+        private readonly copyWithDependenciesUseCase: CopyWithDependenciesUseCase,
+        private readonly copyGitDiffUseCase: CopyGitDiffUseCase,
+        private readonly copyExplorerSelectionUseCase: CopyExplorerSelectionUseCase,
+        private readonly manageCopiedStackUseCase: ManageCopiedStackUseCase,
+        private readonly manageClipboardSessionsUseCase: ManageClipboardSessionsUseCase,
+        private readonly applyDetectedFilesUseCase: ApplyDetectedFilesUseCase,
+        private readonly copyPermalinkUseCase: CopyPermalinkUseCase,
+        private readonly bundleDocumentUseCase: BundleDocumentUseCase,
+        private readonly copyTreeStructureUseCase: CopyTreeStructureUseCase,
+        private readonly copyWithPromptUseCase: CopyWithPromptUseCase
     ) { }
 
-    async copyPathWithContent(): Promise<void> {
-        await this.copyFileContentUseCase.execute(false);
+    async copyPathWithContent(options: Omit<CopyFileContentOptions, 'includeErrors'> = {}): Promise<void> {
+        await this.copyFileContentUseCase.execute({ ...options, includeErrors: false });
         this.uiRefreshService.updateStatusBar();
         this.uiRefreshService.refreshClipboardView();
     }
 
-    async copyPathWithContentAndError(): Promise<void> {
-        await this.copyFileContentUseCase.execute(true);
+    async copyPathWithContentAndError(options: Omit<CopyFileContentOptions, 'includeErrors'> = {}): Promise<void> {
+        await this.copyFileContentUseCase.execute({ ...options, includeErrors: true });
         this.uiRefreshService.updateStatusBar();
         this.uiRefreshService.refreshClipboardView();
     }
 
+    async copySymbolAtCursor(options: SymbolCopyOptions = {}): Promise<void> {
+        await this.copySymbolUseCase.copyAtCursor(options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copyEnclosingSymbol(options: SymbolCopyOptions = {}): Promise<void> {
+        await this.copySymbolUseCase.copyEnclosing(options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copySymbolsFromOutline(pick: SymbolPicker, options: SymbolCopyOptions = {}): Promise<void> {
+        await this.copySymbolUseCase.copyPicked(pick, options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copyWithDependencies(
+        uri: vscode.Uri | undefined,
+        pick: DependencyPicker,
+        options: CopyWithDependenciesOptions = {}
+    ): Promise<void> {
+        await this.copyWithDependenciesUseCase.execute(uri, pick, options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copyFileDiff(uris: vscode.Uri[] | undefined, options: CopyGitDiffOptions = {}): Promise<void> {
+        await this.copyGitDiffUseCase.copyFiles(uris, options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copyRepositoryDiff(options: CopyGitDiffOptions = {}): Promise<void> {
+        await this.copyGitDiffUseCase.copyRepository(options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async chooseGitRef(pick: GitRefPicker): Promise<string | undefined> {
+        return this.copyGitDiffUseCase.chooseRef(pick);
+    }
+
+    async copyExplorerSelection(uris: vscode.Uri[], options: CopyExplorerSelectionOptions = {}): Promise<void> {
+        await this.copyExplorerSelectionUseCase.execute(uris, options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copyPermalink(uri: vscode.Uri | undefined, options: CopyPermalinkOptions = {}): Promise<void> {
+        await this.copyPermalinkUseCase.execute(uri, options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async copyTreeStructure(target: TreeStructureTarget, options?: Partial<TreeStructureOptions>): Promise<void> {
+        await this.copyTreeStructureUseCase.execute(target, options);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async removeCopiedFile(basePath: string): Promise<void> {
+        await this.manageCopiedStackUseCase.remove(basePath);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async moveCopiedFile(basePath: string, offset: number): Promise<void> {
+        await this.manageCopiedStackUseCase.move(basePath, offset);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async refreshCopiedFile(basePath: string): Promise<void> {
+        await this.manageCopiedStackUseCase.refresh(basePath);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async openCopiedFile(basePath: string): Promise<void> {
+        await this.manageCopiedStackUseCase.open(basePath);
+    }
+
+    async openCopiedStackDocument(): Promise<void> {
+        await this.bundleDocumentUseCase.open();
+    }
+
+    async copyWithPrompt(pick: PromptPicker, promptId?: string): Promise<void> {
+        await this.copyWithPromptUseCase.execute(pick, promptId);
+        this.uiRefreshService.updateStatusBar();
+    }
+
+    async copyBundleDocument(document: vscode.TextDocument): Promise<void> {
+        await this.bundleDocumentUseCase.commit(document);
+        this.uiRefreshService.updateStatusBar();
+    }
+
+    async saveBundle(document?: vscode.TextDocument): Promise<void> {
+        await this.bundleDocumentUseCase.save(document);
+    }
+
+    async importBundle(uri: vscode.Uri): Promise<void> {
+        await this.bundleDocumentUseCase.import(uri);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    getSessions(): ClipboardSession[] {
+        return this.manageClipboardSessionsUseCase.list();
+    }
+
+    async saveSession(name: string): Promise<void> {
+        await this.manageClipboardSessionsUseCase.saveAs(name);
+    }
+
+    async loadSession(name: string): Promise<void> {
+        await this.manageClipboardSessionsUseCase.load(name);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async appendSession(name: string): Promise<void> {
+        await this.manageClipboardSessionsUseCase.append(name);
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async renameSession(name: string, newName: string): Promise<void> {
+        await this.manageClipboardSessionsUseCase.rename(name, newName);
+    }
+
+    async deleteSession(name: string): Promise<void> {
+        await this.manageClipboardSessionsUseCase.delete(name);
+    }
+
+    async restoreActiveStack(): Promise<void> {
+        await this.manageClipboardSessionsUseCase.restoreActiveStack();
+        this.uiRefreshService.updateStatusBar();
+        this.uiRefreshService.refreshClipboardView();
+    }
+
+    async openDetectedFile(file: DetectedFile): Promise<void> {
+        await this.applyDetectedFilesUseCase.open(file);
+    }
+
+    async compareDetectedFile(file: DetectedFile): Promise<void> {
+        await this.applyDetectedFilesUseCase.compare(file);
+    }
+
+    async applyDetectedFile(file: DetectedFile, pickHunks?: HunkPicker): Promise<void> {
+        await this.applyDetectedFilesUseCase.apply(file, pickHunks);
+    }
+
+    async applyDetectedFiles(files: DetectedFile[], pick: ApplyTargetPicker): Promise<void> {
+        await this.applyDetectedFilesUseCase.applyAll(files, pick);
+    }
+
     async clearClipboard(): Promise<void> {
         await this.clearClipboardUseCase.execute();
         this.uiRefreshService.updateStatusBar();
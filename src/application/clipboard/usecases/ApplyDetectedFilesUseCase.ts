@@ -0,0 +1,544 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DetectedFile } from '../../../domain/clipboard/entities/DetectedFile';
+import { LineRange, PatchPlacement } from '../../../domain/clipboard/entities/RangePatch';
+import { FileDiff } from '../../../domain/clipboard/entities/FileDiff';
+import { HunkResult } from '../../../domain/clipboard/entities/PatchResult';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { RangePatchService } from '../../../domain/clipboard/services/RangePatchService';
+import { PatchService } from '../../../domain/clipboard/services/PatchService';
+import { IClipboardDocumentProvider } from '../../../infrastructure/clipboard/preview/ClipboardDocumentProvider';
+import { resolveInsideWorkspace } from '../../../infrastructure/clipboard/files/WorkspacePaths';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+
+export type ApplyStatus = 'modified' | 'new' | 'unchanged' | 'range' | 'patch' | 'conflict' | 'unresolved';
+
+export interface ApplyTarget {
+    file: DetectedFile;
+    status: ApplyStatus;
+    uri?: vscode.Uri;
+
+    /**
+     * Workspace document that is replaced, undefined for new files
+     */
+    document?: vscode.TextDocument;
+
+    /**
+     * Version of the document the target was prepared against
+     */
+    version?: number;
+
+    /**
+     * Clipboard content as it will be written; for line ranges the whole file after the change,
+     * for conflicts the file with conflict markers
+     */
+    content: string;
+
+    /**
+     * Where the ranges of a "file.ts:10-20" block go in the current file
+     */
+    placements?: PatchPlacement[];
+
+    /**
+     * Outcome of each hunk of a unified diff; the applied ones are part of content
+     */
+    hunks?: HunkResult[];
+
+    /**
+     * Why the ranges or hunks could not be placed safely
+     */
+    conflict?: string;
+}
+
+// Chooses the targets to apply, undefined when cancelled; preview opens the diff of a target
+export type ApplyTargetPicker = (
+    targets: ApplyTarget[],
+    preview: (target: ApplyTarget) => Promise<void>
+) => Promise<ApplyTarget[] | undefined>;
+
+// Chooses the hunks of a patch to apply, undefined when cancelled; preview opens the diff of one hunk
+export type HunkPicker = (
+    target: ApplyTarget,
+    preview: (hunk: HunkResult) => Promise<void>
+) => Promise<HunkResult[] | undefined>;
+
+export function isApplicable(target: ApplyTarget): boolean {
+    return target.status === 'modified' || target.status === 'new' || target.status === 'range' || target.status === 'patch';
+}
+
+/**
+ * Copied ranges a target replaces, with where they are now when the file moved, e.g. "lines 10-20 (now 14-24)"
+ */
+export function describePlacements(placements: PatchPlacement[]): string {
+    const ranges = placements.map(p => `${p.patch.startLine}-${p.patch.endLine}` +
+        (p.exact ? '' : ` (now ${p.startLine}-${p.endLine})`));
+    return `lines ${ranges.join(', ')}`;
+}
+
+export class ApplyDetectedFilesUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly rangePatchService: RangePatchService,
+        private readonly patchService: PatchService,
+        private readonly documentProvider: IClipboardDocumentProvider,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    /**
+     * Show the clipboard version of a file against the workspace and write it once confirmed.
+     * For patches with several hunks, pickHunks chooses the hunks first.
+     */
+    async apply(file: DetectedFile, pickHunks?: HunkPicker): Promise<void> {
+        try {
+            const prepared = await this.prepare(file);
+            if (prepared.status === 'conflict') {
+                await this.showConflict(prepared);
+                return;
+            }
+            if (!this.canApply(prepared)) {
+                return;
+            }
+
+            let target = prepared;
+            const applicable = prepared.hunks?.filter(hunk => hunk.applied) ?? [];
+            if (pickHunks && applicable.length > 1) {
+                const selected = await pickHunks(prepared, hunk => this.preview(this.withHunks(prepared, [hunk.index])));
+                if (!selected || selected.length === 0) {
+                    return;
+                }
+                target = this.withHunks(prepared, selected.map(hunk => hunk.index));
+            }
+
+            await this.preview(target);
+
+            const action = target.status === 'new' ? 'Create File' : 'Apply';
+            const choice = await vscode.window.showInformationMessage(
+                this.describeChange(target),
+                action
+            );
+            if (choice !== action) {
+                return;
+            }
+
+            if (await this.write([target])) {
+                await vscode.window.showTextDocument(target.uri!, { preview: false });
+                this.notificationService.showInfo(
+                    `${target.status === 'new' ? 'Created' : 'Updated'} ${path.basename(file.filePath)} from the clipboard`
+                );
+                await this.reportRejects(prepared);
+            }
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to apply clipboard file: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Let the user accept or skip each file that differs from the workspace, then write them as one edit
+     */
+    async applyAll(files: DetectedFile[], pick: ApplyTargetPicker): Promise<void> {
+        try {
+            if (files.length === 0) {
+                this.notificationService.showInfo('No files detected in clipboard');
+                return;
+            }
+
+            const targets = await Promise.all(files.map(file => this.prepare(file)));
+            const candidates = targets.filter(target => isApplicable(target));
+            const conflicts = targets.filter(target => target.status === 'conflict');
+
+            if (conflicts.length > 0) {
+                this.notificationService.showWarning(
+                    `Cannot place ${conflicts.map(target => target.file.filePath).join(', ')} safely; ` +
+                    'apply them one at a time to review the conflict'
+                );
+            }
+
+            if (candidates.length === 0) {
+                this.notificationService.showInfo('All detected files already match the workspace or cannot be applied');
+                return;
+            }
+
+            const selected = await pick(targets, target => this.preview(target));
+            if (!selected || selected.length === 0) {
+                return;
+            }
+
+            if (await this.write(selected)) {
+                const created = selected.filter(target => target.status === 'new').length;
+                this.notificationService.showInfo(
+                    `Applied ${selected.length} file${selected.length !== 1 ? 's' : ''} from the clipboard` +
+                    (created > 0 ? ` (${created} new)` : '')
+                );
+                for (const target of selected) {
+                    await this.reportRejects(target);
+                }
+            }
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to apply clipboard files: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Show a detected file as it is on the clipboard, in a read-only document with the language of its path
+     */
+    async open(file: DetectedFile): Promise<void> {
+        await vscode.window.showTextDocument(this.previewUri(file), { preview: true });
+    }
+
+    /**
+     * Diff the workspace file against its clipboard version; line-range blocks are shown in place
+     */
+    async compare(file: DetectedFile): Promise<void> {
+        try {
+            const target = await this.prepare(file);
+
+            switch (target.status) {
+                case 'unresolved':
+                    this.notificationService.showWarning(`Cannot resolve ${file.filePath} inside the workspace`);
+                    return;
+                case 'new':
+                    this.notificationService.showInfo(`${file.filePath} does not exist in the workspace yet`);
+                    await this.open(file);
+                    return;
+                case 'conflict':
+                    await this.showConflict(target);
+                    return;
+                default:
+                    await this.preview(target, false);
+            }
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to compare clipboard file: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Uri of the clipboard preview of a detected file; each line range of a file gets its own document
+     */
+    previewUri(file: DetectedFile): vscode.Uri {
+        if (file.patch) {
+            return this.documentProvider.uriFor(`${file.filePath}.diff`, file.content);
+        }
+
+        const header = this.rangePatchService.parseHeader(file.filePath);
+        if (!header) {
+            return this.documentProvider.uriFor(file.filePath, file.content);
+        }
+
+        const ranges = header.ranges.map(range => this.rangePatchService.describe(range)).join(',');
+        return this.documentProvider.uriFor(header.path, file.content, `lines=${ranges}`);
+    }
+
+    /**
+     * Diff of the workspace file against the clipboard version, or the clipboard version alone for new files
+     */
+    async preview(target: ApplyTarget, preserveFocus = true): Promise<void> {
+        const clipboardUri = this.documentProvider.uriFor(this.documentPath(target), target.content);
+
+        if (target.status === 'new' || !target.uri) {
+            await vscode.window.showTextDocument(clipboardUri, { preview: true, preserveFocus });
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            target.uri,
+            clipboardUri,
+            `${path.basename(this.documentPath(target))} (Workspace ↔ Clipboard)`,
+            { preview: true, preserveFocus }
+        );
+    }
+
+    /**
+     * Workspace file against the same file with conflict markers around the ranges that could not be placed
+     */
+    async showConflict(target: ApplyTarget): Promise<void> {
+        this.notificationService.showWarning(
+            `${target.conflict}. ${target.file.filePath} was not changed; review the conflict and edit the file by hand`
+        );
+
+        if (target.hunks) {
+            await this.showRejects(target);
+            return;
+        }
+        if (!target.uri) {
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            target.uri,
+            this.documentProvider.uriFor(this.documentPath(target), target.content),
+            `${path.basename(target.uri!.fsPath)} (Conflict: Workspace ↔ Clipboard)`,
+            { preview: true }
+        );
+    }
+
+    private async prepare(file: DetectedFile): Promise<ApplyTarget> {
+        if (file.patch) {
+            return this.preparePatch(file, file.patch);
+        }
+
+        const header = this.rangePatchService.parseHeader(file.filePath);
+        if (header) {
+            return this.prepareRanges(file, header.path, header.ranges);
+        }
+
+        const uri = resolveInsideWorkspace(file.filePath);
+        if (!uri) {
+            return { file, status: 'unresolved', content: file.content };
+        }
+
+        const document = await this.openExisting(uri);
+        if (!document) {
+            return { file, status: 'new', uri, content: this.withFinalNewline(file.content, true) };
+        }
+
+        const current = document.getText().replace(/\r\n/g, '\n');
+        const content = this.withFinalNewline(file.content, current.endsWith('\n'));
+
+        return {
+            file,
+            status: current === content ? 'unchanged' : 'modified',
+            uri,
+            document,
+            version: document.version,
+            content
+        };
+    }
+
+    /**
+     * A "file.ts:10-20" block replaces those lines of an existing file, once they are found again
+     */
+    private async prepareRanges(file: DetectedFile, filePath: string, ranges: LineRange[]): Promise<ApplyTarget> {
+        const uri = resolveInsideWorkspace(filePath);
+        const document = uri && await this.openExisting(uri);
+        if (!uri || !document) {
+            return { file, status: 'unresolved', content: file.content };
+        }
+
+        const current = document.getText().replace(/\r\n/g, '\n');
+        const lines = current.split('\n');
+        const target: ApplyTarget = { file, status: 'range', uri, document, version: document.version, content: current };
+
+        const patches = this.rangePatchService.createPatches(
+            ranges,
+            file.content,
+            this.clipboardService.getCopiedFile(filePath)?.segments
+        );
+        if (!patches) {
+            return {
+                ...target,
+                status: 'conflict',
+                conflict: `The clipboard block does not hold one part for each of its ${ranges.length} line ranges`
+            };
+        }
+
+        const result = this.rangePatchService.place(lines, patches);
+        if ('conflict' in result) {
+            return {
+                ...target,
+                status: 'conflict',
+                conflict: result.conflict,
+                content: this.rangePatchService.renderConflict(lines, patches)
+            };
+        }
+
+        const content = this.rangePatchService.apply(lines, result.placements).join('\n');
+        return {
+            ...target,
+            status: content === current ? 'unchanged' : 'range',
+            content,
+            placements: result.placements
+        };
+    }
+
+    /**
+     * Apply the hunks of a unified diff in memory; hunks that do not match are rejected, the others kept
+     */
+    private async preparePatch(file: DetectedFile, patch: FileDiff): Promise<ApplyTarget> {
+        if (!patch.newPath) {
+            return { file, status: 'conflict', content: file.content, conflict: 'Deleting files from a patch is not supported' };
+        }
+        if (patch.oldPath && patch.oldPath !== patch.newPath) {
+            return { file, status: 'conflict', content: file.content, conflict: 'Renaming files from a patch is not supported' };
+        }
+
+        const uri = resolveInsideWorkspace(patch.path);
+        if (!uri) {
+            return { file, status: 'unresolved', content: file.content };
+        }
+
+        const document = await this.openExisting(uri);
+        if (document && !patch.oldPath) {
+            return { file, status: 'conflict', content: file.content, conflict: `The patch creates ${patch.path}, which already exists` };
+        }
+        if (!document && patch.oldPath) {
+            return { file, status: 'conflict', content: file.content, conflict: `${patch.path} does not exist in the workspace` };
+        }
+
+        const target: ApplyTarget = document
+            ? { file, status: 'patch', uri, document, version: document.version, content: '' }
+            : { file, status: 'new', uri, content: '' };
+        const patched = this.withHunks(target);
+
+        if (!patched.hunks!.some(hunk => hunk.applied)) {
+            const total = patch.hunks.length;
+            return {
+                ...patched,
+                status: 'conflict',
+                conflict: total === 1 ? 'The hunk of the patch does not apply' : `None of the ${total} hunks of the patch apply`
+            };
+        }
+
+        return patched;
+    }
+
+    /**
+     * The target with only the given hunks applied, all of them by default
+     */
+    private withHunks(target: ApplyTarget, indexes?: number[]): ApplyTarget {
+        const lines = target.document ? target.document.getText().replace(/\r\n/g, '\n').split('\n') : [];
+        const result = this.patchService.apply(lines, target.file.patch!, indexes);
+        const content = result.lines.join('\n');
+
+        return {
+            ...target,
+            content: target.document ? content : this.withFinalNewline(content, true),
+            hunks: result.hunks
+        };
+    }
+
+    private async reportRejects(target: ApplyTarget): Promise<void> {
+        const rejected = target.hunks?.filter(hunk => !hunk.applied) ?? [];
+        if (rejected.length === 0) {
+            return;
+        }
+
+        this.notificationService.showWarning(
+            `${rejected.length} of ${target.hunks!.length} hunks of ${target.file.filePath} were rejected`
+        );
+        await this.showRejects(target);
+    }
+
+    /**
+     * Rejected hunks with their reasons, like the ".rej" file of "patch"
+     */
+    private async showRejects(target: ApplyTarget): Promise<void> {
+        const uri = this.documentProvider.uriFor(
+            `${target.file.filePath}.rej`,
+            this.patchService.renderRejects(target.file.patch!, target.hunks!)
+        );
+        await vscode.window.showTextDocument(uri, { preview: true, preserveFocus: true });
+    }
+
+    private async openExisting(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return await vscode.workspace.openTextDocument(uri);
+        } catch {
+            // Missing files are offered as new files
+            return undefined;
+        }
+    }
+
+    /**
+     * Path of the virtual document, without the line range so that the language mode still applies
+     */
+    private documentPath(target: ApplyTarget): string {
+        return target.uri && target.status !== 'new'
+            ? vscode.workspace.asRelativePath(target.uri)
+            : target.file.filePath;
+    }
+
+    private describeChange(target: ApplyTarget): string {
+        const filePath = target.file.filePath;
+
+        switch (target.status) {
+            case 'new':
+                return `Create ${filePath} from the clipboard?`;
+            case 'patch': {
+                const applied = target.hunks!.filter(hunk => hunk.applied).length;
+                return `Apply ${applied} hunk${applied !== 1 ? 's' : ''} of the patch to ${filePath}?`;
+            }
+            case 'range':
+                return `Replace ${describePlacements(target.placements!)} of ` +
+                    `${vscode.workspace.asRelativePath(target.uri!)} with the clipboard version?`;
+            default:
+                return `Replace ${filePath} with the clipboard version?`;
+        }
+    }
+
+    private canApply(target: ApplyTarget): boolean {
+        const filePath = target.file.filePath;
+
+        switch (target.status) {
+            case 'unresolved':
+                this.notificationService.showWarning(`Cannot resolve ${filePath} inside the workspace`);
+                return false;
+            case 'unchanged':
+                this.notificationService.showInfo(`${path.basename(filePath)} already matches the clipboard`);
+                return false;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Write all targets as a single workspace edit, so that one undo reverts them
+     */
+    private async write(targets: ApplyTarget[]): Promise<boolean> {
+        const edit = new vscode.WorkspaceEdit();
+
+        const changed = targets.find(target => target.document && target.document.version !== target.version);
+        if (changed) {
+            this.notificationService.showWarning(
+                `${vscode.workspace.asRelativePath(changed.uri!)} changed since the preview; no files were changed`
+            );
+            return false;
+        }
+
+        for (const target of targets) {
+            if (target.placements) {
+                // Only the placed ranges are replaced, so several blocks of one file can be applied together
+                for (const placement of target.placements) {
+                    const lastLine = target.document!.lineAt(placement.endLine - 1);
+                    edit.replace(
+                        target.uri!,
+                        new vscode.Range(placement.startLine - 1, 0, lastLine.lineNumber, lastLine.text.length),
+                        placement.patch.content
+                    );
+                }
+            } else if (target.document) {
+                const text = target.document.getText();
+                edit.replace(
+                    target.uri!,
+                    new vscode.Range(target.document.positionAt(0), target.document.positionAt(text.length)),
+                    target.content
+                );
+            } else {
+                edit.createFile(target.uri!, { ignoreIfExists: false });
+                edit.insert(target.uri!, new vscode.Position(0, 0), target.content);
+            }
+        }
+
+        const applied = await vscode.workspace.applyEdit(edit);
+        if (!applied) {
+            this.notificationService.showError('The workspace rejected the edit; no files were changed');
+        }
+        return applied;
+    }
+
+    /**
+     * Detected content loses its final newline; keep the one of the file it replaces
+     */
+    private withFinalNewline(content: string, finalNewline: boolean): string {
+        const trimmed = content.replace(/\n+$/, '');
+        return finalNewline && trimmed ? `${trimmed}\n` : trimmed;
+    }
+}
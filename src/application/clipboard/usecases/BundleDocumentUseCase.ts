@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { ClipboardDetectionService } from '../../../domain/clipboard/services/ClipboardDetectionService';
+import { RangePatchService } from '../../../domain/clipboard/services/RangePatchService';
+import { TemplateService } from '../../../domain/clipboard/services/TemplateService';
+import { CopiedFile, CopiedFileEntity, CopiedSegment } from '../../../domain/clipboard/entities/CopiedFile';
+import { DetectedFile } from '../../../domain/clipboard/entities/DetectedFile';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { clipboardDocumentUri } from '../../../infrastructure/clipboard/preview/ClipboardDocumentProvider';
+
+export const BUNDLE_EXTENSION = '.bundle.md';
+
+const BUNDLE_NAME = 'copied-stack';
+
+/**
+ * Bundle documents are recognized by their name, both untitled ones opened from the stack and saved files
+ */
+export function isBundleDocument(document: vscode.TextDocument): boolean {
+    return document.uri.path.endsWith(BUNDLE_EXTENSION);
+}
+
+export class BundleDocumentUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly detectionService: ClipboardDetectionService,
+        private readonly rangePatchService: RangePatchService,
+        private readonly templateService: TemplateService,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    /**
+     * Render the copied stack into an untitled Markdown editor; saving it keeps the .bundle.md name
+     */
+    async open(): Promise<void> {
+        try {
+            const files = this.clipboardService.getCopiedFiles();
+            if (files.length === 0) {
+                this.notificationService.showWarning('No files in the copied stack');
+                return;
+            }
+
+            const uri = (await this.findFreeUri()).with({ scheme: 'untitled' });
+            const document = await vscode.workspace.openTextDocument(uri);
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.insert(uri, new vscode.Position(0, 0), this.clipboardService.buildClipboardContent(files));
+            await vscode.workspace.applyEdit(edit);
+
+            await vscode.window.showTextDocument(document, { preview: false });
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to open copied stack: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Write the edited bundle to the clipboard as is; the copied stack itself is left unchanged
+     */
+    async commit(document: vscode.TextDocument): Promise<void> {
+        try {
+            const redactions = await this.clipboardService.copyEditedBundle(document.getText());
+            this.notificationService.showInfo(
+                `Copied ${path.basename(document.uri.path)} to clipboard${this.clipboardService.formatRedactionNotice(redactions)}`
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy bundle: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Save the given bundle document, or the copied stack as currently rendered, to a .bundle.md file
+     */
+    async save(document?: vscode.TextDocument): Promise<void> {
+        try {
+            const files = this.clipboardService.getCopiedFiles();
+            if (!document && files.length === 0) {
+                this.notificationService.showWarning('No files in the copied stack');
+                return;
+            }
+
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: document?.uri.scheme === 'file' ? document.uri : await this.findFreeUri(),
+                filters: { 'Markdown Bundle': ['md'] },
+                title: 'Save Bundle'
+            });
+            if (!target) {
+                return;
+            }
+
+            const text = document ? document.getText() : this.clipboardService.buildClipboardContent(files);
+            await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+
+            this.notificationService.showInfo(`Saved bundle to ${vscode.workspace.asRelativePath(target)}`);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to save bundle: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Add the files of a bundle to the copied stack, replacing entries for the same path
+     */
+    async import(uri: vscode.Uri): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const detected = this.detectionService.parseClipboardContent(document.getText());
+
+            if (detected.length === 0) {
+                this.notificationService.showWarning(`No copied files found in ${path.basename(uri.path)}`);
+                return;
+            }
+
+            const files = this.clipboardService.getCopiedFiles();
+            const before = files.length;
+
+            for (const detectedFile of detected) {
+                const file = await this.toCopiedFile(detectedFile);
+                const index = files.findIndex(existing => existing.basePath === file.basePath);
+                if (index >= 0) {
+                    files[index] = file;
+                } else {
+                    files.push(file);
+                }
+            }
+
+            await this.clipboardService.setCopiedFiles(files);
+
+            const added = files.length - before;
+            this.notificationService.showInfo(
+                `Imported ${detected.length} file${detected.length !== 1 ? 's' : ''} from ${path.basename(uri.path)}: ` +
+                `${added} added, ${files.length} in clipboard${this.clipboardService.describeRedactions(files)}`
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to import bundle: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * Rebuild a stack entry from a detected block; "file.ts:10-20" blocks keep their line ranges
+     */
+    private async toCopiedFile(file: DetectedFile): Promise<CopiedFile> {
+        const header = file.patch ? undefined : this.rangePatchService.parseHeader(file.filePath);
+        const patches = header ? this.rangePatchService.createPatches(header.ranges, file.content) : undefined;
+
+        const basePath = header && patches ? header.path : file.filePath;
+        const segments: CopiedSegment[] | undefined = patches?.map(patch => ({
+            startLine: patch.startLine,
+            endLine: patch.endLine,
+            content: patch.content
+        }));
+
+        const context = {
+            path: basePath,
+            range: segments ? CopiedFileEntity.formatRanges(segments) : undefined,
+            language: file.patch ? 'diff' : await this.resolveLanguage(basePath),
+            content: file.content
+        };
+
+        const formatted = this.clipboardService.formatFileContent(context);
+        return {
+            ...CopiedFileEntity.create(
+                this.templateService.formatLocation(context),
+                basePath,
+                formatted.content,
+                'normal',
+                undefined,
+                segments,
+                file.patch ? { kind: 'diff' } : undefined
+            ),
+            language: context.language,
+            redactions: formatted.redactions
+        };
+    }
+
+    /**
+     * Language mode VS Code picks for the path, from the clipboard document of the file; undefined when it cannot be opened
+     */
+    private async resolveLanguage(filePath: string): Promise<string | undefined> {
+        try {
+            return (await vscode.workspace.openTextDocument(clipboardDocumentUri(filePath))).languageId;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * "copied-stack.bundle.md" in the first workspace folder or the home directory, numbered when that name is taken
+     */
+    private async findFreeUri(): Promise<vscode.Uri> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+        const openPaths = new Set(vscode.workspace.textDocuments.map(document => document.uri.path));
+
+        for (let index = 1; ; index++) {
+            const name = `${BUNDLE_NAME}${index > 1 ? `-${index}` : ''}${BUNDLE_EXTENSION}`;
+            const uri = vscode.Uri.joinPath(folder, name);
+
+            if (!openPaths.has(uri.path) && !(await this.exists(uri))) {
+                return uri;
+            }
+        }
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
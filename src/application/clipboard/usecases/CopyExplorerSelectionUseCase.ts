@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { LineOptionsService } from '../../../domain/clipboard/services/LineOptionsService';
+import { FilePolicyService } from '../../../domain/clipboard/services/FilePolicyService';
+import { FilePolicyOutcome } from '../../../domain/clipboard/entities/FilePolicy';
+import { LineOptions } from '../../../domain/clipboard/entities/LineOptions';
+import { CopiedFile } from '../../../domain/clipboard/entities/CopiedFile';
+import { CopyFileContentUseCase, PolicyCopy } from './CopyFileContentUseCase';
+import { FileFilter, IExplorerCopySettings, IFileCollector } from '../../../infrastructure/clipboard/files/FileCollector';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { ClipboardBudgetExceededError } from '../../../shared/errors/ClipboardErrors';
+import { Logger } from '../../../utils/common/logger';
+
+export interface CopyExplorerSelectionOptions {
+    templateId?: string;
+    lines?: Partial<LineOptions>;
+
+    /**
+     * Overrides for the configured include/exclude globs of selected directories
+     */
+    filter?: Partial<FileFilter>;
+}
+
+export class CopyExplorerSelectionUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly copyFileContentUseCase: CopyFileContentUseCase,
+        private readonly filePolicyService: FilePolicyService,
+        private readonly lineOptionsService: LineOptionsService,
+        private readonly fileCollector: IFileCollector,
+        private readonly settings: IExplorerCopySettings,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    async execute(uris: vscode.Uri[], options: CopyExplorerSelectionOptions = {}): Promise<void> {
+        if (uris.length === 0) {
+            this.notificationService.showWarning('No files selected in the Explorer');
+            return;
+        }
+
+        const filter = { ...this.settings.getExplorerFilter(), ...options.filter };
+        const lineOptions = this.lineOptionsService.resolveOptions(options.lines);
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Copying Explorer selection',
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: 'Collecting files...' });
+                const files = await this.fileCollector.collect(uris, filter, token);
+
+                if (token.isCancellationRequested) {
+                    this.notificationService.showWarning('Copy operation was cancelled');
+                    return;
+                }
+
+                if (files.length === 0) {
+                    this.notificationService.showWarning('No files in the selection match the include/exclude globs');
+                    return;
+                }
+
+                const copied: CopiedFile[] = [];
+                let failed = 0;
+                let sensitive = 0;
+                const outcomes: FilePolicyOutcome[] = [];
+
+                for (const [index, uri] of files.entries()) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+
+                    progress.report({
+                        increment: 100 / files.length,
+                        message: `Processing ${path.basename(uri.fsPath)} (${index + 1}/${files.length})`
+                    });
+
+                    const displayPath = vscode.workspace.asRelativePath(uri);
+                    if (this.clipboardService.isSensitiveFile(displayPath)) {
+                        sensitive++;
+                        continue;
+                    }
+
+                    let read: PolicyCopy;
+                    try {
+                        read = await this.copyFileContentUseCase.readWithPolicy(uri, displayPath, {
+                            templateId: options.templateId,
+                            lineOptions
+                        });
+                    } catch (error) {
+                        failed++;
+                        Logger.warn(`Could not read file content: ${uri.fsPath}`, error);
+                        continue;
+                    }
+
+                    if (read.decision.category) {
+                        outcomes.push({ path: displayPath, ...read.decision });
+                    }
+                    if (!read.file) {
+                        continue;
+                    }
+
+                    try {
+                        copied.push(await this.clipboardService.addCopiedFile(read.file));
+                    } catch (error) {
+                        if (error instanceof ClipboardBudgetExceededError) {
+                            this.notificationService.showWarning(`${error.message} - stopped at ${path.basename(uri.fsPath)}`);
+                            break;
+                        }
+                        throw error;
+                    }
+                }
+
+                const count = this.clipboardService.getCopiedFiles().length;
+                const skipped = [
+                    failed > 0 ? `${failed} could not be read` : '',
+                    sensitive > 0 ? `${sensitive} sensitive skipped` : ''
+                ].filter(Boolean).join(', ');
+                const skippedText = skipped ? ` (${skipped})` : '';
+                const noticeText = this.filePolicyService.formatNotice(outcomes) +
+                    this.clipboardService.describeMinification(copied) +
+                    this.clipboardService.describeRedactions(copied);
+
+                if (token.isCancellationRequested) {
+                    this.notificationService.showWarning(
+                        `Copy operation was cancelled after ${copied.length} file${copied.length !== 1 ? 's' : ''}, ` +
+                        `${count} in clipboard${noticeText}`
+                    );
+                    return;
+                }
+
+                this.notificationService.showInfo(
+                    `Copied ${copied.length} file${copied.length !== 1 ? 's' : ''} from the Explorer, ` +
+                    `${count} in clipboard${skippedText}${noticeText}`
+                );
+            });
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy Explorer selection: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+}
@@ -1,23 +1,68 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
-import { CopiedFileEntity } from '../../../domain/clipboard/entities/CopiedFile';
+import { CopiedFile, CopiedFileEntity, CopiedSegment } from '../../../domain/clipboard/entities/CopiedFile';
+import { TemplateContext } from '../../../domain/clipboard/entities/OutputTemplate';
+import { DiagnosticOptions } from '../../../domain/clipboard/entities/DiagnosticReport';
+import { DiagnosticService } from '../../../domain/clipboard/services/DiagnosticService';
+import { LineOptions } from '../../../domain/clipboard/entities/LineOptions';
+import { LineOptionsService } from '../../../domain/clipboard/services/LineOptionsService';
+import { FilePolicyService } from '../../../domain/clipboard/services/FilePolicyService';
+import { FilePolicyDecision } from '../../../domain/clipboard/entities/FilePolicy';
 import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { IDiagnosticCollector } from '../../../infrastructure/clipboard/diagnostics/DiagnosticCollector';
+import { Logger } from '../../../utils/common/logger';
 
-export interface ErrorInfo {
-    message: string;
-    line: number;
-    content: string;
-    severity: number;
-    index: number;
+// An explicit range to copy instead of the editor selections
+export interface CopyTarget {
+    range: vscode.Range;
+
+    /**
+     * Shown in the block header, e.g. "function activate"
+     */
+    label?: string;
+}
+
+export interface CopyFileContentOptions {
+    includeErrors?: boolean;
+    templateId?: string;
+
+    /**
+     * Ranges to copy from the active editor; defaults to its non-empty selections
+     */
+    targets?: CopyTarget[];
+
+    /**
+     * Overrides for the configured diagnostic options, used with includeErrors
+     */
+    diagnostics?: Partial<DiagnosticOptions>;
+
+    /**
+     * Overrides for the configured line numbers and context lines
+     */
+    lines?: Partial<LineOptions>;
+}
+
+// Result of reading a file for a bulk copy; file is absent when the policy skips it
+export interface PolicyCopy {
+    file?: CopiedFile;
+    decision: FilePolicyDecision;
 }
 
 export class CopyFileContentUseCase {
     constructor(
         private readonly clipboardService: ClipboardService,
-        private readonly notificationService: IClipboardNotificationService
+        private readonly notificationService: IClipboardNotificationService,
+        private readonly diagnosticService: DiagnosticService,
+        private readonly diagnosticCollector: IDiagnosticCollector,
+        private readonly lineOptionsService: LineOptionsService,
+        private readonly filePolicyService: FilePolicyService
     ) { }
 
-    async execute(includeErrors: boolean = false): Promise<void> {
+    async execute(options: CopyFileContentOptions = {}): Promise<void> {
+        const { includeErrors = false, templateId } = options;
+        const lineOptions = this.lineOptionsService.resolveOptions(options.lines);
+
         try {
             const editor = vscode.window.activeTextEditor;
             if (!editor) {
@@ -28,46 +73,52 @@ export class CopyFileContentUseCase {
             const document = editor.document;
             const filePath = document.uri.fsPath;
 
-            let displayPath = filePath;
             let basePath = filePath;
 
             if (vscode.workspace.workspaceFolders) {
-                const ws = vscode.workspace.workspaceFolders[0];
-                displayPath = vscode.workspace.asRelativePath(document.uri);
-                basePath = displayPath;
+                basePath = vscode.workspace.asRelativePath(document.uri);
             }
 
-            let content: string;
-            const selection = editor.selection;
+            // Multi-cursor selections are copied as separate segments of one block;
+            // ranges copied earlier from the same file are merged into it
+            const targets: CopyTarget[] = options.targets ||
+                editor.selections.filter(selection => !selection.isEmpty).map(range => ({ range }));
+            let segments: CopiedSegment[] | undefined;
 
-            if (!selection.isEmpty) {
-                content = document.getText(selection);
-                const startLine = selection.start.line + 1;
-                const endLine = selection.end.line + 1;
-                displayPath = `${displayPath}:${startLine}-${endLine}`;
-            } else {
-                content = document.getText();
+            if (targets.length > 0) {
+                const incoming = targets.map(target => {
+                    const range = this.expandRange(document, target.range, lineOptions);
+                    return {
+                        startLine: range.start.line + 1,
+                        endLine: range.end.line + 1,
+                        content: document.getText(range),
+                        label: target.label
+                    };
+                });
+                const existing = this.clipboardService.getCopiedFile(basePath);
+                // Segments of older copies may not hold full lines; the merged ranges are read again
+                segments = CopiedFileEntity.mergeSegments(existing?.segments || [], incoming).map(segment => ({
+                    ...segment,
+                    content: document.getText(this.toRange(document, segment))
+                }));
             }
 
-            let formattedContent: string;
-            const format: 'normal' | 'error' = includeErrors ? 'error' : 'normal';
-
-            if (includeErrors) {
-                const errors = this.getErrorsFromDocument(document, selection);
-                formattedContent = this.formatContentWithErrors(displayPath, content, errors);
-            } else {
-                formattedContent = this.formatContent(displayPath, content);
-            }
-
-            const copiedFile = CopiedFileEntity.create(displayPath, basePath, formattedContent, format);
+            const copiedFile = this.buildCopiedFile(document, basePath, segments, {
+                includeErrors,
+                templateId,
+                lineOptions,
+                diagnostics: options.diagnostics
+            });
 
             // SỬA LỖI: Thay thế updateSystemClipboard() bằng addCopiedFile()
-            await this.clipboardService.addCopiedFile(copiedFile);
+            const stored = await this.clipboardService.addCopiedFile(copiedFile);
 
             const count = this.clipboardService.getCopiedFiles().length;
             const errorText = includeErrors ? ' with errors' : '';
+            const rangeText = segments && segments.length > 1 ? ` (${basePath}: ${segments.length} ranges)` : '';
             this.notificationService.showInfo(
-                `Copied ${count} file${count > 1 ? 's' : ''}${errorText} to clipboard`
+                `Copied ${count} file${count > 1 ? 's' : ''}${errorText} to clipboard${rangeText}` +
+                this.clipboardService.describeMinification([stored]) + this.clipboardService.describeRedactions([stored])
             );
 
         } catch (error) {
@@ -77,42 +128,167 @@ export class CopyFileContentUseCase {
         }
     }
 
-    private getErrorsFromDocument(document: vscode.TextDocument, selection: vscode.Selection): ErrorInfo[] {
-        const diagnostics = vscode.languages.getDiagnostics(document.uri);
-        const errors: ErrorInfo[] = [];
-        let errorCounter = 1;
-
-        diagnostics.forEach(diagnostic => {
-            if (diagnostic.severity <= 1) {
-                if (selection.isEmpty || diagnostic.range.intersection(selection)) {
-                    const line = diagnostic.range.start.line;
-                    errors.push({
-                        message: diagnostic.message,
-                        line: line + 1,
-                        content: document.lineAt(line).text.trim(),
-                        severity: diagnostic.severity,
-                        index: errorCounter++
-                    });
-                }
+    /**
+     * Read a copied file again from disk and render it with the options it was copied with.
+     * Copied ranges keep their line numbers and are widened to full lines.
+     */
+    async rebuild(file: CopiedFile, uri: vscode.Uri): Promise<CopiedFile> {
+        if (file.policy) {
+            const lineOptions = file.source?.kind === 'content' ? file.source.lineOptions : this.lineOptionsService.resolveOptions();
+            const { file: refreshed, decision } = await this.readWithPolicy(uri, file.basePath, { templateId: file.templateId, lineOptions });
+            if (!refreshed) {
+                throw new Error(`${path.basename(file.basePath)} is ${this.filePolicyService.describe(decision)}`);
             }
+            return refreshed;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+
+        const segments = file.segments?.map(segment => {
+            const range = this.toRange(document, segment);
+            return {
+                ...segment,
+                startLine: range.start.line + 1,
+                endLine: range.end.line + 1,
+                content: document.getText(range)
+            };
         });
 
-        return errors;
+        return this.buildCopiedFile(document, file.basePath, segments, {
+            includeErrors: file.format === 'error',
+            templateId: file.templateId,
+            lineOptions: file.source?.kind === 'content'
+                ? file.source.lineOptions
+                : this.lineOptionsService.resolveOptions()
+        });
     }
 
-    private formatContent(displayPath: string, content: string): string {
-        return `${displayPath}:\n\`\`\`\n${content}\n\`\`\``;
+    /**
+     * Read a whole file for a bulk copy, applying the binary, generated and size policy.
+     * Read errors are thrown; what the policy did is logged per file.
+     */
+    async readWithPolicy(
+        uri: vscode.Uri,
+        basePath: string,
+        options: { templateId?: string; lineOptions: LineOptions }
+    ): Promise<PolicyCopy> {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        const decision = this.filePolicyService.evaluate(basePath, bytes);
+
+        if (decision.category) {
+            Logger.info(`${basePath}: ${this.filePolicyService.describe(decision)}`);
+        }
+
+        if (decision.action === 'skip') {
+            return { decision };
+        }
+
+        if (decision.action === 'summary') {
+            const formatted = this.clipboardService.formatFileContent({
+                path: basePath,
+                options: this.filePolicyService.describe(decision),
+                content: this.filePolicyService.summarize(basePath, bytes, decision)
+            }, options.templateId);
+
+            return {
+                file: {
+                    ...CopiedFileEntity.create(basePath, basePath, formatted.content, 'normal', options.templateId),
+                    redactions: formatted.redactions,
+                    policy: decision
+                },
+                decision
+            };
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const segments = decision.action === 'truncate' ? this.filePolicyService.truncate(document.getText()) : undefined;
+        const file = this.buildCopiedFile(document, basePath, segments, {
+            includeErrors: false,
+            templateId: options.templateId,
+            lineOptions: options.lineOptions
+        });
+
+        return { file: decision.category ? { ...file, policy: decision } : file, decision };
     }
 
-    private formatContentWithErrors(displayPath: string, content: string, errors: ErrorInfo[]): string {
-        if (errors.length > 0) {
-            const errorString = errors.map(err =>
-                `${err.index}. ${err.message} | ${err.line} | ${err.content}`
-            ).join('\n');
+    private buildCopiedFile(
+        document: vscode.TextDocument,
+        basePath: string,
+        segments: CopiedSegment[] | undefined,
+        options: {
+            includeErrors: boolean;
+            templateId?: string;
+            lineOptions: LineOptions;
+            diagnostics?: Partial<DiagnosticOptions>;
+        }
+    ): CopiedFile {
+        const { includeErrors, templateId, lineOptions } = options;
+
+        // Secrets are masked before line numbers are added; the stored segments keep the masked text
+        let redactions = 0;
+        const redact = (text: string) => {
+            const redacted = this.clipboardService.redactContent(text, basePath);
+            redactions += redacted.redactions;
+            return redacted.content;
+        };
+        const masked = segments?.map(segment => ({ ...segment, content: redact(segment.content) }));
+
+        const rendered = masked
+            ? this.lineOptionsService.renderSegments(masked, lineOptions, document.languageId)
+            : this.lineOptionsService.renderContent(redact(document.getText()), lineOptions, document.languageId);
+        const range = segments ? CopiedFileEntity.formatRanges(segments) : undefined;
 
-            return `${displayPath}:\n\`\`\`\n${content}\n\n${errorString}\n\`\`\``;
-        } else {
-            return `${displayPath}:\n\`\`\`\n${content}\n\`\`\``;
+        const format: 'normal' | 'error' = includeErrors ? 'error' : 'normal';
+        const context: TemplateContext = {
+            path: basePath,
+            range,
+            language: document.languageId,
+            symbols: segments ? CopiedFileEntity.joinLabels(segments) : undefined,
+            options: this.lineOptionsService.describe(lineOptions),
+            content: rendered.content
+        };
+
+        if (includeErrors) {
+            context.diagnostics = this.diagnosticCollector.collect(
+                document,
+                (segments || []).map(segment => this.toRange(document, segment)),
+                this.diagnosticService.resolveOptions(options.diagnostics)
+            );
         }
+
+        const formatted = this.clipboardService.formatFileContent(context, templateId);
+        const displayPath = range ? `${basePath}:${range}` : basePath;
+        const copiedFile: CopiedFile = {
+            ...CopiedFileEntity.create(displayPath, basePath, formatted.content, format, templateId, masked, {
+                kind: 'content',
+                lineOptions
+            }),
+            language: document.languageId,
+            redactions: redactions + formatted.redactions,
+            diagnostics: typeof context.diagnostics === 'object' ? context.diagnostics.entries.length : undefined
+        };
+        return rendered.saved > 0 ? { ...copiedFile, minified: rendered.saved } : copiedFile;
+    }
+
+    /**
+     * Round a selection out to full lines and add context lines. The block header names a line range,
+     * so the copied text must be whole lines for the block to be applied back to those lines.
+     */
+    private expandRange(document: vscode.TextDocument, selection: vscode.Range, options: LineOptions): vscode.Range {
+        // A selection ending at the start of a line does not include that line
+        const lastLine = selection.end.character === 0 && selection.end.line > selection.start.line
+            ? selection.end.line - 1
+            : selection.end.line;
+
+        const startLine = Math.max(0, selection.start.line - options.contextLines);
+        const endLine = Math.min(document.lineCount - 1, lastLine + options.contextLines);
+
+        return new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    }
+
+    private toRange(document: vscode.TextDocument, segment: CopiedSegment): vscode.Range {
+        return document.validateRange(
+            new vscode.Range(segment.startLine - 1, 0, segment.endLine - 1, Number.MAX_SAFE_INTEGER)
+        );
     }
 }
\ No newline at end of file
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { DiffService } from '../../../domain/clipboard/services/DiffService';
+import { CopiedFile, CopiedFileEntity } from '../../../domain/clipboard/entities/CopiedFile';
+import { FileDiff } from '../../../domain/clipboard/entities/FileDiff';
+import { GitRef, IGitClient } from '../../../infrastructure/clipboard/git/GitClient';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { ClipboardBudgetExceededError } from '../../../shared/errors/ClipboardErrors';
+
+export interface CopyGitDiffOptions {
+    staged?: boolean;
+    ref?: string; // branch, tag or commit to diff against
+    templateId?: string;
+}
+
+// Chooses a ref to diff against, undefined when cancelled
+export type GitRefPicker = (refs: GitRef[]) => Promise<string | undefined>;
+
+export class CopyGitDiffUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly diffService: DiffService,
+        private readonly gitClient: IGitClient,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    /**
+     * Diff of the given files, or of the active file when none are given
+     */
+    async copyFiles(uris: vscode.Uri[] | undefined, options: CopyGitDiffOptions = {}): Promise<void> {
+        try {
+            const files = uris && uris.length > 0
+                ? uris
+                : vscode.window.activeTextEditor ? [vscode.window.activeTextEditor.document.uri] : [];
+
+            if (files.length === 0) {
+                this.notificationService.showWarning('No active text editor found');
+                return;
+            }
+
+            // Files may live in different repositories of a multi-root workspace
+            const byRoot = new Map<string, string[]>();
+            for (const uri of files.filter(uri => uri.scheme === 'file')) {
+                const root = await this.gitClient.getRepositoryRoot(path.dirname(uri.fsPath));
+                if (!root) {
+                    continue;
+                }
+                byRoot.set(root, [...(byRoot.get(root) || []), uri.fsPath]);
+            }
+
+            if (byRoot.size === 0) {
+                this.notificationService.showWarning('The selected files are not in a git repository');
+                return;
+            }
+
+            const diffs: { root: string; file: FileDiff }[] = [];
+            for (const [root, paths] of byRoot) {
+                const diffText = await this.gitClient.diff(root, { ...options, paths });
+                diffs.push(...this.diffService.parse(diffText).map(file => ({ root, file })));
+            }
+
+            await this.copyDiffs(diffs, options);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy git diff: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Diff of the whole repository containing the active file, or the first workspace folder
+     */
+    async copyRepository(options: CopyGitDiffOptions = {}): Promise<void> {
+        try {
+            const root = await this.findRepositoryRoot();
+            if (!root) {
+                this.notificationService.showWarning('No git repository found');
+                return;
+            }
+
+            const diffText = await this.gitClient.diff(root, options);
+            await this.copyDiffs(this.diffService.parse(diffText).map(file => ({ root, file })), options);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy git diff: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Let the user choose a branch, tag or commit of the current repository
+     */
+    async chooseRef(pick: GitRefPicker): Promise<string | undefined> {
+        try {
+            const root = await this.findRepositoryRoot();
+            if (!root) {
+                this.notificationService.showWarning('No git repository found');
+                return undefined;
+            }
+
+            return await pick(await this.gitClient.listRefs(root));
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to list git references: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+            return undefined;
+        }
+    }
+
+    /**
+     * Run the diff of a copied diff block again; undefined when the file no longer has changes
+     */
+    async rebuild(file: CopiedFile, uri: vscode.Uri): Promise<CopiedFile | undefined> {
+        const options: CopyGitDiffOptions = file.source?.kind === 'diff'
+            ? { staged: file.source.staged, ref: file.source.ref, templateId: file.templateId }
+            : { templateId: file.templateId };
+
+        const root = await this.gitClient.getRepositoryRoot(path.dirname(uri.fsPath));
+        if (!root) {
+            return undefined;
+        }
+
+        const diffText = await this.gitClient.diff(root, { ...options, paths: [uri.fsPath] });
+        const [fileDiff] = this.diffService.parse(diffText);
+
+        return fileDiff ? this.buildCopiedFile(file.basePath, fileDiff, options) : undefined;
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * Repository containing the active file, or the first workspace folder
+     */
+    private async findRepositoryRoot(): Promise<string | undefined> {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const directory = activeUri?.scheme === 'file'
+            ? path.dirname(activeUri.fsPath)
+            : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        return directory ? this.gitClient.getRepositoryRoot(directory) : undefined;
+    }
+
+    /**
+     * Add one path-headed block per changed file; stops at the first file refused by the token budget
+     */
+    private async copyDiffs(diffs: { root: string; file: FileDiff }[], options: CopyGitDiffOptions): Promise<void> {
+        const description = this.describe(options);
+
+        if (diffs.length === 0) {
+            this.notificationService.showInfo(`No changes in the ${description}`);
+            return;
+        }
+
+        const copied: CopiedFile[] = [];
+        let hunks = 0;
+        let sensitive = 0;
+
+        for (const { root, file } of diffs) {
+            const relativePath = vscode.workspace.asRelativePath(vscode.Uri.file(path.join(root, file.path)));
+            if (this.clipboardService.isSensitiveFile(relativePath)) {
+                sensitive++;
+                continue;
+            }
+
+            try {
+                copied.push(await this.clipboardService.addCopiedFile(this.buildCopiedFile(relativePath, file, options)));
+                hunks += file.hunks.length;
+            } catch (error) {
+                if (error instanceof ClipboardBudgetExceededError) {
+                    this.notificationService.showWarning(`${error.message} - stopped at ${path.basename(relativePath)}`);
+                    break;
+                }
+                throw error;
+            }
+        }
+
+        const count = this.clipboardService.getCopiedFiles().length;
+        const sensitiveText = sensitive > 0 ? `, ${sensitive} sensitive skipped` : '';
+        this.notificationService.showInfo(
+            `Copied ${description} of ${copied.length} file${copied.length !== 1 ? 's' : ''} ` +
+            `(${hunks} hunk${hunks !== 1 ? 's' : ''}${sensitiveText}), ${count} in clipboard` +
+            this.clipboardService.describeRedactions(copied)
+        );
+    }
+
+    private buildCopiedFile(relativePath: string, file: FileDiff, options: CopyGitDiffOptions): CopiedFile {
+        const formatted = this.clipboardService.formatFileContent({
+            path: relativePath,
+            language: 'diff',
+            options: this.describe(options),
+            content: file.text
+        }, options.templateId);
+
+        return {
+            ...CopiedFileEntity.create(relativePath, relativePath, formatted.content, 'normal', options.templateId, undefined, {
+                kind: 'diff',
+                staged: options.staged,
+                ref: options.ref
+            }),
+            language: 'diff',
+            redactions: formatted.redactions
+        };
+    }
+
+    private describe(options: CopyGitDiffOptions): string {
+        const base = options.staged ? 'staged diff' : 'working tree diff';
+        return options.ref ? `${options.staged ? 'staged diff' : 'diff'} vs ${options.ref}` : base;
+    }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { PermalinkService } from '../../../domain/clipboard/services/PermalinkService';
+import { TemplateService } from '../../../domain/clipboard/services/TemplateService';
+import { PermalinkTarget } from '../../../domain/clipboard/entities/Permalink';
+import { GitRepositoryInfo, IGitMetadataReader } from '../../../infrastructure/clipboard/git/GitMetadataReader';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+
+export interface CopyPermalinkOptions {
+    markdown?: boolean; // Markdown link followed by the linked code in a fenced block
+}
+
+export class CopyPermalinkUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly permalinkService: PermalinkService,
+        private readonly templateService: TemplateService,
+        private readonly gitMetadataReader: IGitMetadataReader,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    /**
+     * Link to the selected lines of the active editor, or to the whole file when a uri of
+     * another file is given, e.g. from a tree item
+     */
+    async execute(uri?: vscode.Uri, options: CopyPermalinkOptions = {}): Promise<void> {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            const fromEditor = editor && (!uri || uri.toString() === editor.document.uri.toString());
+            const document = fromEditor ? editor.document : uri ? await vscode.workspace.openTextDocument(uri) : undefined;
+
+            if (!document) {
+                this.notificationService.showWarning('No active text editor found');
+                return;
+            }
+            if (document.uri.scheme !== 'file') {
+                this.notificationService.showWarning('Permalinks can only be copied for files on disk');
+                return;
+            }
+
+            const filePath = document.uri.fsPath;
+            const repository = await this.gitMetadataReader.readRepository(filePath);
+            if (!repository) {
+                this.notificationService.showWarning(`${path.basename(filePath)} is not in a git repository`);
+                return;
+            }
+
+            const remoteUrl = this.chooseRemote(repository);
+            if (!remoteUrl) {
+                this.notificationService.showWarning('The repository has no remote to link to');
+                return;
+            }
+
+            const revision = repository.commit || repository.branch;
+            if (!revision) {
+                this.notificationService.showWarning('The repository has no commit or branch to link to');
+                return;
+            }
+
+            // An empty selection links the cursor line
+            const range = fromEditor ? editor.selection : undefined;
+            const endLine = range && !range.isEmpty && range.end.character === 0 && range.end.line > range.start.line
+                ? range.end.line - 1
+                : range?.end.line;
+
+            const target: PermalinkTarget = {
+                remoteUrl,
+                revision,
+                isCommit: !!repository.commit,
+                path: path.relative(repository.root, filePath).split(path.sep).join('/'),
+                startLine: range ? range.start.line + 1 : undefined,
+                endLine: endLine !== undefined ? endLine + 1 : undefined
+            };
+
+            const url = this.permalinkService.build(target);
+            const label = this.permalinkService.describe(target);
+
+            let text = url;
+            if (options.markdown) {
+                const code = range
+                    ? document.getText(new vscode.Range(target.startLine! - 1, 0, endLine!, document.lineAt(endLine!).text.length))
+                    : document.getText();
+                const fence = this.templateService.createFence(code);
+                text = `[${label}](${url})\n\n${fence}${document.languageId}\n${code}\n${fence}`;
+            }
+
+            const redacted = await this.clipboardService.copyText(text, filePath);
+
+            const warnings = [
+                !target.isCommit ? `linked to branch ${revision}, which has no commit yet` : '',
+                document.isDirty ? 'the file has unsaved changes, lines may not match' : ''
+            ].filter(warning => warning);
+
+            const message = `Copied ${options.markdown ? 'Markdown permalink' : 'permalink'} to ${label}` +
+                this.clipboardService.formatRedactionNotice(redacted);
+            if (warnings.length > 0) {
+                this.notificationService.showWarning(`${message} (${warnings.join('; ')})`);
+            } else {
+                this.notificationService.showInfo(message);
+            }
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy permalink: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * The remote the branch tracks, then "origin", then any remote
+     */
+    private chooseRemote(repository: GitRepositoryInfo): string | undefined {
+        const { remotes, upstreamRemote } = repository;
+        return (upstreamRemote && remotes[upstreamRemote]) || remotes.origin || Object.values(remotes)[0];
+    }
+}
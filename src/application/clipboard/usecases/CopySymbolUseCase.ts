@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { CopyFileContentOptions, CopyFileContentUseCase, CopyTarget } from './CopyFileContentUseCase';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { CodeSymbol, ISymbolLocator } from '../../../infrastructure/clipboard/symbols/SymbolLocator';
+
+export type SymbolCopyOptions = Omit<CopyFileContentOptions, 'targets'>;
+
+// Chooses symbols from the document outline, undefined when cancelled
+export type SymbolPicker = (symbols: CodeSymbol[]) => Promise<CodeSymbol[] | undefined>;
+
+export class CopySymbolUseCase {
+    constructor(
+        private readonly copyFileContentUseCase: CopyFileContentUseCase,
+        private readonly symbolLocator: ISymbolLocator,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    /**
+     * Copy the innermost symbol at each cursor
+     */
+    async copyAtCursor(options: SymbolCopyOptions = {}): Promise<void> {
+        await this.copyEnclosing(options, true);
+    }
+
+    /**
+     * Expand each selection to the innermost symbol that fully contains it
+     */
+    async copyEnclosing(options: SymbolCopyOptions = {}, atCursor: boolean = false): Promise<void> {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                this.notificationService.showWarning('No active text editor found');
+                return;
+            }
+
+            const symbols = await this.getSymbols(editor.document);
+            if (!symbols) {
+                return;
+            }
+
+            const found: CodeSymbol[] = [];
+            for (const selection of editor.selections) {
+                const range = atCursor ? new vscode.Range(selection.active, selection.active) : selection;
+                const symbol = this.symbolLocator.findEnclosing(symbols, range);
+                if (symbol && !found.includes(symbol)) {
+                    found.push(symbol);
+                }
+            }
+
+            if (found.length === 0) {
+                this.notificationService.showWarning(
+                    atCursor ? 'No symbol found at cursor' : 'No symbol encloses the selection'
+                );
+                return;
+            }
+
+            await this.copySymbols(found, options);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy symbol: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Copy symbols chosen from the outline of the active file
+     */
+    async copyPicked(pick: SymbolPicker, options: SymbolCopyOptions = {}): Promise<void> {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                this.notificationService.showWarning('No active text editor found');
+                return;
+            }
+
+            const symbols = await this.getSymbols(editor.document);
+            if (!symbols) {
+                return;
+            }
+
+            const picked = await pick(symbols);
+            if (!picked || picked.length === 0) {
+                return;
+            }
+
+            await this.copySymbols(picked, options);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy symbols: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async getSymbols(document: vscode.TextDocument): Promise<CodeSymbol[] | undefined> {
+        const symbols = await this.symbolLocator.getSymbols(document);
+        if (symbols.length === 0) {
+            this.notificationService.showWarning(
+                `No symbols found in ${vscode.workspace.asRelativePath(document.uri)}`
+            );
+            return undefined;
+        }
+        return symbols;
+    }
+
+    private async copySymbols(symbols: CodeSymbol[], options: SymbolCopyOptions): Promise<void> {
+        const targets: CopyTarget[] = symbols.map(symbol => ({
+            range: symbol.range,
+            label: `${symbol.kind} ${symbol.containerName ? `${symbol.containerName}.` : ''}${symbol.name}`
+        }));
+
+        await this.copyFileContentUseCase.execute({ ...options, targets });
+    }
+}
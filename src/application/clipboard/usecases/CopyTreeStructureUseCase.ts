@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { TreeStructureService } from '../../../domain/clipboard/services/TreeStructureService';
+import { FilePolicyService } from '../../../domain/clipboard/services/FilePolicyService';
+import { TreeService } from '../../../domain/folder/services/TreeService';
+import { FileNode } from '../../../domain/folder/entities/FileNode';
+import { CopiedFile, CopiedFileEntity } from '../../../domain/clipboard/entities/CopiedFile';
+import { TreeFileStats, TreeStructureOptions } from '../../../domain/clipboard/entities/TreeStructure';
+import { IExplorerCopySettings, IFileCollector } from '../../../infrastructure/clipboard/files/FileCollector';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { Logger } from '../../../utils/common/logger';
+
+// What to draw the tree of
+export type TreeStructureTarget =
+    | { kind: 'files'; name: string; fileUris: readonly string[] } // a Code Folder
+    | { kind: 'node'; node: FileNode } // a directory of the Code Folders tree
+    | { kind: 'directory'; uri: vscode.Uri }; // a directory on disk, walked with the Explorer globs
+
+interface ResolvedTree {
+    name: string;
+    nodes: FileNode[];
+
+    /**
+     * File uri for every file node path, used to read sizes and line counts
+     */
+    uris: Map<string, vscode.Uri>;
+}
+
+export class CopyTreeStructureUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly treeService: TreeService,
+        private readonly treeStructureService: TreeStructureService,
+        private readonly filePolicyService: FilePolicyService,
+        private readonly fileCollector: IFileCollector,
+        private readonly explorerSettings: IExplorerCopySettings,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    async execute(target: TreeStructureTarget, overrides?: Partial<TreeStructureOptions>): Promise<void> {
+        try {
+            const options = this.treeStructureService.resolveOptions(overrides);
+            const tree = await this.resolve(target);
+
+            if (tree.nodes.length === 0) {
+                this.notificationService.showWarning(`${tree.name} contains no files`);
+                return;
+            }
+
+            const text = await this.render(tree, options);
+            const redacted = await this.clipboardService.copyText(text);
+            const fileCount = tree.nodes.reduce((sum, node) => sum + node.getFileCount(), 0);
+
+            this.notificationService.showInfo(
+                `Copied tree structure of ${tree.name} (${fileCount} file${fileCount !== 1 ? 's' : ''})` +
+                this.clipboardService.formatRedactionNotice(redacted)
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy tree structure: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * The tree as a block for the top of a folder content copy, formatted with the given template
+     */
+    async buildHeader(target: TreeStructureTarget, templateId?: string, overrides?: Partial<TreeStructureOptions>): Promise<CopiedFile> {
+        const options = this.treeStructureService.resolveOptions(overrides);
+        const tree = await this.resolve(target);
+        const basePath = `${tree.name}/`;
+
+        const formatted = this.clipboardService.formatFileContent({
+            path: basePath,
+            language: options.style === 'markdown' ? 'markdown' : '',
+            options: 'tree structure',
+            content: await this.render(tree, options)
+        }, templateId);
+
+        return {
+            ...CopiedFileEntity.create(basePath, basePath, formatted.content, 'normal', templateId, undefined, { kind: 'tree' }),
+            redactions: formatted.redactions
+        };
+    }
+
+    // ==================== HELPERS ====================
+
+    private async resolve(target: TreeStructureTarget): Promise<ResolvedTree> {
+        if (target.kind === 'node') {
+            const nodes = target.node.getChildrenArray();
+            return { name: target.node.name, nodes, uris: this.collectUris(nodes) };
+        }
+
+        if (target.kind === 'files') {
+            const nodes = this.treeService.buildFileTree([...target.fileUris]);
+            return { name: target.name, nodes, uris: this.collectUris(nodes) };
+        }
+
+        // Paths relative to the directory, so that the tree starts below it
+        const files = await this.fileCollector.collect([target.uri], this.explorerSettings.getExplorerFilter());
+        const uris = new Map<string, vscode.Uri>();
+        for (const file of files) {
+            uris.set(path.relative(target.uri.fsPath, file.fsPath).split(path.sep).join('/'), file);
+        }
+
+        return {
+            name: path.basename(target.uri.fsPath),
+            nodes: this.treeService.buildFileTreeFromPaths(Array.from(uris.keys())),
+            uris
+        };
+    }
+
+    private async render(tree: ResolvedTree, options: TreeStructureOptions): Promise<string> {
+        const stats = options.sizes || options.lineCounts ? await this.readStats(tree.uris, options) : undefined;
+        return this.treeStructureService.render(`${tree.name}/`, tree.nodes, options, stats);
+    }
+
+    private collectUris(nodes: FileNode[]): Map<string, vscode.Uri> {
+        const uris = new Map<string, vscode.Uri>();
+        for (const file of nodes.flatMap(node => node.getAllFiles())) {
+            if (file.uri) {
+                uris.set(file.path, vscode.Uri.parse(file.uri));
+            }
+        }
+        return uris;
+    }
+
+    /**
+     * Sizes from the file system; line counts need the content and are left out for binary files
+     */
+    private async readStats(uris: Map<string, vscode.Uri>, options: TreeStructureOptions): Promise<Map<string, TreeFileStats>> {
+        const stats = new Map<string, TreeFileStats>();
+
+        for (const [filePath, uri] of uris) {
+            try {
+                if (!options.lineCounts) {
+                    stats.set(filePath, { size: (await vscode.workspace.fs.stat(uri)).size });
+                    continue;
+                }
+
+                const bytes = await vscode.workspace.fs.readFile(uri);
+                stats.set(filePath, {
+                    size: bytes.length,
+                    lines: this.filePolicyService.isBinary(bytes) ? undefined : this.countLines(bytes)
+                });
+            } catch (error) {
+                Logger.warn(`Could not read file stats: ${uri.fsPath}`, error);
+            }
+        }
+
+        return stats;
+    }
+
+    private countLines(bytes: Uint8Array): number {
+        if (bytes.length === 0) {
+            return 0;
+        }
+
+        let lines = bytes[bytes.length - 1] === 0x0a ? 0 : 1;
+        for (const byte of bytes) {
+            if (byte === 0x0a) {
+                lines++;
+            }
+        }
+        return lines;
+    }
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { DependencyNode, DependencyService } from '../../../domain/clipboard/services/DependencyService';
+import { LineOptionsService } from '../../../domain/clipboard/services/LineOptionsService';
+import { LineOptions } from '../../../domain/clipboard/entities/LineOptions';
+import { CopiedFile, CopiedFileEntity } from '../../../domain/clipboard/entities/CopiedFile';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { ClipboardBudgetExceededError } from '../../../shared/errors/ClipboardErrors';
+import { ContentCost, TokenUtils } from '../../../shared/utils/TokenUtils';
+
+export interface DependencyPreview {
+    node: DependencyNode;
+    relativePath: string;
+    importedBy?: string; // workspace relative
+    language: string;
+    content: string;
+    cost: ContentCost;
+}
+
+// Chooses which files to copy, undefined when cancelled
+export type DependencyPicker = (previews: DependencyPreview[]) => Promise<DependencyPreview[] | undefined>;
+
+export interface CopyWithDependenciesOptions {
+    templateId?: string;
+    lines?: Partial<LineOptions>;
+    maxDepth?: number;
+}
+
+export class CopyWithDependenciesUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly dependencyService: DependencyService,
+        private readonly lineOptionsService: LineOptionsService,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    async execute(
+        uri: vscode.Uri | undefined,
+        pick: DependencyPicker,
+        options: CopyWithDependenciesOptions = {}
+    ): Promise<void> {
+        try {
+            const entryUri = uri || vscode.window.activeTextEditor?.document.uri;
+            if (!entryUri) {
+                this.notificationService.showWarning('No active text editor found');
+                return;
+            }
+
+            if (!this.dependencyService.isScriptFile(entryUri.fsPath)) {
+                this.notificationService.showWarning('Copy with dependencies supports TypeScript and JavaScript files');
+                return;
+            }
+
+            const previews = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Resolving imports...'
+            }, async () => this.buildPreviews(
+                await this.dependencyService.collect(entryUri.fsPath, options.maxDepth)
+            ));
+
+            const selected = await pick(previews);
+            if (!selected || selected.length === 0) {
+                return;
+            }
+
+            const allowed = selected.filter(preview => !this.clipboardService.isSensitiveFile(preview.relativePath));
+            const copied = await this.copyFiles(allowed, options);
+
+            const count = this.clipboardService.getCopiedFiles().length;
+            const skipped = [
+                copied.length < allowed.length ? `${allowed.length - copied.length} skipped by the token budget` : '',
+                allowed.length < selected.length ? `${selected.length - allowed.length} sensitive skipped` : ''
+            ].filter(Boolean).join(', ');
+            const skippedText = skipped ? ` (${skipped})` : '';
+            this.notificationService.showInfo(
+                `Copied ${copied.length} file${copied.length !== 1 ? 's' : ''} with dependencies, ${count} in clipboard` +
+                `${skippedText}${this.clipboardService.describeMinification(copied)}${this.clipboardService.describeRedactions(copied)}`
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy with dependencies: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async buildPreviews(nodes: DependencyNode[]): Promise<DependencyPreview[]> {
+        const previews: DependencyPreview[] = [];
+
+        for (const node of nodes) {
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.file(node.filePath));
+                const content = document.getText();
+
+                previews.push({
+                    node,
+                    relativePath: vscode.workspace.asRelativePath(document.uri),
+                    importedBy: node.importedBy ? vscode.workspace.asRelativePath(vscode.Uri.file(node.importedBy)) : undefined,
+                    language: document.languageId,
+                    content,
+                    cost: TokenUtils.measure(content)
+                });
+            } catch {
+                // Unreadable files are left out of the preview
+                continue;
+            }
+        }
+
+        return previews;
+    }
+
+    /**
+     * Add files one by one; stops at the first file refused by the token budget
+     */
+    private async copyFiles(previews: DependencyPreview[], options: CopyWithDependenciesOptions): Promise<CopiedFile[]> {
+        const lineOptions = this.lineOptionsService.resolveOptions(options.lines);
+        const copied: CopiedFile[] = [];
+
+        for (const preview of previews) {
+            const redacted = this.clipboardService.redactContent(preview.content, preview.relativePath);
+            const rendered = this.lineOptionsService.renderContent(redacted.content, lineOptions, preview.language);
+            const formatted = this.clipboardService.formatFileContent({
+                path: preview.relativePath,
+                language: preview.language,
+                options: this.lineOptionsService.describe(lineOptions),
+                content: rendered.content
+            }, options.templateId);
+
+            try {
+                copied.push(await this.clipboardService.addCopiedFile({
+                    ...CopiedFileEntity.create(preview.relativePath, preview.relativePath, formatted.content, 'normal', options.templateId, undefined, {
+                        kind: 'content',
+                        lineOptions
+                    }),
+                    language: preview.language,
+                    redactions: redacted.redactions + formatted.redactions,
+                    minified: rendered.saved || undefined
+                }));
+            } catch (error) {
+                if (error instanceof ClipboardBudgetExceededError) {
+                    this.notificationService.showWarning(`${error.message} - stopped at ${path.basename(preview.relativePath)}`);
+                    break;
+                }
+                throw error;
+            }
+        }
+
+        return copied;
+    }
+}
@@ -0,0 +1,49 @@
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { PromptService } from '../../../domain/clipboard/services/PromptService';
+import { PromptTemplate } from '../../../domain/clipboard/entities/PromptTemplate';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+
+// Chooses one of the available prompts, undefined when cancelled
+export type PromptPicker = (prompts: PromptTemplate[]) => Promise<PromptTemplate | undefined>;
+
+export class CopyWithPromptUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly promptService: PromptService,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    /**
+     * Write the copied stack wrapped in a prompt; the stack itself is kept, so the next copy renders it plainly again.
+     * The prompt is taken from promptId when given, else chosen with the picker.
+     */
+    async execute(pick: PromptPicker, promptId?: string): Promise<void> {
+        try {
+            const files = this.clipboardService.getCopiedFiles();
+            if (files.length === 0) {
+                this.notificationService.showWarning('No files in the copied stack');
+                return;
+            }
+
+            const prompt = promptId ? this.promptService.getPrompt(promptId) : await pick(this.promptService.getPrompts());
+            if (!prompt) {
+                if (promptId) {
+                    this.notificationService.showWarning(`Unknown prompt "${promptId}"`);
+                }
+                return;
+            }
+
+            const text = this.promptService.wrap(prompt, this.clipboardService.buildClipboardContent(files), files);
+            const redactions = await this.clipboardService.copyEditedBundle(text);
+
+            this.notificationService.showInfo(
+                `Copied ${files.length} file${files.length !== 1 ? 's' : ''} with prompt "${prompt.label}"` +
+                this.clipboardService.formatRedactionNotice(redactions)
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to copy with prompt: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+}
@@ -0,0 +1,187 @@
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { TempStorageService } from '../../../domain/clipboard/services/TempStorageService';
+import { ClipboardSession } from '../../../domain/clipboard/entities/ClipboardSession';
+import { CopiedFile } from '../../../domain/clipboard/entities/CopiedFile';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { Logger } from '../../../utils/common/logger';
+
+// Stack changes come in bursts, e.g. one per file of a folder copy; the stack is stored once they settle
+const PERSIST_DELAY = 500;
+
+export class ManageClipboardSessionsUseCase {
+    // The stored stack is only overwritten once it had the chance to be restored
+    private restored = false;
+
+    private pendingStack?: CopiedFile[];
+    private persistTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly tempStorageService: TempStorageService,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    list(): ClipboardSession[] {
+        return this.tempStorageService.getSessions();
+    }
+
+    async saveAs(name: string): Promise<void> {
+        try {
+            const copiedFiles = this.clipboardService.getCopiedFiles();
+
+            if (copiedFiles.length === 0) {
+                this.notificationService.showWarning('No copied files to save as a session');
+                return;
+            }
+
+            const session = await this.tempStorageService.saveSession(name, copiedFiles);
+            this.notificationService.showInfo(
+                `Saved ${session.files.length} file${session.files.length !== 1 ? 's' : ''} as session "${name}"`
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to save session: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Replace the copied stack with the files of a session
+     */
+    async load(name: string): Promise<void> {
+        try {
+            const session = this.tempStorageService.getSession(name);
+            if (!session) {
+                this.notificationService.showWarning(`Session "${name}" not found`);
+                return;
+            }
+
+            await this.clipboardService.setCopiedFiles(this.tempStorageService.toCopiedFiles(session.files));
+
+            const copiedFiles = this.clipboardService.getCopiedFiles();
+            this.notificationService.showInfo(
+                `Loaded session "${name}" with ${copiedFiles.length} file${copiedFiles.length !== 1 ? 's' : ''}` +
+                this.clipboardService.describeRedactions(copiedFiles)
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to load session: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Add the files of a session to the copied stack; files already copied are replaced in place
+     */
+    async append(name: string): Promise<void> {
+        try {
+            const session = this.tempStorageService.getSession(name);
+            if (!session) {
+                this.notificationService.showWarning(`Session "${name}" not found`);
+                return;
+            }
+
+            const files = this.clipboardService.getCopiedFiles();
+            const before = files.length;
+
+            for (const file of this.tempStorageService.toCopiedFiles(session.files)) {
+                const index = files.findIndex(existing => existing.basePath === file.basePath);
+                if (index >= 0) {
+                    files[index] = file;
+                } else {
+                    files.push(file);
+                }
+            }
+
+            await this.clipboardService.setCopiedFiles(files);
+
+            const added = files.length - before;
+            this.notificationService.showInfo(
+                `Appended session "${name}": ${added} file${added !== 1 ? 's' : ''} added, ` +
+                `${files.length} in clipboard${this.clipboardService.describeRedactions(files)}`
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to append session: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    async rename(name: string, newName: string): Promise<void> {
+        try {
+            await this.tempStorageService.renameSession(name, newName);
+            this.notificationService.showInfo(`Renamed session "${name}" to "${newName}"`);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to rename session: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    async delete(name: string): Promise<void> {
+        try {
+            await this.tempStorageService.deleteSession(name);
+            this.notificationService.showInfo(`Deleted session "${name}"`);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to delete session: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Bring back the stack of the previous window after a reload, as long as the
+     * system clipboard still holds it; expired sessions are dropped first
+     */
+    async restoreActiveStack(): Promise<void> {
+        try {
+            this.tempStorageService.applyRetentionPolicy();
+
+            const tempFiles = this.tempStorageService.getTempFiles();
+            if (tempFiles.length > 0 && this.clipboardService.getCopiedFiles().length === 0) {
+                await this.clipboardService.restoreCopiedFiles(this.tempStorageService.toCopiedFiles(tempFiles));
+            }
+        } catch (error) {
+            Logger.warn('Failed to restore copied stack', error);
+        } finally {
+            this.restored = true;
+        }
+    }
+
+    /**
+     * Store the current stack so that it survives a window reload; the write is delayed until changes settle
+     */
+    persistActiveStack(): void {
+        if (!this.restored) {
+            return;
+        }
+
+        this.pendingStack = this.clipboardService.getCopiedFiles();
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+        }
+        this.persistTimer = setTimeout(() => this.flushActiveStack(), PERSIST_DELAY);
+    }
+
+    /**
+     * Write a stack change that is still waiting to be stored, e.g. when the extension is deactivated
+     */
+    async flushActiveStack(): Promise<void> {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+        }
+
+        const files = this.pendingStack;
+        if (!files) {
+            return;
+        }
+        this.pendingStack = undefined;
+
+        try {
+            await this.tempStorageService.saveToTempStorage(files);
+        } catch (error) {
+            Logger.warn('Failed to persist copied stack', error);
+        }
+    }
+}
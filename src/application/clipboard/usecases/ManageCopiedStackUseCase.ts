@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ClipboardService } from '../../../domain/clipboard/services/ClipboardService';
+import { IClipboardNotificationService } from '../../../infrastructure/clipboard/ui/ClipboardNotificationService';
+import { resolveWorkspaceUri } from '../../../infrastructure/clipboard/files/WorkspacePaths';
+import { CopyFileContentUseCase } from './CopyFileContentUseCase';
+import { CopyGitDiffUseCase } from './CopyGitDiffUseCase';
+
+export class ManageCopiedStackUseCase {
+    constructor(
+        private readonly clipboardService: ClipboardService,
+        private readonly copyFileContentUseCase: CopyFileContentUseCase,
+        private readonly copyGitDiffUseCase: CopyGitDiffUseCase,
+        private readonly notificationService: IClipboardNotificationService
+    ) { }
+
+    async remove(basePath: string): Promise<void> {
+        try {
+            const files = this.clipboardService.getCopiedFiles();
+            await this.clipboardService.setCopiedFiles(files.filter(file => file.basePath !== basePath));
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to remove from copied stack: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Move an entry up (negative offset) or down (positive offset) in the copied stack
+     */
+    async move(basePath: string, offset: number): Promise<void> {
+        try {
+            const files = this.clipboardService.getCopiedFiles();
+            const index = files.findIndex(file => file.basePath === basePath);
+            const target = index + offset;
+
+            if (index < 0 || target < 0 || target >= files.length) {
+                return;
+            }
+
+            const [moved] = files.splice(index, 1);
+            files.splice(target, 0, moved);
+            await this.clipboardService.setCopiedFiles(files);
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to reorder copied stack: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Copy an entry again from the current file on disk, keeping its position
+     */
+    async refresh(basePath: string): Promise<void> {
+        try {
+            const file = this.clipboardService.getCopiedFile(basePath);
+            if (file?.source?.kind === 'tree') {
+                this.notificationService.showWarning('The tree structure cannot be refreshed; copy the folder again');
+                return;
+            }
+
+            const uri = file ? resolveWorkspaceUri(file.basePath) : undefined;
+            if (!file || !uri) {
+                this.notificationService.showWarning(`Source file not found: ${basePath}`);
+                return;
+            }
+
+            const refreshed = file.source?.kind === 'diff'
+                ? await this.copyGitDiffUseCase.rebuild(file, uri)
+                : await this.copyFileContentUseCase.rebuild(file, uri);
+
+            if (!refreshed) {
+                this.notificationService.showWarning(`${path.basename(basePath)} no longer has changes`);
+                return;
+            }
+
+            const files = this.clipboardService.getCopiedFiles()
+                .map(existing => existing.basePath === basePath ? refreshed : existing);
+            await this.clipboardService.setCopiedFiles(files);
+
+            const stored = this.clipboardService.getCopiedFile(basePath);
+            this.notificationService.showInfo(
+                `Refreshed ${path.basename(basePath)}${this.clipboardService.describeRedactions(stored ? [stored] : [])}`
+            );
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to refresh from disk: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Open the source file of an entry at its first copied range
+     */
+    async open(basePath: string): Promise<void> {
+        try {
+            const file = this.clipboardService.getCopiedFile(basePath);
+            const uri = file ? resolveWorkspaceUri(file.basePath) : undefined;
+            if (!file || !uri) {
+                this.notificationService.showWarning(`Source file not found: ${basePath}`);
+                return;
+            }
+
+            const first = file.segments?.[0];
+            const selection = first ? new vscode.Range(first.startLine - 1, 0, first.startLine - 1, 0) : undefined;
+            await vscode.window.showTextDocument(uri, { selection, preview: true });
+        } catch (error) {
+            this.notificationService.showError(
+                `Failed to open file: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+}
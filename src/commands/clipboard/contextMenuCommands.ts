@@ -23,11 +23,10 @@
 // src/commands/contextMenuCommands.ts
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { state } from '../../models/models';
 import { Logger } from '../../utils/common/logger';
-import { TRACKING_SIGNATURE } from '../../utils/clipboard/clipboardUtils';
 import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
 import { INotificationService } from '../../application/folder/service/FolderApplicationService';
+import { ClipboardService } from '../../domain/clipboard/services/ClipboardService';
 
 export function registerContextMenuCommands(context: vscode.ExtensionContext) {
     // Get notification service from container
@@ -123,41 +122,47 @@ async function copyFileInline(item: any) {
             basePath = uri.fsPath;
         }
 
-        // Format content
-        const formattedContent = `${displayPath}:\n\`\`\`\n${content}\n\`\`\``;
+        // Format content through the configured output template
+        const clipboardService = ServiceContainer.getInstance().resolve<ClipboardService>('ClipboardService');
+        const formatted = clipboardService.formatFileContent({
+            path: displayPath,
+            language: document.languageId,
+            content
+        });
+
+        const copiedFile = {
+            displayPath,
+            basePath,
+            content: formatted.content,
+            format: 'normal' as const,
+            redactions: formatted.redactions
+        };
 
         // Check if file already exists in copied files list
-        const existingIndex = state.copiedFiles.findIndex(f => f.basePath === basePath);
+        const copiedFiles = clipboardService.getCopiedFiles();
+        const existingIndex = copiedFiles.findIndex(f => f.basePath === basePath);
 
         if (existingIndex !== -1) {
             // File already exists, update content
-            state.copiedFiles[existingIndex] = {
-                displayPath,
-                basePath,
-                content: formattedContent,
-                format: 'normal'
-            };
+            copiedFiles[existingIndex] = copiedFile;
         } else {
             // Add new file
-            state.copiedFiles.push({
-                displayPath,
-                basePath,
-                content: formattedContent,
-                format: 'normal'
-            });
+            copiedFiles.push(copiedFile);
         }
 
-        // Update clipboard
-        await updateClipboardWithSignature();
+        // Update clipboard (enforces the token budget)
+        await clipboardService.setCopiedFiles(copiedFiles);
 
         // Update status bar
-        updateStatusBar();
+        ServiceContainer.getInstance().updateClipboardStatusBar();
 
         // Show notification
-        const count = state.copiedFiles.length;
+        const count = copiedFiles.length;
         const fileName = path.basename(displayPath);
+        const stored = clipboardService.getCopiedFile(basePath);
         vscode.window.showInformationMessage(
-            `Added "${fileName}" (${count} file${count > 1 ? 's' : ''} total)`
+            `Added "${fileName}" (${count} file${count > 1 ? 's' : ''} total)` +
+            clipboardService.describeRedactions(stored ? [stored] : [])
         );
 
     } catch (error) {
@@ -564,27 +569,6 @@ async function handleRename(item: any, notificationService: INotificationService
 
 // ==================== HELPER FUNCTIONS ====================
 
-async function updateClipboardWithSignature() {
-    const combined = state.copiedFiles
-        .map(f => f.content)
-        .join('\n\n---\n\n');
-
-    const finalContent = combined + '\n' + TRACKING_SIGNATURE;
-    await vscode.env.clipboard.writeText(finalContent);
-}
-
-function updateStatusBar() {
-    if (state.statusBarItem) {
-        const count = state.copiedFiles.length;
-        if (count > 0) {
-            state.statusBarItem.text = `$(clippy) ${count} file${count > 1 ? 's' : ''} copied`;
-            state.statusBarItem.show();
-        } else {
-            state.statusBarItem.hide();
-        }
-    }
-}
-
 function getUriFromItem(item: any): vscode.Uri | null {
     try {
         // If item has resourceUri (from TreeItem)
@@ -0,0 +1,284 @@
+/**
+ * FILE: src/commands/clipboard/copiedStackCommands.ts
+ *
+ * COPIED STACK COMMANDS - Inspect and trim the files currently copied to the clipboard
+ *
+ * - showCopiedStack: Quick-pick of the stack in clipboard order with reorder, refresh and remove buttons (status bar click)
+ * - showCopiedStackCosts: Quick-pick of per-file token, line and byte costs
+ * - removeCopiedFile / moveCopiedFileUp / moveCopiedFileDown / refreshCopiedFile / openCopiedFile: Copied Stack view actions
+ * - openCopiedStackDocument / copyBundleDocument / saveBundle / importBundle: Edit the stack as a .bundle.md document
+ * - copyWithPrompt: Copy the stack wrapped in a prompt from the prompt library
+ */
+
+import * as vscode from 'vscode';
+import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
+import { ClipboardService } from '../../domain/clipboard/services/ClipboardService';
+import { BudgetService } from '../../domain/clipboard/services/BudgetService';
+import { ClipboardApplicationService } from '../../application/clipboard/service/ClipboardApplicationService';
+import { CopiedStackItem } from '../../providers/CopiedStackProvider';
+import { CommandRegistry } from '../../utils/common/CommandRegistry';
+import { Logger } from '../../utils/common/logger';
+import { TokenUtils } from '../../shared/utils/TokenUtils';
+import { isBundleDocument } from '../../application/clipboard/usecases/BundleDocumentUseCase';
+import { getPromptIdFromArgs, pickPrompt } from '../../utils/clipboard/promptPicker';
+
+export function registerCopiedStackCommands(context: vscode.ExtensionContext): void {
+    const container = ServiceContainer.getInstance();
+    const clipboardService = container.resolve<ClipboardService>('ClipboardService');
+    const budgetService = container.resolve<BudgetService>('BudgetService');
+    const clipboardApplicationService = container.resolve<ClipboardApplicationService>('ClipboardApplicationService');
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.showCopiedStackCosts',
+        () => handleShowCopiedStackCosts(container, clipboardService, budgetService)
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.showCopiedStack',
+        () => handleShowCopiedStack(clipboardService, budgetService, clipboardApplicationService)
+    );
+
+    // Copied Stack view actions receive the clicked item
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.removeCopiedFile',
+        async (item?: CopiedStackItem) => {
+            if (item?.file) {
+                await clipboardApplicationService.removeCopiedFile(item.file.basePath);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.moveCopiedFileUp',
+        async (item?: CopiedStackItem) => {
+            if (item?.file) {
+                await clipboardApplicationService.moveCopiedFile(item.file.basePath, -1);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.moveCopiedFileDown',
+        async (item?: CopiedStackItem) => {
+            if (item?.file) {
+                await clipboardApplicationService.moveCopiedFile(item.file.basePath, 1);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.refreshCopiedFile',
+        async (item?: CopiedStackItem) => {
+            if (item?.file) {
+                await clipboardApplicationService.refreshCopiedFile(item.file.basePath);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.openCopiedFile',
+        async (item?: CopiedStackItem) => {
+            if (item?.file) {
+                await clipboardApplicationService.openCopiedFile(item.file.basePath);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.openCopiedStackDocument',
+        () => clipboardApplicationService.openCopiedStackDocument()
+    );
+
+    // An optional { "prompt": "<id>" } argument skips the quick-pick
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyWithPrompt',
+        (args?: any) => clipboardApplicationService.copyWithPrompt(pickPrompt, getPromptIdFromArgs(args))
+    );
+
+    // Bundle commands act on the bundle open in the editor; editor title buttons pass its uri
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyBundleDocument',
+        async (uri?: vscode.Uri) => {
+            const document = findBundleDocument(uri);
+            if (!document) {
+                vscode.window.showWarningMessage('Open a .bundle.md document first');
+                return;
+            }
+            await clipboardApplicationService.copyBundleDocument(document);
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.saveBundle',
+        async (uri?: vscode.Uri) => {
+            await clipboardApplicationService.saveBundle(findBundleDocument(uri));
+        }
+    );
+
+    // Explorer passes the clicked file; otherwise the active bundle, or one chosen from disk
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.importBundle',
+        async (uri?: vscode.Uri) => {
+            const target = uri instanceof vscode.Uri ? uri : findBundleDocument()?.uri ?? await pickBundleFile();
+            if (target) {
+                await clipboardApplicationService.importBundle(target);
+            }
+        }
+    );
+}
+
+function findBundleDocument(uri?: vscode.Uri): vscode.TextDocument | undefined {
+    const document = uri instanceof vscode.Uri
+        ? vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString())
+        : vscode.window.activeTextEditor?.document;
+    return document && isBundleDocument(document) ? document : undefined;
+}
+
+async function pickBundleFile(): Promise<vscode.Uri | undefined> {
+    const [uri] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        filters: { 'Markdown Bundle': ['md'] },
+        openLabel: 'Import Bundle'
+    }) || [];
+    return uri;
+}
+
+interface CopiedStackPickItem extends vscode.QuickPickItem {
+    basePath: string;
+}
+
+const MOVE_UP_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('arrow-up'), tooltip: 'Move Up' };
+const MOVE_DOWN_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('arrow-down'), tooltip: 'Move Down' };
+const REFRESH_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('refresh'), tooltip: 'Refresh from Disk' };
+const REMOVE_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Remove' };
+
+/**
+ * Stack in clipboard order; accepting an entry opens its source, item buttons edit the stack in place
+ */
+async function handleShowCopiedStack(
+    clipboardService: ClipboardService,
+    budgetService: BudgetService,
+    clipboardApplicationService: ClipboardApplicationService
+): Promise<void> {
+    if (clipboardService.getCopiedFiles().length === 0) {
+        vscode.window.showInformationMessage('No files in the copied stack');
+        return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<CopiedStackPickItem>();
+    quickPick.placeholder = 'Select a file to open its source';
+    quickPick.matchOnDescription = true;
+
+    const update = (activeBasePath?: string) => {
+        const status = clipboardService.getBudgetStatus();
+        const limitText = status.limit > 0 ? ` / ${TokenUtils.formatCount(status.limit)} budget` : '';
+
+        quickPick.title = `Copied Stack: ${budgetService.formatCost(status.total)}${limitText}`;
+        quickPick.items = status.files.map(({ file, cost }) => ({
+            label: file.displayPath,
+            description: CopiedStackItem.describe(file, cost),
+            basePath: file.basePath,
+            buttons: [MOVE_UP_BUTTON, MOVE_DOWN_BUTTON, REFRESH_BUTTON, REMOVE_BUTTON]
+        }));
+
+        // Keep the edited entry active so that it can be moved repeatedly
+        const active = quickPick.items.find(i => i.basePath === activeBasePath);
+        if (active) {
+            quickPick.activeItems = [active];
+        }
+
+        if (status.files.length === 0) {
+            quickPick.hide();
+        }
+    };
+
+    quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+        try {
+            if (button === MOVE_UP_BUTTON) {
+                await clipboardApplicationService.moveCopiedFile(item.basePath, -1);
+            } else if (button === MOVE_DOWN_BUTTON) {
+                await clipboardApplicationService.moveCopiedFile(item.basePath, 1);
+            } else if (button === REFRESH_BUTTON) {
+                await clipboardApplicationService.refreshCopiedFile(item.basePath);
+            } else if (button === REMOVE_BUTTON) {
+                await clipboardApplicationService.removeCopiedFile(item.basePath);
+            }
+            update(item.basePath);
+        } catch (error) {
+            Logger.error('Failed to update copied stack', error);
+        }
+    });
+
+    quickPick.onDidAccept(async () => {
+        const [selected] = quickPick.selectedItems;
+        quickPick.hide();
+        if (selected) {
+            await clipboardApplicationService.openCopiedFile(selected.basePath);
+        }
+    });
+
+    quickPick.onDidHide(() => quickPick.dispose());
+
+    update();
+    quickPick.show();
+}
+
+async function handleShowCopiedStackCosts(
+    container: ServiceContainer,
+    clipboardService: ClipboardService,
+    budgetService: BudgetService
+): Promise<void> {
+    try {
+        const status = clipboardService.getBudgetStatus();
+
+        if (status.files.length === 0) {
+            vscode.window.showInformationMessage('No files in the copied stack');
+            return;
+        }
+
+        const items = budgetService.getFilesByCost(status).map(({ file, cost }) => ({
+            label: file.displayPath,
+            description: budgetService.formatCost(cost),
+            basePath: file.basePath
+        }));
+
+        const limitText = status.limit > 0 ? ` / ${TokenUtils.formatCount(status.limit)} budget` : '';
+        const toRemove = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            title: `Copied Stack: ${budgetService.formatCost(status.total)}${limitText}`,
+            placeHolder: 'Select files to remove from the copied stack'
+        });
+
+        if (!toRemove || toRemove.length === 0) {
+            return;
+        }
+
+        const removed = new Set(toRemove.map(item => item.basePath));
+        await clipboardService.setCopiedFiles(
+            clipboardService.getCopiedFiles().filter(file => !removed.has(file.basePath))
+        );
+        container.updateClipboardStatusBar();
+
+        vscode.window.showInformationMessage(
+            `Removed ${removed.size} file${removed.size > 1 ? 's' : ''} from the copied stack`
+        );
+    } catch (error) {
+        Logger.error('Failed to show copied stack costs', error);
+        vscode.window.showErrorMessage(
+            `Failed to show copied stack: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+    }
+}
@@ -1,201 +1,271 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { state, CopiedFile, ErrorInfo } from '../../models/models';
+import { state } from '../../models/models';
 import { Logger } from '../../utils/common/logger';
 import { CommandRegistry } from '../../utils/common/CommandRegistry';
-
-// Signature for tracking extension content
-const TRACKING_SIGNATURE = '<-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=->';
+import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
+import { ClipboardApplicationService } from '../../application/clipboard/service/ClipboardApplicationService';
+import { TemplateService } from '../../domain/clipboard/services/TemplateService';
+import { DiagnosticService } from '../../domain/clipboard/services/DiagnosticService';
+import { LineOptionsService } from '../../domain/clipboard/services/LineOptionsService';
+import { getTemplateIdFromArgs, pickOutputTemplate } from '../../utils/clipboard/templatePicker';
+import { getDiagnosticOptionsFromArgs, pickDiagnosticOptions } from '../../utils/clipboard/diagnosticsPicker';
+import { getLineOptionsFromArgs, pickLineOptions } from '../../utils/clipboard/lineOptionsPicker';
+import { pickSymbols } from '../../utils/clipboard/symbolPicker';
+import { pickDependencies } from '../../utils/clipboard/dependencyPicker';
+import { getGitDiffOptionsFromArgs, pickGitDiffScope, pickGitRef } from '../../utils/clipboard/gitDiffPicker';
+import { getFileFilterFromArgs, pickFileFilter } from '../../utils/clipboard/fileFilterPicker';
+import { IExplorerCopySettings } from '../../infrastructure/clipboard/files/FileCollector';
 
 export function registerCoreCommands(context: vscode.ExtensionContext) {
-    // Copy commands
+    const container = ServiceContainer.getInstance();
+    const clipboardApplicationService = container.resolve<ClipboardApplicationService>('ClipboardApplicationService');
+    const templateService = container.resolve<TemplateService>('TemplateService');
+    const diagnosticService = container.resolve<DiagnosticService>('DiagnosticService');
+    const lineOptionsService = container.resolve<LineOptionsService>('LineOptionsService');
+    const explorerCopySettings = container.resolve<IExplorerCopySettings>('IExplorerCopySettings');
+
+    // Copy commands - an optional { "template": "<id>" } argument overrides the configured template,
+    // { "lineNumbers", "contextLines" } override the line options
+    // and { "diagnostics": { ... } } overrides the configured diagnostic options
     CommandRegistry.registerCommand(
         context,
         'copy-path-with-code.copyPathWithContent',
-        async () => {
-            await copyPathWithContent();
+        async (args?: any) => {
+            await clipboardApplicationService.copyPathWithContent({
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args)
+            });
         }
     );
 
     CommandRegistry.registerCommand(
         context,
         'copy-path-with-code.copyPathWithContentAndError',
-        async () => {
-            await copyPathWithContentAndError();
+        async (args?: any) => {
+            await clipboardApplicationService.copyPathWithContentAndError({
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args),
+                diagnostics: getDiagnosticOptionsFromArgs(args)
+            });
         }
     );
 
-    // Clear system clipboard (Ctrl+Alt+Z)
+    // Copy with diagnostics chosen from a quick-pick
     CommandRegistry.registerCommand(
         context,
-        'copy-path-with-code.clearClipboard',
-        clearClipboard
+        'copy-path-with-code.copyPathWithDiagnostics',
+        async (args?: any) => {
+            const diagnostics = await pickDiagnosticOptions(diagnosticService);
+            if (diagnostics) {
+                await clipboardApplicationService.copyPathWithContentAndError({
+                    templateId: getTemplateIdFromArgs(args),
+                    lines: getLineOptionsFromArgs(args),
+                    diagnostics
+                });
+            }
+        }
     );
 
-    // Refresh command remains the same
+    // Copy with line numbers and context lines chosen from a quick-pick
     CommandRegistry.registerCommand(
         context,
-        'copy-path-with-code.refreshClipboardView',
-        () => {
-            vscode.commands.executeCommand('setContext', 'copyPathWithCode.hasClipboardFiles',
-                state.clipboardFiles.length > 0);
+        'copy-path-with-code.copyPathWithOptions',
+        async (args?: any) => {
+            const choice = await pickLineOptions(lineOptionsService);
+            if (!choice) {
+                return;
+            }
+
+            const options = { templateId: getTemplateIdFromArgs(args), lines: choice.lines };
+            if (choice.includeErrors) {
+                await clipboardApplicationService.copyPathWithContentAndError(options);
+            } else {
+                await clipboardApplicationService.copyPathWithContent(options);
+            }
         }
     );
-}
 
-async function copyPathWithContent() {
-    try {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-            Logger.warn('No active text editor found');
-            vscode.window.showWarningMessage('No active text editor found');
-            return;
+    // Symbol copies accept the same { "template", "lineNumbers", ... } arguments
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copySymbolAtCursor',
+        async (args?: any) => {
+            await clipboardApplicationService.copySymbolAtCursor({
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args)
+            });
         }
+    );
 
-        const document = editor.document;
-        const filePath = document.uri.fsPath;
-
-        let displayPath = filePath;
-        let basePath = filePath;
-        if (vscode.workspace.workspaceFolders) {
-            const ws = vscode.workspace.workspaceFolders[0];
-            displayPath = path.relative(ws.uri.fsPath, filePath);
-            basePath = displayPath;
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyEnclosingSymbol',
+        async (args?: any) => {
+            await clipboardApplicationService.copyEnclosingSymbol({
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args)
+            });
         }
+    );
 
-        let content: string;
-        const sel = editor.selection;
-        if (!sel.isEmpty) {
-            content = document.getText(sel);
-            const startLine = sel.start.line + 1;
-            const endLine = sel.end.line + 1;
-            displayPath = `${displayPath}:${startLine}-${endLine}`;
-        } else {
-            content = document.getText();
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copySymbolsFromOutline',
+        async (args?: any) => {
+            await clipboardApplicationService.copySymbolsFromOutline(pickSymbols, {
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args)
+            });
         }
+    );
 
-        // Format content for normal copy
-        const formattedContent = `${displayPath}:\n\`\`\`\n${content}\n\`\`\``;
+    // Copy a TS/JS file with its local imports; accepts an Explorer uri or copy arguments
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyWithDependencies',
+        async (uriOrArgs?: any) => {
+            const uri = uriOrArgs instanceof vscode.Uri ? uriOrArgs : undefined;
+            const args = uri ? undefined : uriOrArgs;
+            await clipboardApplicationService.copyWithDependencies(uri, pickDependencies, {
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args),
+                maxDepth: typeof args?.maxDepth === 'number' ? args.maxDepth : undefined
+            });
+        }
+    );
 
-        // Remove any existing file with same basePath (regardless of format)
-        const beforeCount = state.copiedFiles.length;
-        state.copiedFiles = state.copiedFiles.filter(f => f.basePath !== basePath);
-        const afterCount = state.copiedFiles.length;
+    // Explorer commands receive the clicked uri and the whole multi-selection;
+    // { "include", "exclude" } override the globs used for selected directories
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyExplorerSelection',
+        async (uriOrArgs?: any, selectedUris?: vscode.Uri[]) => {
+            const args = uriOrArgs instanceof vscode.Uri ? undefined : uriOrArgs;
+            await clipboardApplicationService.copyExplorerSelection(getExplorerUris(uriOrArgs, selectedUris), {
+                templateId: getTemplateIdFromArgs(args),
+                lines: getLineOptionsFromArgs(args),
+                filter: getFileFilterFromArgs(args)
+            });
+        }
+    );
 
-        const copiedFile: CopiedFile = {
-            displayPath,
-            basePath,
-            content: formattedContent,
-            format: 'normal'
-        };
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyExplorerSelectionWithFilters',
+        async (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+            const uris = getExplorerUris(uri, selectedUris);
+            const filter = await pickFileFilter(explorerCopySettings);
+            if (filter) {
+                await clipboardApplicationService.copyExplorerSelection(uris, { filter });
+            }
+        }
+    );
 
-        // Save to system clipboard
-        state.copiedFiles.push(copiedFile);
-        await updateClipboardWithSignature();
+    // Git diff commands - { "staged": true } compares the index, { "ref": "main" } compares against a revision
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyFileDiff',
+        async (uriOrArgs?: any, selectedUris?: vscode.Uri[]) => {
+            const uris = uriOrArgs instanceof vscode.Uri ? getExplorerUris(uriOrArgs, selectedUris) : undefined;
+            const args = uris ? undefined : uriOrArgs;
+            await clipboardApplicationService.copyFileDiff(uris, {
+                ...getGitDiffOptionsFromArgs(args),
+                templateId: getTemplateIdFromArgs(args)
+            });
+        }
+    );
 
-        const count = state.copiedFiles.length;
-        vscode.window.showInformationMessage(`Copied ${count} file${count > 1 ? 's' : ''} to clipboard`);
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyStagedFileDiff',
+        async (args?: any) => {
+            await clipboardApplicationService.copyFileDiff(undefined, {
+                ...getGitDiffOptionsFromArgs(args),
+                staged: true,
+                templateId: getTemplateIdFromArgs(args)
+            });
+        }
+    );
 
-        updateStatusBar();
-    } catch (err: any) {
-        const msg = err.message || 'Unknown error';
-        Logger.error('Failed to copy content', err);
-        vscode.window.showErrorMessage(`Failed to copy: ${msg}`);
-    }
-}
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyRepositoryDiff',
+        async (args?: any) => {
+            await clipboardApplicationService.copyRepositoryDiff({
+                ...getGitDiffOptionsFromArgs(args),
+                templateId: getTemplateIdFromArgs(args)
+            });
+        }
+    );
 
-async function copyPathWithContentAndError() {
-    try {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-            Logger.warn('No active text editor found for error copy');
-            vscode.window.showWarningMessage('No active text editor found');
-            return;
-        }
-
-        const document = editor.document;
-        const selection = editor.selection;
-        const filePath = document.uri.fsPath;
-
-        let displayPath = filePath;
-        let basePath = filePath;
-        if (vscode.workspace.workspaceFolders) {
-            const ws = vscode.workspace.workspaceFolders[0];
-            displayPath = path.relative(ws.uri.fsPath, filePath);
-            basePath = displayPath;
-        }
-
-        let content: string;
-        if (!selection.isEmpty) {
-            content = document.getText(selection);
-            const startLine = selection.start.line + 1;
-            const endLine = selection.end.line + 1;
-            displayPath = `${displayPath}:${startLine}-${endLine}`;
-        } else {
-            content = document.getText();
-        }
-
-        // Get errors and warnings from Problems panel for this document
-        const diagnostics = vscode.languages.getDiagnostics(document.uri);
-        const errors: ErrorInfo[] = [];
-        let errorCounter = 1;
-
-        diagnostics.forEach(diagnostic => {
-            if (diagnostic.severity <= 1) {
-                if (selection.isEmpty || diagnostic.range.intersection(selection)) {
-                    const line = diagnostic.range.start.line;
-                    errors.push({
-                        message: diagnostic.message,
-                        line: line + 1,
-                        content: document.lineAt(line).text.trim(),
-                        severity: diagnostic.severity,
-                        index: errorCounter++
-                    });
-                }
+    // Diff against a branch, tag or commit chosen from a quick-pick
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyDiffAgainstRef',
+        async (args?: any) => {
+            const ref = await clipboardApplicationService.chooseGitRef(pickGitRef);
+            if (!ref) {
+                return;
             }
-        });
-
-
-        let formattedContent: string;
-        if (errors.length > 0) {
-            const errorString = errors.map(err =>
-                `${err.index}. ${err.message} | ${err.line} | ${err.content}`
-            ).join('\n');
 
-            formattedContent = `${displayPath}:\n\`\`\`\n${content}\n\n${errorString}\n\`\`\``;
-        } else {
-            formattedContent = `${displayPath}:\n\`\`\`\n${content}\n\`\`\``;
+            const scope = await pickGitDiffScope();
+            const options = { ...getGitDiffOptionsFromArgs(args), ref, templateId: getTemplateIdFromArgs(args) };
+            if (scope === 'file') {
+                await clipboardApplicationService.copyFileDiff(undefined, options);
+            } else if (scope === 'repository') {
+                await clipboardApplicationService.copyRepositoryDiff(options);
+            }
         }
+    );
 
-        // Remove any existing file with same basePath
-        const beforeCount = state.copiedFiles.length;
-        state.copiedFiles = state.copiedFiles.filter(f => f.basePath !== basePath);
-        const afterCount = state.copiedFiles.length;
-
-        const copiedFile: CopiedFile = {
-            displayPath,
-            basePath,
-            content: formattedContent,
-            format: 'error'
-        };
+    // Permalinks accept an editor or Explorer uri, or a tree item of the folder view
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyPermalink',
+        async (uriOrItem?: any) => {
+            await clipboardApplicationService.copyPermalink(getResourceUri(uriOrItem));
+        }
+    );
 
-        // Save to system clipboard
-        state.copiedFiles.push(copiedFile);
-        await updateClipboardWithSignature();
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyPermalinkAsMarkdown',
+        async (uriOrItem?: any) => {
+            await clipboardApplicationService.copyPermalink(getResourceUri(uriOrItem), { markdown: true });
+        }
+    );
 
-        const count = state.copiedFiles.length;
-        const errorCount = errors.length;
+    // Copy with a template chosen from a quick-pick
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyPathWithContentAs',
+        async (args?: any) => {
+            const templateId = await pickOutputTemplate(templateService);
+            if (templateId) {
+                await clipboardApplicationService.copyPathWithContent({
+                    templateId,
+                    lines: getLineOptionsFromArgs(args)
+                });
+            }
+        }
+    );
 
-        vscode.window.showInformationMessage(
-            `Copied ${count} file${count > 1 ? 's' : ''} with ${errorCount} error${errorCount !== 1 ? 's' : ''} to clipboard`
-        );
+    // Clear system clipboard (Ctrl+Alt+Z)
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.clearClipboard',
+        clearClipboard
+    );
 
-        updateStatusBar();
-    } catch (err: any) {
-        const msg = err.message || 'Unknown error';
-        Logger.error('Failed to copy with error info', err);
-        vscode.window.showErrorMessage(`Failed to copy with error info: ${msg}`);
-    }
+    // Refresh command remains the same
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.refreshClipboardView',
+        () => {
+            vscode.commands.executeCommand('setContext', 'copyPathWithCode.hasClipboardFiles',
+                state.clipboardFiles.length > 0);
+        }
+    );
 }
 
 // Clear system clipboard (Ctrl+Alt+Z)
@@ -218,8 +288,8 @@ async function clearClipboard() {
         // Refresh the clipboard view
         vscode.commands.executeCommand('copy-path-with-code.refreshClipboardView');
 
-        // Force update status bar to reflect cleared state
-        updateStatusBar();
+        // Force update status bar and copied stack view to reflect cleared state
+        ServiceContainer.getInstance().updateClipboardStatusBar();
     } catch (err: any) {
         const msg = err.message || 'Unknown error';
         Logger.error('Failed to clear clipboard', err);
@@ -227,26 +297,22 @@ async function clearClipboard() {
     }
 }
 
-async function updateClipboardWithSignature() {
-    const combined = state.copiedFiles
-        .map(f => f.content)
-        .join('\n\n---\n\n');
+// Explorer passes the clicked uri and the multi-selection; the palette passes neither
+function getExplorerUris(uri?: unknown, selectedUris?: vscode.Uri[]): vscode.Uri[] {
+    if (selectedUris && selectedUris.length > 0) {
+        return selectedUris;
+    }
+    if (uri instanceof vscode.Uri) {
+        return [uri];
+    }
 
-    const finalContent = combined + '\n' + TRACKING_SIGNATURE;
-    await vscode.env.clipboard.writeText(finalContent);
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    return activeUri ? [activeUri] : [];
 }
 
-function updateStatusBar() {
-    if (state.statusBarItem) {
-        const copiedCount = state.copiedFiles.length;
-
-        // Only show statusbar if there are actually files
-        if (copiedCount > 0) {
-            state.statusBarItem.text = `$(clippy) ${copiedCount} file${copiedCount > 1 ? 's' : ''}`;
-            state.statusBarItem.show();
-        } else {
-            // Hide statusbar when no files exist
-            state.statusBarItem.hide();
-        }
+function getResourceUri(uriOrItem?: any): vscode.Uri | undefined {
+    if (uriOrItem instanceof vscode.Uri) {
+        return uriOrItem;
     }
-}
\ No newline at end of file
+    return uriOrItem?.resourceUri instanceof vscode.Uri ? uriOrItem.resourceUri : undefined;
+}
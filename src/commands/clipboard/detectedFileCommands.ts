@@ -0,0 +1,84 @@
+/**
+ * FILE: src/commands/clipboard/detectedFileCommands.ts
+ *
+ * DETECTED FILE COMMANDS - Write files detected on the clipboard back to the workspace
+ *
+ * - openClipboardFile: Read-only preview of a detected file (Clipboard Files view click)
+ * - compareClipboardFile: Diff a detected file against the workspace file it belongs to
+ * - applyClipboardFile: Diff one detected file against the workspace and apply it (Clipboard Files view item);
+ *   for unified diffs, pick the hunks to apply first
+ * - applyAllClipboardFiles: Accept/skip checklist of all detected files, applied as one undoable edit
+ *
+ * Blocks under a "file.ts:10-20" header replace only those lines; when they cannot be placed safely a conflict view opens instead.
+ */
+
+import * as vscode from 'vscode';
+import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
+import { ClipboardService } from '../../domain/clipboard/services/ClipboardService';
+import { DetectedFile } from '../../domain/clipboard/entities/DetectedFile';
+import { ClipboardApplicationService } from '../../application/clipboard/service/ClipboardApplicationService';
+import { ClipboardFileItem } from '../../providers/ClipboardProvider';
+import { CommandRegistry } from '../../utils/common/CommandRegistry';
+import { pickHunksToApply, pickTargetsToApply } from '../../utils/clipboard/applyPicker';
+
+export function registerDetectedFileCommands(context: vscode.ExtensionContext): void {
+    const container = ServiceContainer.getInstance();
+    const clipboardService = container.resolve<ClipboardService>('ClipboardService');
+    const clipboardApplicationService = container.resolve<ClipboardApplicationService>('ClipboardApplicationService');
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.openClipboardFile',
+        async (item?: ClipboardFileItem) => {
+            const file = item?.file ?? await pickDetectedFile(clipboardService.getDetectedFiles(), 'Open Clipboard File');
+            if (file) {
+                await clipboardApplicationService.openDetectedFile(file);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.compareClipboardFile',
+        async (item?: ClipboardFileItem) => {
+            const file = item?.file ?? await pickDetectedFile(clipboardService.getDetectedFiles(), 'Compare with Workspace File');
+            if (file) {
+                await clipboardApplicationService.compareDetectedFile(file);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.applyClipboardFile',
+        async (item?: ClipboardFileItem) => {
+            // From the Command Palette there is no clicked item, so ask for one
+            const file = item?.file ?? await pickDetectedFile(clipboardService.getDetectedFiles(), 'Apply to Workspace');
+            if (file) {
+                await clipboardApplicationService.applyDetectedFile(file, pickHunksToApply);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.applyAllClipboardFiles',
+        async () => {
+            await clipboardApplicationService.applyDetectedFiles(clipboardService.getDetectedFiles(), pickTargetsToApply);
+        }
+    );
+}
+
+async function pickDetectedFile(files: DetectedFile[], title: string): Promise<DetectedFile | undefined> {
+    if (files.length === 0) {
+        vscode.window.showInformationMessage('No files detected in clipboard');
+        return undefined;
+    }
+
+    const choice = await vscode.window.showQuickPick(
+        files.map(file => ({ label: file.filePath, file })),
+        { title, placeHolder: 'Select a clipboard file' }
+    );
+
+    return choice?.file;
+}
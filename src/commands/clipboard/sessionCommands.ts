@@ -0,0 +1,136 @@
+/**
+ * FILE: src/commands/clipboard/sessionCommands.ts
+ *
+ * SESSION COMMANDS - Save the copied stack under a name and bring it back later
+ *
+ * - saveSessionAs: Save the copied stack as a named session of the workspace
+ * - loadSession: Replace the copied stack with a session
+ * - appendSession: Add the files of a session to the copied stack
+ * - renameSession / deleteSession: Manage saved sessions
+ */
+
+import * as vscode from 'vscode';
+import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
+import { ClipboardApplicationService } from '../../application/clipboard/service/ClipboardApplicationService';
+import { CommandRegistry } from '../../utils/common/CommandRegistry';
+import { Logger } from '../../utils/common/logger';
+import { getSessionNameFromArgs, pickSession, promptSessionName } from '../../utils/clipboard/sessionPicker';
+
+export function registerSessionCommands(context: vscode.ExtensionContext): void {
+    const container = ServiceContainer.getInstance();
+    const clipboardApplicationService = container.resolve<ClipboardApplicationService>('ClipboardApplicationService');
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.saveSessionAs',
+        (args?: any) => handleSaveSessionAs(clipboardApplicationService, getSessionNameFromArgs(args))
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.loadSession',
+        async (args?: any) => {
+            const name = getSessionNameFromArgs(args)
+                ?? (await pickSession(clipboardApplicationService.getSessions(), 'Load Session'))?.name;
+            if (name) {
+                await clipboardApplicationService.loadSession(name);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.appendSession',
+        async (args?: any) => {
+            const name = getSessionNameFromArgs(args)
+                ?? (await pickSession(clipboardApplicationService.getSessions(), 'Append Session'))?.name;
+            if (name) {
+                await clipboardApplicationService.appendSession(name);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.renameSession',
+        () => handleRenameSession(clipboardApplicationService)
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.deleteSession',
+        () => handleDeleteSession(clipboardApplicationService)
+    );
+}
+
+async function handleSaveSessionAs(
+    clipboardApplicationService: ClipboardApplicationService,
+    name?: string
+): Promise<void> {
+    try {
+        const sessionName = name ?? await promptSessionName('Save Copied Stack As');
+        if (!sessionName) {
+            return;
+        }
+
+        // Saving under an existing name replaces that session
+        if (clipboardApplicationService.getSessions().some(session => session.name === sessionName)) {
+            const confirmation = await vscode.window.showWarningMessage(
+                `A session named "${sessionName}" already exists. Replace it with the copied stack?`,
+                { modal: true },
+                'Replace'
+            );
+            if (confirmation !== 'Replace') {
+                return;
+            }
+        }
+
+        await clipboardApplicationService.saveSession(sessionName);
+    } catch (error) {
+        Logger.error('Failed to save session', error);
+        vscode.window.showErrorMessage('Failed to save session');
+    }
+}
+
+async function handleRenameSession(clipboardApplicationService: ClipboardApplicationService): Promise<void> {
+    try {
+        const sessions = clipboardApplicationService.getSessions();
+        const session = await pickSession(sessions, 'Rename Session');
+        if (!session) {
+            return;
+        }
+
+        const taken = sessions.map(s => s.name).filter(n => n !== session.name);
+        const newName = await promptSessionName('Rename Session', session.name, taken);
+        if (!newName || newName === session.name) {
+            return;
+        }
+
+        await clipboardApplicationService.renameSession(session.name, newName);
+    } catch (error) {
+        Logger.error('Failed to rename session', error);
+        vscode.window.showErrorMessage('Failed to rename session');
+    }
+}
+
+async function handleDeleteSession(clipboardApplicationService: ClipboardApplicationService): Promise<void> {
+    try {
+        const session = await pickSession(clipboardApplicationService.getSessions(), 'Delete Session');
+        if (!session) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `Are you sure you want to delete the session "${session.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+
+        if (confirmation === 'Delete') {
+            await clipboardApplicationService.deleteSession(session.name);
+        }
+    } catch (error) {
+        Logger.error('Failed to delete session', error);
+        vscode.window.showErrorMessage('Failed to delete session');
+    }
+}
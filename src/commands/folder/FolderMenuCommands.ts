@@ -6,16 +6,33 @@
  * Handles folder context menu and related operations:
  * - Show folder menu
  * - Copy folder contents
+ * - Copy folder git diff
  * - Folder statistics
  */
 
 import * as vscode from 'vscode';
 import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
 import { FolderApplicationService } from '../../application/folder/service/FolderApplicationService';
+import { ClipboardApplicationService } from '../../application/clipboard/service/ClipboardApplicationService';
 import { FolderProvider } from '../../providers/FolderProvider';
 import { INotificationService } from '../../application/folder/service/FolderApplicationService';
 import { FolderService } from '../../domain/folder/services/FolderService';
-import { state } from '../../models/models';
+import { ClipboardService } from '../../domain/clipboard/services/ClipboardService';
+import { TemplateService } from '../../domain/clipboard/services/TemplateService';
+import { LineOptionsService } from '../../domain/clipboard/services/LineOptionsService';
+import { FilePolicyService } from '../../domain/clipboard/services/FilePolicyService';
+import { FilePolicyOutcome } from '../../domain/clipboard/entities/FilePolicy';
+import { CopyFileContentUseCase } from '../../application/clipboard/usecases/CopyFileContentUseCase';
+import { CopyTreeStructureUseCase, TreeStructureTarget } from '../../application/clipboard/usecases/CopyTreeStructureUseCase';
+import { TreeStructureService } from '../../domain/clipboard/services/TreeStructureService';
+import { FileNode } from '../../domain/folder/entities/FileNode';
+import { FOLDER_CONSTANTS } from '../../shared/constants/FolderConstants';
+import { LineOptions } from '../../domain/clipboard/entities/LineOptions';
+import { CopiedFile } from '../../domain/clipboard/entities/CopiedFile';
+import { getTemplateIdFromArgs, pickOutputTemplate } from '../../utils/clipboard/templatePicker';
+import { getLineOptionsFromArgs, pickLineOptions } from '../../utils/clipboard/lineOptionsPicker';
+import { getGitDiffOptionsFromArgs } from '../../utils/clipboard/gitDiffPicker';
+import { getTreeHeaderFromArgs, getTreeStructureOptionsFromArgs, pickTreeStructureOptions } from '../../utils/clipboard/treeStructurePicker';
 import { CommandRegistry } from '../../utils/common/CommandRegistry';
 import { Logger } from '../../utils/common/logger';
 
@@ -25,17 +42,81 @@ export function registerFolderMenuCommands(context: vscode.ExtensionContext): vo
     const treeDataProvider = container.resolve<FolderProvider>('FolderProvider');
     const notificationService = container.resolve<INotificationService>('INotificationService');
     const folderService = container.resolve<FolderService>('FolderService');
+    const clipboardService = container.resolve<ClipboardService>('ClipboardService');
+    const templateService = container.resolve<TemplateService>('TemplateService');
+    const lineOptionsService = container.resolve<LineOptionsService>('LineOptionsService');
+    const clipboardApplicationService = container.resolve<ClipboardApplicationService>('ClipboardApplicationService');
+    const copyFileContentUseCase = container.resolve<CopyFileContentUseCase>('CopyFileContentUseCase');
+    const filePolicyService = container.resolve<FilePolicyService>('FilePolicyService');
+    const copyTreeStructureUseCase = container.resolve<CopyTreeStructureUseCase>('CopyTreeStructureUseCase');
+    const treeStructureService = container.resolve<TreeStructureService>('TreeStructureService');
 
     CommandRegistry.registerCommand(
         context,
         'copy-path-with-code.showFolderMenu',
-        (folderItem) => handleShowFolderMenu(folderItem, notificationService, folderService)
+        (folderItem) => handleShowFolderMenu(folderItem, notificationService, folderService, templateService, lineOptionsService)
     );
 
     CommandRegistry.registerCommand(
         context,
         'copy-path-with-code.copyFolderContents',
-        (folderItem) => handleCopyFolderContents(folderItem, notificationService, folderService)
+        (folderItem, args?: any) => handleCopyFolderContents(
+            folderItem,
+            notificationService,
+            folderService,
+            clipboardService,
+            lineOptionsService,
+            copyFileContentUseCase,
+            filePolicyService,
+            copyTreeStructureUseCase,
+            treeStructureService,
+            getTemplateIdFromArgs(args),
+            getLineOptionsFromArgs(args),
+            getTreeHeaderFromArgs(args)
+        )
+    );
+
+    // Tree structure of a Code Folder, a directory of its tree or an Explorer directory;
+    // { "style": "markdown", "sizes": true, "lineCounts": true } override the configured options
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyTreeStructure',
+        async (itemOrArgs?: any) => {
+            const target = getTreeStructureTarget(itemOrArgs, folderService);
+            if (!target) {
+                notificationService.showWarning('Select a folder or directory to copy its tree structure');
+                return;
+            }
+            await clipboardApplicationService.copyTreeStructure(target, getTreeStructureOptionsFromArgs(itemOrArgs));
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyTreeStructureWithOptions',
+        async (item?: any) => {
+            const target = getTreeStructureTarget(item, folderService);
+            if (!target) {
+                notificationService.showWarning('Select a folder or directory to copy its tree structure');
+                return;
+            }
+            const options = await pickTreeStructureOptions(treeStructureService);
+            if (options) {
+                await clipboardApplicationService.copyTreeStructure(target, options);
+            }
+        }
+    );
+
+    CommandRegistry.registerCommand(
+        context,
+        'copy-path-with-code.copyFolderDiff',
+        (folderItem, args?: any) => handleCopyFolderDiff(
+            folderItem,
+            notificationService,
+            folderService,
+            clipboardApplicationService,
+            args
+        )
     );
 }
 
@@ -47,7 +128,9 @@ export function registerFolderMenuCommands(context: vscode.ExtensionContext): vo
 async function handleShowFolderMenu(
     folderItem: any,
     notificationService: INotificationService,
-    folderService: FolderService
+    folderService: FolderService,
+    templateService: TemplateService,
+    lineOptionsService: LineOptionsService
 ): Promise<void> {
     const folderId = folderItem?.id || folderItem?.folderId;
     if (!folderId) {
@@ -69,6 +152,31 @@ async function handleShowFolderMenu(
                 description: 'Copy all file paths and contents to clipboard',
                 action: 'copyFolderContents'
             },
+            {
+                label: `$(copy) Copy Folder Contents As...`,
+                description: 'Choose the output template before copying',
+                action: 'copyFolderContentsAs'
+            },
+            {
+                label: `$(list-ordered) Copy Folder Contents with Options...`,
+                description: 'Choose line numbers before copying',
+                action: 'copyFolderContentsWithOptions'
+            },
+            {
+                label: `$(list-tree) Copy Folder Contents with Tree`,
+                description: 'Start the copy with the folder layout',
+                action: 'copyFolderContentsWithTree'
+            },
+            {
+                label: `$(list-tree) Copy Tree Structure`,
+                description: 'Copy the folder layout as an ASCII or Markdown tree',
+                action: 'copyTreeStructure'
+            },
+            {
+                label: `$(git-compare) Copy Folder Git Diff`,
+                description: 'Copy the uncommitted changes of the folder files',
+                action: 'copyFolderDiff'
+            },
             {
                 label: `$(add) Add Files to Folder`,
                 description: 'Select files to add to this folder',
@@ -99,10 +207,33 @@ async function handleShowFolderMenu(
 
         if (!choice) return;
 
+        if (choice.action === 'copyFolderContentsAs') {
+            const templateId = await pickOutputTemplate(templateService);
+            if (templateId) {
+                await vscode.commands.executeCommand('copy-path-with-code.copyFolderContents', folderItem, { template: templateId });
+            }
+            return;
+        }
+
+        if (choice.action === 'copyFolderContentsWithOptions') {
+            const lineChoice = await pickLineOptions(lineOptionsService, false);
+            if (lineChoice) {
+                await vscode.commands.executeCommand('copy-path-with-code.copyFolderContents', folderItem, lineChoice.lines);
+            }
+            return;
+        }
+
+        if (choice.action === 'copyFolderContentsWithTree') {
+            await vscode.commands.executeCommand('copy-path-with-code.copyFolderContents', folderItem, { tree: true });
+            return;
+        }
+
         // Execute the selected action
         const commandMap: { [key: string]: string } = {
             'openFolderFiles': 'copy-path-with-code.openFolderFiles',
             'copyFolderContents': 'copy-path-with-code.copyFolderContents',
+            'copyFolderDiff': 'copy-path-with-code.copyFolderDiff',
+            'copyTreeStructure': 'copy-path-with-code.copyTreeStructure',
             'addFileToFolder': 'copy-path-with-code.addFileToFolder',
             'removeFileFromFolder': 'copy-path-with-code.removeFileFromFolder',
             'renameFolder': 'copy-path-with-code.renameFolder',
@@ -120,11 +251,51 @@ async function handleShowFolderMenu(
     }
 }
 
+async function handleCopyFolderDiff(
+    folderItem: any,
+    notificationService: INotificationService,
+    folderService: FolderService,
+    clipboardApplicationService: ClipboardApplicationService,
+    args?: any
+): Promise<void> {
+    const folderId = folderItem?.id || folderItem?.folderId;
+    if (!folderId) {
+        notificationService.showError('Invalid folder selection');
+        return;
+    }
+
+    try {
+        const folder = folderService.getFolderById(folderId);
+        if (folder.files.length === 0) {
+            notificationService.showWarning(`Folder "${folder.name}" contains no files`);
+            return;
+        }
+
+        await clipboardApplicationService.copyFileDiff(
+            folder.files.map(file => vscode.Uri.parse(file)),
+            { ...getGitDiffOptionsFromArgs(args), templateId: getTemplateIdFromArgs(args) }
+        );
+    } catch (error) {
+        Logger.error('Failed to copy folder diff', error);
+        notificationService.showError(`Failed to copy folder diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
 async function handleCopyFolderContents(
     folderItem: any,
     notificationService: INotificationService,
-    folderService: FolderService
+    folderService: FolderService,
+    clipboardService: ClipboardService,
+    lineOptionsService: LineOptionsService,
+    copyFileContentUseCase: CopyFileContentUseCase,
+    filePolicyService: FilePolicyService,
+    copyTreeStructureUseCase: CopyTreeStructureUseCase,
+    treeStructureService: TreeStructureService,
+    templateId?: string,
+    lineOverrides?: Partial<LineOptions>,
+    treeHeader?: boolean
 ): Promise<void> {
+    const lineOptions = lineOptionsService.resolveOptions(lineOverrides);
     const folderId = folderItem?.id || folderItem?.folderId;
     if (!folderId) {
         notificationService.showError('Invalid folder selection');
@@ -147,10 +318,11 @@ async function handleCopyFolderContents(
         }, async (progress, token) => {
             try {
                 const totalFiles = folder.fileCount;
+                const copiedFiles: CopiedFile[] = [];
                 let processedFiles = 0;
-                let clipboardContent = `Folder: ${folder.name}\n`;
-                clipboardContent += `Files: ${totalFiles}\n`;
-                clipboardContent += `${'='.repeat(50)}\n\n`;
+                let failedFiles = 0;
+                let sensitiveFiles = 0;
+                const outcomes: FilePolicyOutcome[] = [];
 
                 for (const fileUri of folder.files) {
                     if (token.isCancellationRequested) {
@@ -163,27 +335,29 @@ async function handleCopyFolderContents(
 
                         // Update progress
                         processedFiles++;
-                        const progressPercent = (processedFiles / totalFiles) * 100;
                         progress.report({
                             increment: (1 / totalFiles) * 100,
                             message: `Processing ${fileName} (${processedFiles}/${totalFiles})`
                         });
 
-                        // Read file content
+                        const displayPath = vscode.workspace.asRelativePath(uri);
+                        if (clipboardService.isSensitiveFile(displayPath)) {
+                            sensitiveFiles++;
+                            continue;
+                        }
+
+                        // Read file content; binary, generated and oversized files follow the file policy
                         try {
-                            const document = await vscode.workspace.openTextDocument(uri);
-                            const content = document.getText();
-
-                            clipboardContent += `File: ${fileName}\n`;
-                            clipboardContent += `Path: ${uri.fsPath}\n`;
-                            clipboardContent += `${'─'.repeat(30)}\n`;
-                            clipboardContent += content;
-                            clipboardContent += `\n\n${'='.repeat(50)}\n\n`;
+                            const read = await copyFileContentUseCase.readWithPolicy(uri, displayPath, { templateId, lineOptions });
+                            if (read.decision.category) {
+                                outcomes.push({ path: displayPath, ...read.decision });
+                            }
+                            if (read.file) {
+                                copiedFiles.push(read.file);
+                            }
                         } catch (fileError) {
-                            clipboardContent += `File: ${fileName}\n`;
-                            clipboardContent += `Path: ${uri.fsPath}\n`;
-                            clipboardContent += `Error: Could not read file content\n`;
-                            clipboardContent += `\n${'='.repeat(50)}\n\n`;
+                            failedFiles++;
+                            Logger.warn(`Could not read file content: ${uri.fsPath}`, fileError);
                         }
                     } catch (error) {
                         // Skip invalid URIs
@@ -191,30 +365,41 @@ async function handleCopyFolderContents(
                     }
                 }
 
-                if (!token.isCancellationRequested) {
-                    // Copy to clipboard
-                    await vscode.env.clipboard.writeText(clipboardContent);
-
-                    // Update state for status bar
-                    state.copiedFiles.push({
-                        displayPath: folder.name,
-                        basePath: `Folder (${folder.fileCount} files)`,
-                        content: clipboardContent,
-                        format: 'normal'
-                    });
-
-                    // Show status bar
-                    if (state.statusBarItem) {
-                        state.statusBarItem.text = `$(copy) Copied: ${folder.name} (${folder.fileCount} files)`;
-                        state.statusBarItem.show();
-                    }
+                if (token.isCancellationRequested) {
+                    notificationService.showWarning('Copy operation was cancelled');
+                    return;
+                }
 
-                    notificationService.showSuccess(
-                        `Copied contents of "${folder.name}" (${processedFiles} files) to clipboard`
+                if (copiedFiles.length === 0) {
+                    notificationService.showWarning(
+                        `No readable files in folder "${folder.name}"${filePolicyService.formatNotice(outcomes)}`
                     );
-                } else {
-                    notificationService.showWarning('Copy operation was cancelled');
+                    return;
                 }
+
+                const fileCount = copiedFiles.length;
+                if (treeStructureService.isHeaderEnabled(treeHeader)) {
+                    copiedFiles.unshift(await copyTreeStructureUseCase.buildHeader(
+                        { kind: 'files', name: folder.name, fileUris: folder.files },
+                        templateId
+                    ));
+                }
+
+                // Replace current copied files with folder contents
+                await clipboardService.setCopiedFiles(copiedFiles);
+                ServiceContainer.getInstance().updateClipboardStatusBar();
+
+                const skipped = [
+                    failedFiles > 0 ? `${failedFiles} could not be read` : '',
+                    sensitiveFiles > 0 ? `${sensitiveFiles} sensitive skipped` : ''
+                ].filter(Boolean).join(', ');
+                const failedText = skipped ? ` (${skipped})` : '';
+                notificationService.showSuccess(
+                    `Copied contents of "${folder.name}" (${fileCount} files) to clipboard${failedText}` +
+                    filePolicyService.formatNotice(outcomes) +
+                    clipboardService.describeMinification(copiedFiles) +
+                    clipboardService.describeRedactions(clipboardService.getCopiedFiles())
+                );
             } catch (error) {
                 notificationService.showError(
                     `Failed to copy folder contents: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -226,4 +411,24 @@ async function handleCopyFolderContents(
             `Failed to copy folder contents: ${error instanceof Error ? error.message : 'Unknown error'}`
         );
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Explorer directory uri, Code Folders tree directory, Code Folder item, or the first workspace folder
+ * when the command is run from the palette or a keybinding
+ */
+function getTreeStructureTarget(itemOrArgs: any, folderService: FolderService): TreeStructureTarget | undefined {
+    if (itemOrArgs instanceof vscode.Uri) {
+        return { kind: 'directory', uri: itemOrArgs };
+    }
+    if (itemOrArgs?.treeNode instanceof FileNode && itemOrArgs.treeNode.isDirectory) {
+        return { kind: 'node', node: itemOrArgs.treeNode };
+    }
+    if (itemOrArgs?.contextValue === FOLDER_CONSTANTS.CONTEXT_VALUES.FOLDER && itemOrArgs.folderId) {
+        const folder = folderService.getFolderById(itemOrArgs.folderId);
+        return { kind: 'files', name: folder.name, fileUris: folder.files };
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return workspaceFolder ? { kind: 'directory', uri: workspaceFolder.uri } : undefined;
+}
@@ -20,6 +20,9 @@ import { registerViewCommands } from './folder/ViewCommands';
 import { registerDirectoryCommands } from './folder/directoryCommands';
 import { registerFolderMenuCommands } from './folder/FolderMenuCommands';
 import { registerContextMenuCommands } from './clipboard/contextMenuCommands';
+import { registerCopiedStackCommands } from './clipboard/copiedStackCommands';
+import { registerSessionCommands } from './clipboard/sessionCommands';
+import { registerDetectedFileCommands } from './clipboard/detectedFileCommands';
 
 // Import services for clipboard commands
 import { ClipboardService } from '../domain/clipboard/services/ClipboardService';
@@ -40,6 +43,15 @@ export function registerAllCommands(
         // Register context menu commands
         registerContextMenuCommands(context);
 
+        // Register copied stack inspection commands
+        registerCopiedStackCommands(context);
+
+        // Register named session commands
+        registerSessionCommands(context);
+
+        // Register commands that apply detected clipboard files to the workspace
+        registerDetectedFileCommands(context);
+
         // Register critical commands that are referenced immediately
         registerCriticalCommands(context, treeDataProvider);
 
@@ -109,11 +121,18 @@ function registerMainApplicationCommands(
                 const document = await vscode.workspace.openTextDocument(uri);
                 const content = document.getText();
 
-                // Use clipboard service to copy - with format parameter
-                await clipboardService.copyFileContent(uri.toString(), content, 'normal');
+                // Use clipboard service to copy through the configured output template
+                const stored = await clipboardService.copyFileContent({
+                    path: vscode.workspace.asRelativePath(uri),
+                    language: document.languageId,
+                    content
+                }, 'normal');
+                container.updateClipboardStatusBar();
 
                 // Show notification
-                vscode.window.showInformationMessage(`Copied: ${path.basename(uri.fsPath)}`);
+                vscode.window.showInformationMessage(
+                    `Copied: ${path.basename(uri.fsPath)}${clipboardService.describeRedactions([stored])}`
+                );
 
             } catch (error) {
                 vscode.window.showErrorMessage(`Failed to copy file: ${error}`);
@@ -172,16 +191,6 @@ function registerClipboardCommands(
         }
     );
 
-    CommandRegistry.registerCommand(
-        context,
-        'copy-path-with-code.openClipboardFile',
-        (item) => {
-            if (item?.resourceUri) {
-                vscode.commands.executeCommand('vscode.open', item.resourceUri);
-            }
-        }
-    );
-
     // Refresh clipboard view command
     CommandRegistry.registerCommand(
         context,
@@ -0,0 +1,55 @@
+/**
+ * FILE: src/domain/clipboard/entities/BundleParser.ts
+ *
+ * BUNDLE PARSER ENTITY
+ *
+ * A bundle is clipboard text holding one or more files, e.g. blocks written by
+ * our output templates or code fences pasted from a chat. Parsers find the file
+ * blocks in a bundle; the detection service combines the results of all parsers.
+ */
+
+import { FileDiff } from './FileDiff';
+
+export interface ParsedBlock {
+    /**
+     * Path of the file, with a ":10-20" suffix when only a line range was copied
+     */
+    filePath: string;
+
+    content: string;
+
+    /**
+     * Parsed unified diff when the block is a patch rather than file content
+     */
+    patch?: FileDiff;
+
+    /**
+     * Offsets of the block in the parsed text, used to resolve overlaps between parsers
+     */
+    start: number;
+    end: number;
+}
+
+export interface BundleParser {
+    /**
+     * Unique identifier, e.g. "markdown"
+     */
+    id: string;
+
+    /**
+     * Find every file block in the text; line endings are already normalized to \n
+     */
+    parse(text: string): ParsedBlock[];
+}
+
+export interface DetectionOptions {
+    /**
+     * Globs of detected paths to drop, e.g. "**\/node_modules/**"
+     */
+    ignore: string[];
+
+    /**
+     * Clipboard text longer than this many characters is not parsed
+     */
+    maxSize: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * FILE: src/domain/clipboard/entities/ClipboardSession.ts
+ *
+ * CLIPBOARD SESSION ENTITY - WORKSPACE SPECIFIC
+ *
+ * A copied stack saved under a name so that it can be loaded or appended later.
+ */
+
+import { TempClipboardFile } from './TempClipboardFile';
+
+export interface ClipboardSession {
+    name: string;
+    workspaceId: string;
+    files: TempClipboardFile[];
+    createdAt: number;
+    updatedAt: number;
+}
@@ -1,8 +1,61 @@
+import { LineOptions } from './LineOptions';
+import { FilePolicyDecision } from './FilePolicy';
+
+export interface CopiedSegment {
+    startLine: number; // 1-based, inclusive
+    endLine: number; // 1-based, inclusive
+    content: string;
+
+    /**
+     * What the segment covers, e.g. "function activate"
+     */
+    label?: string;
+}
+
+// How a file was copied, so that it can be copied again from disk
+export type CopiedSource =
+    | { kind: 'content'; lineOptions: LineOptions }
+    | { kind: 'diff'; staged?: boolean; ref?: string }
+    | { kind: 'tree' }; // Layout header of a folder copy, not backed by a single file
+
 export interface CopiedFile {
     displayPath: string;
     basePath: string;
     content: string;
     format: 'normal' | 'error';
+    templateId?: string;
+
+    /**
+     * VS Code language identifier, e.g. "typescript"
+     */
+    language?: string;
+
+    /**
+     * Copied line ranges in order, absent for whole-file copies
+     */
+    segments?: CopiedSegment[];
+
+    /**
+     * Number of secrets masked in content
+     */
+    redactions?: number;
+
+    /**
+     * Number of characters removed by minification
+     */
+    minified?: number;
+
+    /**
+     * Number of diagnostics attached to content
+     */
+    diagnostics?: number;
+
+    /**
+     * How the bulk copy policy changed the file, absent when it was copied as is
+     */
+    policy?: FilePolicyDecision;
+
+    source?: CopiedSource;
 }
 
 export class CopiedFileEntity {
@@ -10,16 +63,81 @@ export class CopiedFileEntity {
         public readonly displayPath: string,
         public readonly basePath: string,
         public readonly content: string,
-        public readonly format: 'normal' | 'error' = 'normal'
+        public readonly format: 'normal' | 'error' = 'normal',
+        public readonly templateId?: string,
+        public readonly segments?: CopiedSegment[],
+        public readonly source?: CopiedSource
     ) { }
 
     static create(
         displayPath: string,
         basePath: string,
         content: string,
-        format: 'normal' | 'error' = 'normal'
+        format: 'normal' | 'error' = 'normal',
+        templateId?: string,
+        segments?: CopiedSegment[],
+        source?: CopiedSource
     ): CopiedFileEntity {
-        return new CopiedFileEntity(displayPath, basePath, content, format);
+        return new CopiedFileEntity(displayPath, basePath, content, format, templateId, segments, source);
+    }
+
+    /**
+     * Merge two segment lists into ordered, non-overlapping segments.
+     * Overlapping or adjacent segments are stitched together line by line, which is only right
+     * for full-line segments; callers holding the document read the merged ranges again.
+     */
+    static mergeSegments(existing: CopiedSegment[], incoming: CopiedSegment[]): CopiedSegment[] {
+        const sorted = [...existing, ...incoming].sort((a, b) => a.startLine - b.startLine);
+        const merged: CopiedSegment[] = [];
+
+        for (const segment of sorted) {
+            const last = merged[merged.length - 1];
+
+            if (!last || segment.startLine > last.endLine + 1) {
+                merged.push({ ...segment });
+                continue;
+            }
+
+            last.label = CopiedFileEntity.joinLabels([last, segment]);
+
+            if (segment.endLine > last.endLine) {
+                const extraLines = segment.content.split('\n').slice(last.endLine - segment.startLine + 1);
+                last.content = [last.content, ...extraLines].join('\n');
+                last.endLine = segment.endLine;
+            }
+        }
+
+        return merged;
+    }
+
+    /**
+     * Line ranges for the block header, e.g. "10-20,45-60"
+     */
+    static formatRanges(segments: CopiedSegment[]): string {
+        return segments.map(s => `${s.startLine}-${s.endLine}`).join(',');
+    }
+
+    /**
+     * Distinct segment labels in order, e.g. "function a, class B"
+     */
+    static joinLabels(segments: CopiedSegment[]): string | undefined {
+        const labels = segments
+            .flatMap(s => s.label ? s.label.split(', ') : [])
+            .filter((label, i, all) => all.indexOf(label) === i);
+        return labels.length > 0 ? labels.join(', ') : undefined;
+    }
+
+    /**
+     * Join segment contents with an elision marker for the lines in between
+     */
+    static joinSegments(segments: CopiedSegment[]): string {
+        return segments.map((segment, i) => {
+            if (i === 0) {
+                return segment.content;
+            }
+            const omitted = segment.startLine - segments[i - 1].endLine - 1;
+            return `... (${omitted} line${omitted !== 1 ? 's' : ''} omitted) ...\n${segment.content}`;
+        }).join('\n');
     }
 
     equals(other: CopiedFileEntity): boolean {
@@ -29,4 +147,4 @@ export class CopiedFileEntity {
     getFileName(): string {
         return this.displayPath.split('/').pop() || this.displayPath;
     }
-}
\ No newline at end of file
+}
@@ -6,6 +6,8 @@
  * Represents a file detected from clipboard content parsing.
  */
 
+import { FileDiff } from './FileDiff';
+
 export interface DetectedFile {
     /**
      * The file path detected from clipboard
@@ -17,6 +19,11 @@ export interface DetectedFile {
      */
     content: string;
 
+    /**
+     * Parsed unified diff when the content is a patch for the file rather than the file itself
+     */
+    patch?: FileDiff;
+
     /**
      * Timestamp when the file was detected
      */
@@ -0,0 +1,64 @@
+/**
+ * FILE: src/domain/clipboard/entities/DiagnosticReport.ts
+ *
+ * DIAGNOSTIC REPORT ENTITY
+ *
+ * Structured diagnostics attached to a "Copy with Error" block. Templates can
+ * render the report as a list, a Markdown table or JSON.
+ */
+
+export type DiagnosticSeverityName = 'error' | 'warning' | 'information' | 'hint';
+
+export type DiagnosticsFormat = 'list' | 'table' | 'json';
+
+export const DIAGNOSTIC_SEVERITIES: DiagnosticSeverityName[] = ['error', 'warning', 'information', 'hint'];
+
+export interface DiagnosticOptions {
+    severities: DiagnosticSeverityName[];
+    includeSource: boolean;
+    includeCode: boolean;
+    includeColumns: boolean;
+    includeRelatedInformation: boolean;
+    contextLines: number;
+    includeOutsideSelection: boolean;
+}
+
+export interface DiagnosticLine {
+    line: number; // 1-based
+    text: string;
+}
+
+export interface DiagnosticRelatedLocation {
+    path: string;
+    line: number; // 1-based
+    message: string;
+}
+
+export interface DiagnosticEntry {
+    index: number;
+    severity: DiagnosticSeverityName;
+    message: string;
+    line: number; // 1-based
+    lineContent: string;
+    endLine?: number;
+    column?: number; // 1-based, only when columns are included
+    endColumn?: number;
+    source?: string;
+    code?: string;
+    context?: DiagnosticLine[];
+    related?: DiagnosticRelatedLocation[];
+}
+
+export interface DiagnosticSummary {
+    total: number;
+    bySeverity: Partial<Record<DiagnosticSeverityName, number>>;
+}
+
+export interface DiagnosticReport {
+    entries: DiagnosticEntry[];
+
+    /**
+     * Counts of diagnostics outside the copied selection, when requested
+     */
+    outsideSelection?: DiagnosticSummary;
+}
@@ -0,0 +1,35 @@
+/**
+ * FILE: src/domain/clipboard/entities/FileDiff.ts
+ *
+ * FILE DIFF ENTITY
+ *
+ * One file section of a unified diff, as produced by "git diff".
+ */
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+
+    /**
+     * Hunk body lines including their " ", "+", "-" or "\" prefix
+     */
+    lines: string[];
+}
+
+export interface FileDiff {
+    /**
+     * Path of the file after the change, or before it for deletions
+     */
+    path: string;
+    oldPath?: string; // undefined for added files
+    newPath?: string; // undefined for deleted files
+    binary: boolean;
+    hunks: DiffHunk[];
+
+    /**
+     * The complete section text, from the "diff --git" line to the last hunk
+     */
+    text: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * FILE: src/domain/clipboard/entities/FilePolicy.ts
+ *
+ * FILE POLICY ENTITY
+ *
+ * What bulk copies (folders, Explorer selections) do with files that should not
+ * go into the clipboard as they are: binary files, generated or minified files
+ * and files above the size limit.
+ */
+
+export type FileCategory = 'binary' | 'generated' | 'oversized';
+
+/**
+ * copy: keep as is, skip: leave out, truncate: first and last lines with an elision marker,
+ * summary: size, type and hash instead of the content
+ */
+export type FilePolicyAction = 'copy' | 'skip' | 'truncate' | 'summary';
+
+export const FILE_POLICY_ACTIONS: FilePolicyAction[] = ['copy', 'skip', 'truncate', 'summary'];
+
+export interface FilePolicyOptions {
+    /**
+     * Binary files can only be skipped or summarized
+     */
+    binary: FilePolicyAction;
+    generated: FilePolicyAction;
+    oversized: FilePolicyAction;
+
+    /**
+     * Size limit in bytes, 0 for no limit
+     */
+    maxFileSize: number;
+
+    /**
+     * Globs of generated files, e.g. "*.min.js", "package-lock.json"
+     */
+    generatedFiles: string[];
+
+    /**
+     * Lines kept at the start and at the end of truncated files
+     */
+    headLines: number;
+    tailLines: number;
+}
+
+export interface FilePolicyDecision {
+    category?: FileCategory;
+    action: FilePolicyAction;
+
+    /**
+     * Why the file is in its category, e.g. "matches *.min.js" or "1.2 MB, limit 500.0 KB"
+     */
+    reason?: string;
+}
+
+export interface FilePolicyOutcome extends FilePolicyDecision {
+    path: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * FILE: src/domain/clipboard/entities/LineOptions.ts
+ *
+ * LINE OPTIONS ENTITY
+ *
+ * How copied lines are selected and presented: real line number prefixes,
+ * surrounding context and minifying the copied text. Selections are always
+ * copied as full lines.
+ */
+
+import { MinifyOptions } from './MinifyOptions';
+
+export interface LineOptions {
+    /**
+     * Prefix every copied line with its line number in the source file
+     */
+    lineNumbers: boolean;
+
+    /**
+     * Lines added before and after each selection
+     */
+    contextLines: number;
+
+    /**
+     * Transforms that shrink the copied text; absent in stacks saved by older versions
+     */
+    minify?: MinifyOptions;
+}
@@ -0,0 +1,44 @@
+/**
+ * FILE: src/domain/clipboard/entities/MinifyOptions.ts
+ *
+ * MINIFY OPTIONS ENTITY
+ *
+ * Optional transforms that shrink copied content before it is formatted,
+ * e.g. to fit more files into an LLM context. Absent flags are off.
+ */
+
+export interface MinifyOptions {
+    /**
+     * Remove comments, for languages whose comment syntax is known
+     */
+    stripComments?: boolean;
+
+    /**
+     * Replace runs of blank lines with a single blank line
+     */
+    collapseBlankLines?: boolean;
+
+    /**
+     * Re-indent with this many spaces per level; 0 keeps the indentation
+     */
+    indentWidth?: number;
+
+    /**
+     * Remove a leading comment that mentions a copyright or license
+     */
+    stripLicenseHeader?: boolean;
+}
+
+export interface MinifyResult {
+    text: string;
+
+    /**
+     * 0-based line of the input for every line of text, so that line numbers stay real
+     */
+    lines: number[];
+
+    /**
+     * Characters removed
+     */
+    saved: number;
+}
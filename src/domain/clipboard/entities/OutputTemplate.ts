@@ -0,0 +1,86 @@
+/**
+ * FILE: src/domain/clipboard/entities/OutputTemplate.ts
+ *
+ * OUTPUT TEMPLATE ENTITY
+ *
+ * Describes how a single copied file block is rendered before it reaches the clipboard.
+ * Templates use {{placeholder}} substitution, optional {{key|filter}} escaping and
+ * {{#key}}...{{/key}} sections that are only rendered when the value is non-empty.
+ */
+
+import { DiagnosticReport } from './DiagnosticReport';
+
+export interface OutputTemplate {
+    /**
+     * Unique identifier used in settings and command arguments
+     */
+    id: string;
+
+    /**
+     * Human readable name shown in quick-picks
+     */
+    label: string;
+
+    /**
+     * Short explanation shown next to the label
+     */
+    description?: string;
+
+    /**
+     * Template body rendered once per copied file
+     */
+    body: string;
+
+    /**
+     * True for templates shipped with the extension
+     */
+    builtIn?: boolean;
+}
+
+/**
+ * A rendered file block with the number of secrets masked in its content
+ */
+export interface FormattedContent {
+    content: string;
+    redactions: number;
+}
+
+/**
+ * Values available to a template while rendering one file block
+ */
+export interface TemplateContext {
+    /**
+     * Workspace relative (or absolute) path without line range
+     */
+    path: string;
+
+    /**
+     * Line range such as "10-20", empty for whole-file copies
+     */
+    range?: string;
+
+    /**
+     * VS Code language identifier, e.g. "typescript"
+     */
+    language?: string;
+
+    /**
+     * The copied text
+     */
+    content: string;
+
+    /**
+     * Symbols covered by the copy, e.g. "function activate, class Foo"
+     */
+    symbols?: string;
+
+    /**
+     * Description of the line options used, e.g. "line numbers, 3 context lines"
+     */
+    options?: string;
+
+    /**
+     * Diagnostics attached to the copy, either pre-rendered text or a structured report
+     */
+    diagnostics?: string | DiagnosticReport;
+}
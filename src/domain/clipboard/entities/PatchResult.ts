@@ -0,0 +1,39 @@
+/**
+ * FILE: src/domain/clipboard/entities/PatchResult.ts
+ *
+ * PATCH RESULT ENTITY
+ *
+ * Outcome of applying the hunks of a unified diff to the lines of a file,
+ * hunk by hunk, as "patch" reports it.
+ */
+
+import { DiffHunk } from './FileDiff';
+
+export interface HunkResult {
+    /**
+     * Position of the hunk in its file diff, 0-based
+     */
+    index: number;
+    hunk: DiffHunk;
+    applied: boolean;
+
+    /**
+     * Lines between where the hunk was expected and where it was applied
+     */
+    offset?: number;
+
+    /**
+     * Context lines at each end of the hunk that were ignored to apply it
+     */
+    fuzz?: number;
+
+    /**
+     * Why the hunk was rejected
+     */
+    reason?: string;
+}
+
+export interface PatchResult {
+    lines: string[];
+    hunks: HunkResult[];
+}
@@ -0,0 +1,47 @@
+/**
+ * FILE: src/domain/clipboard/entities/Permalink.ts
+ *
+ * PERMALINK ENTITY
+ *
+ * A link to a file, and optionally some of its lines, at a fixed revision on
+ * the web view of the repository host. Hosts are recognized from the remote
+ * url; rules map self-hosted servers to a host style or to a url template.
+ */
+
+export type PermalinkHost = 'github' | 'gitlab' | 'bitbucket' | 'azure';
+
+export interface PermalinkRule {
+    /**
+     * Regular expression tested against the remote url, e.g. "git\\.example\\.com"
+     */
+    match: string;
+
+    /**
+     * Url style of the server, for hosts that run GitHub, GitLab, Bitbucket or Azure DevOps
+     */
+    host?: PermalinkHost;
+
+    /**
+     * Url template instead of a host style; keys: {{server}}, {{repository}}, {{revision}}, {{path}},
+     * {{start}}, {{end}}, and a {{#lines}}...{{/lines}} section kept only when lines are linked
+     */
+    url?: string;
+}
+
+export interface PermalinkTarget {
+    remoteUrl: string;
+
+    /**
+     * Commit SHA, or the branch name when the branch has no commit yet
+     */
+    revision: string;
+    isCommit: boolean;
+
+    /**
+     * Path relative to the repository root, with forward slashes
+     */
+    path: string;
+
+    startLine?: number; // 1-based, inclusive
+    endLine?: number; // 1-based, inclusive
+}
@@ -0,0 +1,41 @@
+/**
+ * FILE: src/domain/clipboard/entities/PromptTemplate.ts
+ *
+ * PROMPT TEMPLATE ENTITY
+ *
+ * A named instruction written around the whole copied bundle, e.g. "Review this
+ * for bugs:" before the files and the expected answer format after them.
+ * Prefix and suffix use the output template syntax with bundle-wide placeholders.
+ */
+
+export interface PromptTemplate {
+    /**
+     * Unique identifier used in settings and command arguments
+     */
+    id: string;
+
+    /**
+     * Human readable name shown in quick-picks
+     */
+    label: string;
+
+    /**
+     * Short explanation shown next to the label
+     */
+    description?: string;
+
+    /**
+     * Text placed before the bundle
+     */
+    prefix: string;
+
+    /**
+     * Text placed after the bundle
+     */
+    suffix: string;
+
+    /**
+     * True for prompts shipped with the extension
+     */
+    builtIn?: boolean;
+}
@@ -0,0 +1,40 @@
+/**
+ * FILE: src/domain/clipboard/entities/RangePatch.ts
+ *
+ * RANGE PATCH ENTITY
+ *
+ * Replacement for some lines of a file, as found under a "file.ts:10-20"
+ * header, and where it was placed in the current version of the file.
+ */
+
+export interface LineRange {
+    startLine: number; // 1-based, inclusive
+    endLine: number; // 1-based, inclusive
+}
+
+export interface RangePatch extends LineRange {
+    /**
+     * Lines that replace the range
+     */
+    content: string;
+
+    /**
+     * Lines of the range when they were copied, when still known
+     */
+    original?: string;
+}
+
+export interface PatchPlacement {
+    patch: RangePatch;
+    startLine: number; // 1-based, inclusive, in the current file
+    endLine: number; // 1-based, inclusive, in the current file
+
+    /**
+     * False when the range moved and was found again by its anchors
+     */
+    exact: boolean;
+}
+
+export type RangePatchResult =
+    | { placements: PatchPlacement[] }
+    | { conflict: string };
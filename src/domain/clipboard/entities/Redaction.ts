@@ -0,0 +1,41 @@
+/**
+ * FILE: src/domain/clipboard/entities/Redaction.ts
+ *
+ * REDACTION ENTITY
+ *
+ * Options and results of masking secrets in copied content.
+ */
+
+export type RedactionDetector = 'keyFormats' | 'highEntropy' | 'privateKeys' | 'envAssignments';
+
+export const REDACTION_DETECTORS: RedactionDetector[] = ['keyFormats', 'highEntropy', 'privateKeys', 'envAssignments'];
+
+export interface RedactionOptions {
+    enabled: boolean;
+
+    /**
+     * Built-in detectors to run
+     */
+    detectors: RedactionDetector[];
+
+    /**
+     * User regular expressions; when a pattern has a capture group only the first group is masked
+     */
+    customPatterns: string[];
+
+    /**
+     * Globs of files that are never copied, e.g. "**\/*.pem"
+     */
+    sensitiveFiles: string[];
+
+    /**
+     * Replacement text for every match
+     */
+    mask: string;
+}
+
+export interface RedactionResult {
+    text: string;
+    count: number;
+    byDetector: Partial<Record<RedactionDetector | 'custom', number>>;
+}
@@ -7,6 +7,9 @@
  * This allows each workspace to maintain its own separate temporary clipboard.
  */
 
+import { CopiedSegment, CopiedSource } from './CopiedFile';
+import { FilePolicyDecision } from './FilePolicy';
+
 export interface TempClipboardFile {
     displayPath: string;
     basePath: string;
@@ -14,6 +17,16 @@ export interface TempClipboardFile {
     format: 'normal' | 'error';
     workspaceId: string; // Unique identifier for workspace
     savedAt: number; // Timestamp when saved
+
+    // Kept so that restored files can still be refreshed and re-rendered
+    templateId?: string;
+    segments?: CopiedSegment[];
+    redactions?: number;
+    minified?: number;
+    policy?: FilePolicyDecision;
+    language?: string;
+    diagnostics?: number;
+    source?: CopiedSource;
 }
 
 export class TempClipboardFileEntity {
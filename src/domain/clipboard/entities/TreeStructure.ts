@@ -0,0 +1,28 @@
+/**
+ * FILE: src/domain/clipboard/entities/TreeStructure.ts
+ *
+ * TREE STRUCTURE ENTITY
+ *
+ * Options for rendering the file layout of a folder as text, and the per-file
+ * statistics shown next to file names.
+ */
+
+export type TreeStyle = 'ascii' | 'markdown';
+
+export interface TreeStructureOptions {
+    /**
+     * ascii: box-drawing branches like the tree command, markdown: nested bullet list
+     */
+    style: TreeStyle;
+    sizes: boolean;
+    lineCounts: boolean;
+}
+
+export interface TreeFileStats {
+    size: number;
+
+    /**
+     * Absent for binary files
+     */
+    lines?: number;
+}
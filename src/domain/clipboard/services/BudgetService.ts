@@ -0,0 +1,73 @@
+/**
+ * FILE: src/domain/clipboard/services/BudgetService.ts
+ *
+ * BUDGET SERVICE - Size and token accounting for the copied stack
+ *
+ * Measures each copied file and the combined clipboard bundle with a local
+ * token estimate, and decides whether the configured budget is exceeded.
+ */
+
+import { CopiedFile } from '../entities/CopiedFile';
+import { ContentCost, TokenUtils } from '../../../shared/utils/TokenUtils';
+
+export type BudgetAction = 'warn' | 'refuse';
+
+// Settings interface for the token budget
+export interface IBudgetSettings {
+    getTokenBudget(): number;
+    getBudgetAction(): BudgetAction;
+}
+
+export interface CopiedFileCost {
+    file: CopiedFile;
+    cost: ContentCost;
+}
+
+export interface BudgetStatus {
+    files: CopiedFileCost[];
+    total: ContentCost;
+    limit: number; // 0 means no budget configured
+    action: BudgetAction;
+    exceeded: boolean;
+}
+
+export class BudgetService {
+    constructor(private readonly settings: IBudgetSettings) { }
+
+    /**
+     * Measure each file and the combined bundle against the configured budget
+     */
+    evaluate(files: CopiedFile[], bundle: string): BudgetStatus {
+        const limit = Math.max(0, this.settings.getTokenBudget() || 0);
+        const total = TokenUtils.measure(bundle);
+
+        return {
+            files: files.map(file => ({ file, cost: TokenUtils.measure(file.content) })),
+            total,
+            limit,
+            action: this.settings.getBudgetAction(),
+            exceeded: limit > 0 && total.tokens > limit
+        };
+    }
+
+    /**
+     * Adding content is refused only when it grows an over-budget bundle,
+     * so removing files from an oversized stack is always allowed
+     */
+    shouldRefuse(current: BudgetStatus, projected: BudgetStatus): boolean {
+        return projected.action === 'refuse' &&
+            projected.exceeded &&
+            projected.total.tokens > current.total.tokens;
+    }
+
+    /**
+     * Files sorted by estimated tokens, most expensive first
+     */
+    getFilesByCost(status: BudgetStatus): CopiedFileCost[] {
+        return [...status.files].sort((a, b) => b.cost.tokens - a.cost.tokens);
+    }
+
+    formatCost(cost: ContentCost): string {
+        return `~${TokenUtils.formatCount(cost.tokens)} tokens · ${cost.lines} lines · ${TokenUtils.formatBytes(cost.bytes)}`;
+    }
+}
@@ -0,0 +1,403 @@
+/**
+ * FILE: src/domain/clipboard/services/BundleParsers.ts
+ *
+ * BUNDLE PARSERS - Built-in parsers for file bundles found on the clipboard
+ *
+ * - xml: <file path="..."> blocks of the XML template
+ * - json: one-line objects of the JSON template
+ * - plain: "File: / Path:" blocks of the plain template and of older folder copies
+ * - markdown: "path:" headers followed by a code fence, as written by the Markdown template
+ * - fence-title: fences naming their file in the info string, e.g. ```ts title="src/a.ts"
+ * - fence-comment: fences starting with a comment such as "// File: src/a.ts" or "# app.py"
+ * - diff: unified diffs ("diff --git", "---/+++" headers and "@@" hunks), one block per changed file
+ */
+
+import { BundleParser, ParsedBlock } from '../entities/BundleParser';
+import { DiffService } from './DiffService';
+
+interface Fence {
+    info: string;
+
+    /**
+     * Index of the opening fence line
+     */
+    line: number;
+
+    lines: string[];
+    start: number;
+    end: number;
+}
+
+// File names that are commonly written without an extension
+const KNOWN_FILE_NAMES = /^(?:Makefile|Dockerfile|Containerfile|Jenkinsfile|Procfile|Gemfile|Rakefile|Vagrantfile|README|LICENSE|CHANGELOG)$/i;
+
+// A trailing line range such as ":10-20" or ":1-5,9-12"
+const RANGE_SUFFIX = /:(\d+-\d+(?:,\d+-\d+)*)$/;
+
+// Lines of the list and table diagnostics formats: "1. message | 3:5 | source | content", their
+// related and context lines, table rows and the "Outside selection: ..." summary
+const DIAGNOSTIC_ENTRY = /^\d+\. .* \| \d+(?::\d+)?(?:-\d+(?::\d+)?)?(?: \| .*)?$/;
+const DIAGNOSTIC_TABLE_HEADER = /^\| # \| Severity \| Line \| Message \|/;
+const DIAGNOSTIC_SUMMARY = /^Outside selection: /;
+const DIAGNOSTIC_LINE = /^(?:\d+\. .* \| .*|   related: .*|   \d+: .*|\|.*\||Outside selection: .*|)$/;
+
+/**
+ * Whether a header looks like a file path rather than prose, e.g. "src/a.ts" but not "Example"
+ */
+export function looksLikePath(candidate: string): boolean {
+    const filePath = candidate.trim().replace(RANGE_SUFFIX, '');
+    if (!filePath || filePath.length > 260 || filePath.includes('://') || /^[!<>|"'`]/.test(filePath)) {
+        return false;
+    }
+
+    const hasSeparator = /[\\/]/.test(filePath);
+    const name = filePath.split(/[\\/]/).pop() || '';
+    const hasExtension = /\.[A-Za-z0-9_-]+$/.test(name);
+
+    // Paths with spaces are accepted only when they are unmistakably paths
+    if (/\s/.test(filePath)) {
+        return hasSeparator && hasExtension;
+    }
+
+    return hasExtension || hasSeparator || KNOWN_FILE_NAMES.test(name);
+}
+
+/**
+ * Remove "[function a]" symbol and "(line numbers, 3 context lines)" option suffixes from a path header
+ */
+function parseHeaderOptions(header: string): { path: string; numbered: boolean } {
+    const match = header.match(/^(.+?)(?: \[[^[\]\n]*\])?(?: \(([^()\n]*)\))?$/);
+    if (!match) {
+        return { path: header.trim(), numbered: false };
+    }
+
+    return { path: match[1].trim(), numbered: hasLineNumbers(match[2]) };
+}
+
+/**
+ * Whether an options description such as "line numbers, 3 context lines" includes line numbers
+ */
+function hasLineNumbers(options: unknown): boolean {
+    return typeof options === 'string' && options.split(',').some(option => option.trim() === 'line numbers');
+}
+
+/**
+ * Undo the "  42 | " prefixes added by the line numbers option
+ */
+function stripLineNumbers(content: string): string {
+    return content
+        .split('\n')
+        .map(line => line.replace(/^ *\d+ \| ?/, ''))
+        .join('\n');
+}
+
+/**
+ * Remove the diagnostics that the Markdown and plain templates append to the content after a blank line
+ */
+function stripDiagnostics(content: string): string {
+    const lines = content.split('\n');
+
+    // The JSON format is a pretty-printed object starting on a line of its own
+    const json = lines.lastIndexOf('{');
+    if (json > 0 && lines[json - 1] === '' && isDiagnosticReport(lines.slice(json).join('\n'))) {
+        return lines.slice(0, json - 1).join('\n');
+    }
+
+    // The list and table formats: the trailing run of diagnostic lines, from its first entry after a blank line
+    let start = lines.length;
+    while (start > 0 && DIAGNOSTIC_LINE.test(lines[start - 1])) {
+        start--;
+    }
+
+    for (let index = Math.max(start, 1); index < lines.length; index++) {
+        const first = lines[index];
+        if (lines[index - 1] === '' && (DIAGNOSTIC_ENTRY.test(first) || DIAGNOSTIC_TABLE_HEADER.test(first) || DIAGNOSTIC_SUMMARY.test(first))) {
+            return lines.slice(0, index - 1).join('\n');
+        }
+    }
+
+    return content;
+}
+
+function isDiagnosticReport(text: string): boolean {
+    try {
+        return Array.isArray(JSON.parse(text).entries);
+    } catch {
+        return false;
+    }
+}
+
+function unescapeXml(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+function lineOffsets(lines: string[]): number[] {
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+        offsets.push(offset);
+        offset += line.length + 1;
+    }
+    return offsets;
+}
+
+/**
+ * Find all fenced code blocks; a fence is closed by a line of at least as many of the same character
+ */
+function findFences(text: string): Fence[] {
+    const lines = text.split('\n');
+    const offsets = lineOffsets(lines);
+    const fences: Fence[] = [];
+    let open: { marker: string; info: string; line: number } | undefined;
+
+    lines.forEach((line, index) => {
+        if (!open) {
+            const match = line.match(/^ {0,3}(`{3,}|~{3,})\s*([^`\n]*?)\s*$/);
+            if (match) {
+                open = { marker: match[1], info: match[2], line: index };
+            }
+            return;
+        }
+
+        const closing = new RegExp(`^ {0,3}${open.marker[0] === '`' ? '`' : '~'}{${open.marker.length},}\\s*$`);
+        if (closing.test(line)) {
+            fences.push({
+                info: open.info,
+                line: open.line,
+                lines: lines.slice(open.line + 1, index),
+                start: offsets[open.line],
+                end: offsets[index] + line.length
+            });
+            open = undefined;
+        }
+    });
+
+    return fences;
+}
+
+/**
+ * Line that precedes a fence, with its offset
+ */
+function lineBefore(text: string, fence: Fence): { text: string; start: number } | undefined {
+    if (fence.line === 0) {
+        return undefined;
+    }
+
+    const end = fence.start - 1;
+    const start = text.lastIndexOf('\n', end - 1) + 1;
+    return { text: text.slice(start, end), start };
+}
+
+const xmlParser: BundleParser = {
+    id: 'xml',
+    parse(text) {
+        const blocks: ParsedBlock[] = [];
+        const pattern = /<file\s+([^>]*?)>\n?([\s\S]*?)\n?<\/file>/g;
+
+        for (const match of text.matchAll(pattern)) {
+            const attributes = new Map<string, string>();
+            for (const attribute of match[1].matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g)) {
+                attributes.set(attribute[1], unescapeXml(attribute[2]));
+            }
+
+            const filePath = attributes.get('path');
+            if (!filePath) {
+                continue;
+            }
+
+            const lines = attributes.get('lines');
+            const content = match[2].replace(/\n?<diagnostics>[\s\S]*<\/diagnostics>\s*$/, '');
+            const numbered = hasLineNumbers(attributes.get('options'));
+            blocks.push({
+                filePath: lines ? `${filePath}:${lines}` : filePath,
+                content: numbered ? stripLineNumbers(content) : content,
+                start: match.index!,
+                end: match.index! + match[0].length
+            });
+        }
+
+        return blocks;
+    }
+};
+
+const jsonParser: BundleParser = {
+    id: 'json',
+    parse(text) {
+        const blocks: ParsedBlock[] = [];
+
+        for (const match of text.matchAll(/^\{\s*"path"\s*:.*\}[ \t]*$/gm)) {
+            try {
+                const value = JSON.parse(match[0]);
+                if (typeof value.path !== 'string' || typeof value.content !== 'string') {
+                    continue;
+                }
+
+                blocks.push({
+                    filePath: value.range ? `${value.path}:${value.range}` : value.path,
+                    content: hasLineNumbers(value.options) ? stripLineNumbers(value.content) : value.content,
+                    start: match.index!,
+                    end: match.index! + match[0].length
+                });
+            } catch {
+                // Not one of our objects
+            }
+        }
+
+        return blocks;
+    }
+};
+
+const plainParser: BundleParser = {
+    id: 'plain',
+    parse(text) {
+        const blocks: ParsedBlock[] = [];
+        const headers = [...text.matchAll(/^File: [^\n]*\nPath: ([^\n]+)\n─{3,}\n/gm)];
+
+        headers.forEach((header, index) => {
+            const contentStart = header.index! + header[0].length;
+            const limit = index + 1 < headers.length ? headers[index + 1].index! : text.length;
+            const rest = text.slice(contentStart, limit);
+
+            // Blocks end at the separator between files, or at the "=====" lines of older folder copies
+            const boundary = rest.search(/\n\n---\n\n|\n*\n={10,}(?:\n|$)/);
+            const block = (boundary >= 0 ? rest.slice(0, boundary) : rest).replace(/\n+$/, '');
+            const content = stripDiagnostics(block);
+            const { path, numbered } = parseHeaderOptions(header[1]);
+
+            blocks.push({
+                filePath: path,
+                content: numbered ? stripLineNumbers(content) : content,
+                start: header.index!,
+                end: contentStart + block.length
+            });
+        });
+
+        return blocks;
+    }
+};
+
+const markdownParser: BundleParser = {
+    id: 'markdown',
+    parse(text) {
+        const blocks: ParsedBlock[] = [];
+
+        for (const fence of findFences(text)) {
+            const header = lineBefore(text, fence);
+            const match = header?.text.match(/^(.+):\s*$/);
+            if (!header || !match) {
+                continue;
+            }
+
+            const { path, numbered } = parseHeaderOptions(match[1]);
+            if (!looksLikePath(path)) {
+                continue;
+            }
+
+            const content = stripDiagnostics(fence.lines.join('\n'));
+            blocks.push({
+                filePath: path,
+                content: numbered ? stripLineNumbers(content) : content,
+                start: header.start,
+                end: fence.end
+            });
+        }
+
+        return blocks;
+    }
+};
+
+const fenceTitleParser: BundleParser = {
+    id: 'fence-title',
+    parse(text) {
+        const blocks: ParsedBlock[] = [];
+
+        for (const fence of findFences(text)) {
+            // ```ts title="src/a.ts" or ```ts:src/a.ts
+            const match = fence.info.match(/\b(?:title|file|filename|path)=(?:"([^"]+)"|'([^']+)'|(\S+))/) ||
+                fence.info.match(/^[\w+#-]+:()()(\S+)$/);
+            const filePath = match ? (match[1] || match[2] || match[3]).trim() : '';
+
+            if (filePath && looksLikePath(filePath)) {
+                blocks.push({ filePath, content: fence.lines.join('\n'), start: fence.start, end: fence.end });
+            }
+        }
+
+        return blocks;
+    }
+};
+
+const fenceCommentParser: BundleParser = {
+    id: 'fence-comment',
+    parse(text) {
+        const blocks: ParsedBlock[] = [];
+        const header = /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*(?:(?:File|Path|Filename)\s*:\s*)?(\S+?)\s*(?:\*\/|-->)?\s*$/i;
+
+        for (const fence of findFences(text)) {
+            const match = fence.lines[0]?.match(header);
+            if (!match || !looksLikePath(match[1])) {
+                continue;
+            }
+
+            blocks.push({
+                filePath: match[1],
+                content: fence.lines.slice(1).join('\n'),
+                start: fence.start,
+                end: fence.end
+            });
+        }
+
+        return blocks;
+    }
+};
+
+const diffService = new DiffService();
+
+const diffParser: BundleParser = {
+    id: 'diff',
+    parse(text) {
+        if (!/^(?:diff --git |--- )/m.test(text) || !/^@@ -\d/m.test(text)) {
+            return [];
+        }
+
+        const blocks: ParsedBlock[] = [];
+        let cursor = 0;
+
+        for (const file of diffService.parse(text)) {
+            const start = text.indexOf(file.text, cursor);
+            if (start < 0 || file.binary || file.hunks.length === 0) {
+                continue;
+            }
+
+            // Sections run until the next file header; prose or a closing fence after the last hunk is not part of it
+            const lines = file.text.split('\n');
+            while (lines.length > 0 && !/^[ +\-\\@]/.test(lines[lines.length - 1])) {
+                lines.pop();
+            }
+            const content = lines.join('\n');
+
+            blocks.push({ filePath: file.path, content, patch: file, start, end: start + content.length });
+            cursor = start + file.text.length;
+        }
+
+        return blocks;
+    }
+};
+
+/**
+ * Built-in parsers in priority order; when blocks overlap the earlier parser wins.
+ * Diffs come first, so that a diff copied inside a file block is applied as a patch.
+ */
+export const BUILT_IN_PARSERS: BundleParser[] = [
+    diffParser,
+    xmlParser,
+    jsonParser,
+    plainParser,
+    markdownParser,
+    fenceTitleParser,
+    fenceCommentParser
+];
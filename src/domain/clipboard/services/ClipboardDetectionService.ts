@@ -1,21 +1,41 @@
 /**
  * FILE: src/domain/clipboard/services/ClipboardDetectionService.ts
- * 
+ *
  * CLIPBOARD DETECTION SERVICE - Standardized clipboard content parsing
- * 
- * This service handles parsing clipboard content to detect file information
- * using standardized patterns and data structures.
+ *
+ * This service detects file information in clipboard content through a
+ * registry of bundle parsers, so that new formats can be added without
+ * touching the detection flow.
  */
 
-import * as path from 'path';
+import { DetectedFile } from '../entities/DetectedFile';
+import { BundleParser, DetectionOptions, ParsedBlock } from '../entities/BundleParser';
+import { BUILT_IN_PARSERS } from './BundleParsers';
+import { PathUtils } from '../../../shared/utils/PathUtils';
 
-export interface DetectedFile {
-    filePath: string;
-    content: string;
-    detectedAt: number;
+// Settings interface for clipboard detection
+export interface IClipboardDetectionSettings {
+    getDetectionOptions(): DetectionOptions;
 }
 
+// Line that older versions appended to every clipboard write
+const LEGACY_TRACKING_SIGNATURE = /\n?<(?:-=)+->\s*$/;
+
 export class ClipboardDetectionService {
+    private readonly parsers: BundleParser[] = [...BUILT_IN_PARSERS];
+
+    constructor(private readonly settings: IClipboardDetectionSettings) { }
+
+    /**
+     * Add a parser; parsers registered later lose when their blocks overlap those of earlier ones
+     */
+    registerParser(parser: BundleParser): void {
+        this.parsers.splice(0, this.parsers.length, ...this.parsers.filter(p => p.id !== parser.id), parser);
+    }
+
+    getParsers(): BundleParser[] {
+        return [...this.parsers];
+    }
 
     /**
      * Parse clipboard content and return detected files
@@ -25,90 +45,48 @@ export class ClipboardDetectionService {
             return [];
         }
 
-        // Parse multiple files separated by ---
-        const sections = text.split(/\n\s*---\s*\n/).filter(section => section.trim());
-        const detectedFiles: DetectedFile[] = [];
+        const options = this.settings.getDetectionOptions();
 
-        for (const section of sections) {
-            const file = this.parseFileSection(section.trim());
-            if (file) {
-                detectedFiles.push(file);
-            }
+        // Huge clipboards are skipped rather than parsed on the extension host
+        if (text.length > options.maxSize) {
+            return [];
         }
 
-        return detectedFiles;
+        const normalized = text.replace(/\r\n/g, '\n').replace(LEGACY_TRACKING_SIGNATURE, '');
+        const detectedAt = Date.now();
+
+        return this.collectBlocks(normalized)
+            .filter(block => block.content && !this.isIgnored(block.filePath, options.ignore))
+            .map(block => ({ filePath: block.filePath, content: block.content, patch: block.patch, detectedAt }));
     }
 
     /**
-     * Parse a single section of clipboard content to extract file information
+     * Run every parser and keep the blocks that do not overlap a block of a parser with higher priority
      */
-    private parseFileSection(section: string): DetectedFile | null {
-        // Pattern 1: FILENAME:\n```\nCONTENT\n```
-        let match = section.match(/^([^:\n]+):\s*\n```\s*\n([\s\S]*?)\n```\s*$/);
-
-        if (match) {
-            const filePath = match[1].trim();
-            const content = match[2];
-
-            if (this.isValidFilePath(filePath) && content) {
-                return {
-                    filePath,
-                    content,
-                    detectedAt: Date.now()
-                };
-            }
-        }
-
-        // Pattern 2: FILENAME:\n```language\nCONTENT\n```
-        match = section.match(/^([^:\n]+):\s*\n```\w*\s*\n([\s\S]*?)\n```\s*$/);
-
-        if (match) {
-            const filePath = match[1].trim();
-            const content = match[2];
-
-            if (this.isValidFilePath(filePath) && content) {
-                return {
-                    filePath,
-                    content,
-                    detectedAt: Date.now()
-                };
+    private collectBlocks(text: string): ParsedBlock[] {
+        const accepted: ParsedBlock[] = [];
+
+        for (const parser of this.parsers) {
+            let blocks: ParsedBlock[];
+            try {
+                blocks = parser.parse(text);
+            } catch {
+                // A broken parser must not break detection for the others
+                continue;
             }
-        }
 
-        // Pattern 3: Handle line ranges like filename.ext:1-10
-        match = section.match(/^([^:\n]+:\d+-\d+):\s*\n```\s*\n([\s\S]*?)\n```\s*$/);
-
-        if (match) {
-            const fullPath = match[1].trim();
-            const content = match[2];
-
-            if (content) {
-                return {
-                    filePath: fullPath,
-                    content,
-                    detectedAt: Date.now()
-                };
+            for (const block of blocks) {
+                if (!accepted.some(other => block.start < other.end && other.start < block.end)) {
+                    accepted.push(block);
+                }
             }
         }
 
-        return null;
+        return accepted.sort((a, b) => a.start - b.start);
     }
 
-    /**
-     * Check if a string looks like a valid file path
-     */
-    private isValidFilePath(filePath: string): boolean {
-        if (!filePath || filePath.trim().length === 0) {
-            return false;
-        }
-
-        // Remove line range if present (e.g., "file.js:1-10" -> "file.js")
-        const cleanPath = filePath.split(':')[0];
-
-        // Check if it looks like a file (has extension or common filename patterns)
-        const hasExtension = /\.[a-zA-Z0-9]+$/.test(cleanPath);
-        const isCommonFile = /^(Makefile|Dockerfile|README|LICENSE|CHANGELOG)$/i.test(path.basename(cleanPath));
-
-        return hasExtension || isCommonFile;
+    private isIgnored(filePath: string, ignore: string[]): boolean {
+        const cleanPath = filePath.replace(/:\d+-\d+(?:,\d+-\d+)*$/, '');
+        return ignore.some(glob => PathUtils.matchesGlob(cleanPath, glob));
     }
-}
\ No newline at end of file
+}
@@ -8,9 +8,17 @@
  * including copy, paste, detection, and integrity checking.
  */
 
-import { ErrorInfo } from '../../../models/models';
+import { createHash } from 'crypto';
 import { CopiedFile } from '../entities/CopiedFile';
 import { DetectedFile } from '../entities/DetectedFile';
+import { FormattedContent, TemplateContext } from '../entities/OutputTemplate';
+import { DiagnosticReport } from '../entities/DiagnosticReport';
+import { TemplateService } from './TemplateService';
+import { BudgetService, BudgetStatus } from './BudgetService';
+import { RedactionService } from './RedactionService';
+import { RedactionResult } from '../entities/Redaction';
+import { ClipboardBudgetExceededError, ClipboardSensitiveFileError } from '../../../shared/errors/ClipboardErrors';
+import { TokenUtils } from '../../../shared/utils/TokenUtils';
 // TempClipboardFile removed - no longer needed
 
 // Repository interface for clipboard data persistence
@@ -45,11 +53,16 @@ export interface IClipboardNotificationService {
 }
 
 export class ClipboardService {
-    private readonly TRACKING_SIGNATURE = '<-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=-=->';
+    // Hash of the text last written to the system clipboard, used to tell whether the clipboard still holds the stack
+    private ownedContentHash?: string;
+    private pendingWrites = 0;
 
     constructor(
         private repository: IClipboardRepository,
         private systemService: IClipboardSystemService,
+        private templateService: TemplateService,
+        private budgetService: BudgetService,
+        private redactionService: RedactionService,
         private notificationService?: IClipboardNotificationService
     ) { }
 
@@ -63,17 +76,35 @@ export class ClipboardService {
     }
 
     /**
-     * Add a file to the copied files collection
+     * Add a file to the copied files collection; returns the stored file with secrets masked
      */
-    async addCopiedFile(file: CopiedFile): Promise<void> {
-        // Remove any existing file with same basePath
-        this.repository.removeCopiedFile(file.basePath);
+    async addCopiedFile(file: CopiedFile): Promise<CopiedFile> {
+        const redacted = this.redactFile(file);
+        const current = this.repository.getCopiedFiles();
+        const index = current.findIndex(f => f.basePath === file.basePath);
+
+        // A file already in the stack is replaced in place so that merged copies keep their position
+        const projected = [...current];
+        if (index >= 0) {
+            projected[index] = redacted;
+        } else {
+            projected.push(redacted);
+        }
+        this.ensureWithinBudget(projected);
 
-        // Add the new file
-        this.repository.addCopiedFile(file);
+        this.repository.setCopiedFiles(projected);
 
         // Update system clipboard
         await this.updateSystemClipboard();
+
+        return redacted;
+    }
+
+    /**
+     * Find the copied file for a path, if any
+     */
+    getCopiedFile(basePath: string): CopiedFile | undefined {
+        return this.repository.getCopiedFiles().find(f => f.basePath === basePath);
     }
 
     /**
@@ -88,84 +119,95 @@ export class ClipboardService {
      * Replace all copied files with new collection
      */
     async setCopiedFiles(files: CopiedFile[]): Promise<void> {
-        this.repository.setCopiedFiles(files);
+        // Files already in the stack were redacted when they were added
+        const current = new Set(this.repository.getCopiedFiles());
+        const redacted = files.map(file => current.has(file) ? file : this.redactFile(file));
+
+        this.ensureWithinBudget(redacted);
+        this.repository.setCopiedFiles(redacted);
         await this.updateSystemClipboard();
     }
 
+    /**
+     * Put back a previously saved stack without writing the system clipboard, e.g. after a window reload;
+     * only done when the clipboard still holds exactly that stack
+     */
+    async restoreCopiedFiles(files: CopiedFile[]): Promise<boolean> {
+        const hash = this.hashContent(this.buildClipboardContent(files));
+        const clipboardText = await this.systemService.readClipboard();
+
+        if (this.hashContent(clipboardText) !== hash) {
+            return false;
+        }
+
+        this.repository.setCopiedFiles(files);
+        this.ownedContentHash = hash;
+        return true;
+    }
+
     /**
      * Clear all copied files
      */
     async clearCopiedFiles(): Promise<void> {
         this.repository.clearCopiedFiles();
+        this.ownedContentHash = undefined;
         await this.systemService.writeClipboard('');
         this.notificationService?.showInfo('Clipboard cleared');
     }
 
     /**
-     * Copy content of a single file with specified format
+     * Copy content of a single file rendered through the selected output template
      */
     async copyFileContent(
-        displayPath: string,
-        basePath: string,
-        content: string,
+        context: TemplateContext,
         format: 'normal' | 'error' = 'normal',
-        errorInfo?: ErrorInfo
-    ): Promise<void> {
-        const formattedContent = this.formatFileContent(displayPath, content);
-
+        templateId?: string
+    ): Promise<CopiedFile> {
+        const formatted = this.formatFileContent(context, templateId);
         const copiedFile: CopiedFile = {
-            displayPath,
-            basePath,
-            content: formattedContent,
-            format
+            displayPath: this.templateService.formatLocation(context),
+            basePath: context.path,
+            content: formatted.content,
+            format,
+            templateId,
+            redactions: formatted.redactions
         };
 
-        await this.addCopiedFile(copiedFile);
+        const stored = await this.addCopiedFile(copiedFile);
 
         const count = this.repository.getCopiedFiles().length;
-        this.notificationService?.showInfo(`Copied ${count} file${count > 1 ? 's' : ''} to clipboard`);
+        this.notificationService?.showInfo(
+            `Copied ${count} file${count > 1 ? 's' : ''} to clipboard${this.describeRedactions([stored])}`
+        );
+
+        return stored;
     }
 
     /**
      * Copy content with error information included
      */
     async copyFileContentWithErrors(
-        displayPath: string,
-        basePath: string,
-        content: string,
-        errors: Array<{
-            message: string;
-            line: number;
-            content: string;
-            severity: number;
-            index: number;
-        }>
+        context: TemplateContext,
+        report: DiagnosticReport,
+        templateId?: string
     ): Promise<void> {
-        let formattedContent: string;
-
-        if (errors.length > 0) {
-            const errorString = errors.map(err =>
-                `${err.index}. ${err.message} | ${err.line} | ${err.content}`
-            ).join('\n');
-
-            formattedContent = `${displayPath}:\n\`\`\`\n${content}\n\n${errorString}\n\`\`\``;
-        } else {
-            formattedContent = this.formatFileContent(displayPath, content);
-        }
-
+        const formatted = this.formatFileContent({ ...context, diagnostics: report }, templateId);
         const copiedFile: CopiedFile = {
-            displayPath,
-            basePath,
-            content: formattedContent,
-            format: 'error'
+            displayPath: this.templateService.formatLocation(context),
+            basePath: context.path,
+            content: formatted.content,
+            format: 'error',
+            templateId,
+            redactions: formatted.redactions
         };
 
-        await this.addCopiedFile(copiedFile);
+        const stored = await this.addCopiedFile(copiedFile);
 
         const count = this.repository.getCopiedFiles().length;
-        const errorCount = errors.length;
+        const errorCount = report.entries.length;
         this.notificationService?.showInfo(
-            `Copied ${count} file${count > 1 ? 's' : ''} with ${errorCount} error${errorCount !== 1 ? 's' : ''} to clipboard`
+            `Copied ${count} file${count > 1 ? 's' : ''} with ${errorCount} error${errorCount !== 1 ? 's' : ''} to clipboard` +
+            this.describeRedactions([stored])
         );
     }
 
@@ -192,17 +234,61 @@ export class ClipboardService {
         this.repository.clearDetectedFiles();
     }
 
+    /**
+     * Write text that is not a copied file, e.g. a permalink, with secrets masked as in copied files.
+     * Like an edited bundle it keeps the copied stack, which the next copy renders again.
+     * Returns the number of secrets masked.
+     */
+    async copyText(text: string, filePath?: string): Promise<number> {
+        if (filePath && this.redactionService.isSensitiveFile(filePath)) {
+            throw new ClipboardSensitiveFileError(filePath);
+        }
+
+        return this.writeOwned(this.redactionService.redact(text, filePath));
+    }
+
+    /**
+     * Write a hand-edited or prompt-wrapped rendering of the copied stack. The stack is kept and the clipboard stays owned,
+     * so the edit is not taken for an external change; the next copy renders the stack again.
+     * Returns the number of secrets masked.
+     */
+    async copyEditedBundle(text: string): Promise<number> {
+        return this.writeOwned(this.redactionService.redact(text));
+    }
+
+    /**
+     * Write masked text and keep the clipboard owned; returns the number of secrets masked
+     */
+    private async writeOwned(result: RedactionResult): Promise<number> {
+        this.ownedContentHash = this.hashContent(result.text);
+
+        this.pendingWrites++;
+        try {
+            await this.systemService.writeClipboard(result.text);
+        } finally {
+            this.pendingWrites--;
+        }
+
+        return result.count;
+    }
+
     // ==================== CLIPBOARD INTEGRITY ====================
 
     /**
-     * Check clipboard integrity and clear tracked files if content was modified externally
+     * Check clipboard integrity and clear tracked files if content was modified externally;
+     * clipboardText is content the caller already read
      */
-    async checkClipboardIntegrity(): Promise<boolean> {
+    async checkClipboardIntegrity(clipboardText?: string): Promise<boolean> {
+        // Our own write is in flight, the change it causes is checked next
+        if (this.pendingWrites > 0) {
+            return true;
+        }
+
         try {
-            const clipboardText = await this.systemService.readClipboard();
-            const hasSignature = clipboardText.endsWith(this.TRACKING_SIGNATURE);
+            // Text read by the caller may predate one of our writes, so a mismatch is confirmed with a fresh read
+            const owned = (clipboardText !== undefined && this.isOwnedContent(clipboardText)) || await this.ownsClipboard();
 
-            if (!hasSignature && this.repository.getCopiedFiles().length > 0) {
+            if (!owned && this.repository.getCopiedFiles().length > 0) {
                 // Content was modified externally, clear our tracking immediately
                 this.repository.clearCopiedFiles();
 
@@ -212,7 +298,7 @@ export class ClipboardService {
                 return false;
             }
 
-            return hasSignature;
+            return owned;
         } catch (error) {
             // On any error, clear the tracked files to be safe
             if (this.repository.getCopiedFiles().length > 0) {
@@ -223,17 +309,31 @@ export class ClipboardService {
     }
 
     /**
-     * Verify if clipboard content contains our tracking signature
+     * Verify if the clipboard still holds the content last written by the extension
      */
-    async hasTrackingSignature(): Promise<boolean> {
+    async ownsClipboard(): Promise<boolean> {
+        if (!this.ownedContentHash) {
+            return false;
+        }
+
         try {
-            const clipboardText = await this.systemService.readClipboard();
-            return clipboardText.endsWith(this.TRACKING_SIGNATURE);
+            return this.isOwnedContent(await this.systemService.readClipboard());
         } catch (error) {
             return false;
         }
     }
 
+    private isOwnedContent(text: string): boolean {
+        return !!this.ownedContentHash && this.hashContent(text) === this.ownedContentHash;
+    }
+
+    /**
+     * Line endings and trailing whitespace are ignored, since some platforms and clipboard managers rewrite them
+     */
+    private hashContent(text: string): string {
+        return createHash('sha256').update(text.replace(/\r\n/g, '\n').trimEnd()).digest('hex');
+    }
+
     // ==================== FOLDER OPERATIONS ====================
 
     /**
@@ -248,10 +348,25 @@ export class ClipboardService {
     // ==================== UTILITY METHODS ====================
 
     /**
-     * Format file content for clipboard
+     * Format file content for clipboard using the given or configured output template.
+     * Secrets are masked before rendering: templates such as JSON escape line breaks,
+     * which hides assignments from the line-anchored detectors.
+     */
+    formatFileContent(context: TemplateContext, templateId?: string): FormattedContent {
+        const redacted = this.redactContent(context.content, context.path);
+        return {
+            content: this.templateService.render({ ...context, content: redacted.content }, templateId),
+            redactions: redacted.redactions
+        };
+    }
+
+    /**
+     * Mask secrets in file text before line numbers or minification are applied;
+     * "12 | KEY=value" no longer matches the detectors anchored at the line start
      */
-    private formatFileContent(displayPath: string, content: string): string {
-        return `${displayPath}:\n\`\`\`\n${content}\n\`\`\``;
+    redactContent(text: string, filePath?: string): FormattedContent {
+        const result = this.redactionService.redact(text, filePath);
+        return { content: result.text, redactions: result.count };
     }
 
     /**
@@ -261,23 +376,94 @@ export class ClipboardService {
         const copiedFiles = this.repository.getCopiedFiles();
 
         if (copiedFiles.length === 0) {
+            this.ownedContentHash = undefined;
             await this.systemService.writeClipboard('');
             return;
         }
 
-        const combined = copiedFiles
+        const content = this.buildClipboardContent(copiedFiles);
+        this.ownedContentHash = this.hashContent(content);
+
+        this.pendingWrites++;
+        try {
+            await this.systemService.writeClipboard(content);
+        } finally {
+            this.pendingWrites--;
+        }
+    }
+
+    /**
+     * Combine copied file blocks into the text written to the clipboard
+     */
+    buildClipboardContent(files: CopiedFile[]): string {
+        return files
             .map(f => f.content)
             .join('\n\n---\n\n');
+    }
+
+    // ==================== REDACTION ====================
+
+    /**
+     * Whether a file must never be copied because it matches a sensitive file glob
+     */
+    isSensitiveFile(filePath: string): boolean {
+        return this.redactionService.isSensitiveFile(filePath);
+    }
 
-        const finalContent = combined + '\n' + this.TRACKING_SIGNATURE;
-        await this.systemService.writeClipboard(finalContent);
+    /**
+     * Notification suffix with the number of secrets masked in the given files
+     */
+    describeRedactions(files: CopiedFile[]): string {
+        return this.formatRedactionNotice(files.reduce((sum, file) => sum + (file.redactions || 0), 0));
+    }
+
+    /**
+     * Notice for characters removed from the given files by minification
+     */
+    describeMinification(files: CopiedFile[]): string {
+        const saved = files.reduce((sum, file) => sum + (file.minified || 0), 0);
+        return saved > 0 ? ` - ${TokenUtils.formatCount(saved)} characters saved` : '';
     }
 
     /**
-     * Get the tracking signature used to identify extension content
+     * Notice for text written with copyText or copyEditedBundle, which return the number of secrets masked
      */
-    getTrackingSignature(): string {
-        return this.TRACKING_SIGNATURE;
+    formatRedactionNotice(count: number): string {
+        return this.redactionService.formatNotice(count);
+    }
+
+    /**
+     * Refuse sensitive files and mask secrets left in the rendered block, e.g. in diagnostics
+     */
+    private redactFile(file: CopiedFile): CopiedFile {
+        if (this.redactionService.isSensitiveFile(file.basePath)) {
+            throw new ClipboardSensitiveFileError(file.basePath);
+        }
+
+        const result = this.redactionService.redact(file.content, file.basePath);
+        // Content restored from a session was masked before; keep counting those secrets
+        return { ...file, content: result.text, redactions: (file.redactions || 0) + result.count };
+    }
+
+    // ==================== BUDGET ====================
+
+    /**
+     * Get size and token estimates for the current copied stack
+     */
+    getBudgetStatus(): BudgetStatus {
+        const copiedFiles = this.repository.getCopiedFiles();
+        return this.budgetService.evaluate(copiedFiles, this.buildClipboardContent(copiedFiles));
+    }
+
+    /**
+     * Throw if the budget action is "refuse" and the new stack would grow past the limit
+     */
+    private ensureWithinBudget(files: CopiedFile[]): void {
+        const projected = this.budgetService.evaluate(files, this.buildClipboardContent(files));
+
+        if (this.budgetService.shouldRefuse(this.getBudgetStatus(), projected)) {
+            throw new ClipboardBudgetExceededError(projected.total.tokens, projected.limit);
+        }
     }
 
     /**
@@ -0,0 +1,109 @@
+/**
+ * FILE: src/domain/clipboard/services/DependencyService.ts
+ *
+ * DEPENDENCY SERVICE - Local import graph of TypeScript / JavaScript files
+ *
+ * Extracts module specifiers from import, export-from and require statements and
+ * walks the resolved files breadth-first up to the configured depth. Resolution
+ * (relative paths, tsconfig aliases, node_modules exclusion) is left to the resolver.
+ */
+
+import { SourceUtils } from '../../../shared/utils/SourceUtils';
+
+// Resolver interface for module specifiers and file access
+export interface IModuleResolver {
+    /**
+     * Absolute path of the workspace file a specifier refers to, undefined for
+     * packages, node_modules and anything outside the workspace
+     */
+    resolve(specifier: string, fromFile: string): Promise<string | undefined>;
+    readFile(filePath: string): Promise<string>;
+}
+
+// Settings interface for dependency collection
+export interface IDependencySettings {
+    getDependencyDepth(): number;
+}
+
+export interface DependencyNode {
+    filePath: string;
+    depth: number; // 0 for the entry file
+    importedBy?: string;
+}
+
+const SCRIPT_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/i;
+
+const SPECIFIER_PATTERNS: RegExp[] = [
+    // import x from 'a', import { x } from 'a', export * from 'a', import type { X } from 'a'
+    /\b(?:import|export)\b[^'";()=]*?\bfrom\s*['"]([^'"\n]+)['"]/g,
+    // import 'a'
+    /\bimport\s*['"]([^'"\n]+)['"]/g,
+    // require('a'), import('a'), import x = require('a')
+    /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g
+];
+
+export class DependencyService {
+    constructor(
+        private readonly resolver: IModuleResolver,
+        private readonly settings: IDependencySettings
+    ) { }
+
+    /**
+     * Whether a file is parsed for further imports
+     */
+    isScriptFile(filePath: string): boolean {
+        return SCRIPT_FILE.test(filePath);
+    }
+
+    /**
+     * Module specifiers referenced by the source, in order of appearance
+     */
+    parseImports(source: string): string[] {
+        const code = SourceUtils.stripCStyleComments(source);
+        const found: { index: number; specifier: string }[] = [];
+
+        for (const pattern of SPECIFIER_PATTERNS) {
+            for (const match of code.matchAll(pattern)) {
+                found.push({ index: match.index ?? 0, specifier: match[1] });
+            }
+        }
+
+        return found
+            .sort((a, b) => a.index - b.index)
+            .map(f => f.specifier)
+            .filter((specifier, i, all) => all.indexOf(specifier) === i);
+    }
+
+    /**
+     * Entry file followed by its transitive local imports, breadth-first
+     */
+    async collect(entryPath: string, maxDepth?: number): Promise<DependencyNode[]> {
+        const depthLimit = Math.max(0, maxDepth ?? this.settings.getDependencyDepth());
+        const nodes: DependencyNode[] = [{ filePath: entryPath, depth: 0 }];
+        const visited = new Set<string>([entryPath]);
+
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+            if (node.depth >= depthLimit || !this.isScriptFile(node.filePath)) {
+                continue;
+            }
+
+            let source: string;
+            try {
+                source = await this.resolver.readFile(node.filePath);
+            } catch {
+                continue;
+            }
+
+            for (const specifier of this.parseImports(source)) {
+                const resolved = await this.resolver.resolve(specifier, node.filePath);
+                if (resolved && !visited.has(resolved)) {
+                    visited.add(resolved);
+                    nodes.push({ filePath: resolved, depth: node.depth + 1, importedBy: node.filePath });
+                }
+            }
+        }
+
+        return nodes;
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * FILE: src/domain/clipboard/services/DiagnosticService.ts
+ *
+ * DIAGNOSTIC SERVICE - Options and rendering for diagnostics attached to copies
+ *
+ * Merges configured diagnostic options with per-invocation overrides and renders
+ * a DiagnosticReport as a numbered list, a Markdown table or JSON.
+ */
+
+import {
+    DiagnosticEntry,
+    DiagnosticOptions,
+    DiagnosticReport,
+    DiagnosticsFormat,
+    DiagnosticSummary,
+    DIAGNOSTIC_SEVERITIES
+} from '../entities/DiagnosticReport';
+
+// Settings interface for diagnostic collection and rendering
+export interface IDiagnosticSettings {
+    getDiagnosticOptions(): DiagnosticOptions;
+    getDiagnosticsFormat(): DiagnosticsFormat;
+}
+
+export class DiagnosticService {
+    constructor(private readonly settings: IDiagnosticSettings) { }
+
+    /**
+     * Configured options with the given overrides applied
+     */
+    resolveOptions(overrides?: Partial<DiagnosticOptions>): DiagnosticOptions {
+        const options = { ...this.settings.getDiagnosticOptions(), ...overrides };
+
+        return {
+            ...options,
+            severities: DIAGNOSTIC_SEVERITIES.filter(s => options.severities.includes(s)),
+            contextLines: Math.max(0, Math.floor(options.contextLines || 0))
+        };
+    }
+
+    /**
+     * Render a report in the given or configured format
+     */
+    format(report: DiagnosticReport, format?: DiagnosticsFormat): string {
+        switch (format || this.settings.getDiagnosticsFormat()) {
+            case 'table':
+                return this.formatTable(report);
+            case 'json':
+                return this.formatJson(report);
+            default:
+                return this.formatList(report);
+        }
+    }
+
+    /**
+     * Numbered list, one diagnostic per line: "1. message | line | content"
+     */
+    formatList(report: DiagnosticReport): string {
+        const lines: string[] = [];
+
+        for (const entry of report.entries) {
+            const details = [this.formatPosition(entry)];
+            const origin = this.formatOrigin(entry);
+            if (origin) {
+                details.push(origin);
+            }
+
+            lines.push(`${entry.index}. ${entry.message} | ${details.join(' | ')} | ${entry.lineContent}`);
+
+            for (const related of entry.related || []) {
+                lines.push(`   related: ${related.path}:${related.line} ${related.message}`);
+            }
+
+            for (const contextLine of entry.context || []) {
+                lines.push(`   ${contextLine.line}: ${contextLine.text}`);
+            }
+        }
+
+        return this.appendSummary(lines, report.outsideSelection);
+    }
+
+    /**
+     * Markdown table, columns depend on which details were collected
+     */
+    formatTable(report: DiagnosticReport): string {
+        const lines: string[] = [];
+
+        if (report.entries.length > 0) {
+            const hasOrigin = report.entries.some(e => e.source || e.code);
+            const hasRelated = report.entries.some(e => e.related && e.related.length > 0);
+
+            const header = ['#', 'Severity', 'Line', 'Message'];
+            if (hasOrigin) {
+                header.push('Source');
+            }
+            if (hasRelated) {
+                header.push('Related');
+            }
+
+            lines.push(`| ${header.join(' | ')} |`);
+            lines.push(`|${header.map(() => '---').join('|')}|`);
+
+            for (const entry of report.entries) {
+                const row = [
+                    String(entry.index),
+                    entry.severity,
+                    this.formatPosition(entry),
+                    entry.message
+                ];
+                if (hasOrigin) {
+                    row.push(this.formatOrigin(entry));
+                }
+                if (hasRelated) {
+                    row.push((entry.related || []).map(r => `${r.path}:${r.line}`).join(', '));
+                }
+                lines.push(`| ${row.map(cell => this.escapeCell(cell)).join(' | ')} |`);
+            }
+        }
+
+        return this.appendSummary(lines, report.outsideSelection);
+    }
+
+    formatJson(report: DiagnosticReport): string {
+        return JSON.stringify(report, null, 2);
+    }
+
+    /**
+     * One line summary such as "Outside selection: 2 errors, 1 warning"
+     */
+    formatSummary(summary?: DiagnosticSummary): string {
+        if (!summary || summary.total === 0) {
+            return '';
+        }
+
+        const parts = DIAGNOSTIC_SEVERITIES
+            .filter(severity => summary.bySeverity[severity])
+            .map(severity => {
+                const count = summary.bySeverity[severity]!;
+                return `${count} ${severity}${count !== 1 ? 's' : ''}`;
+            });
+
+        return `Outside selection: ${parts.join(', ')}`;
+    }
+
+    /**
+     * True when the report has nothing worth rendering
+     */
+    isEmpty(report: DiagnosticReport): boolean {
+        return report.entries.length === 0 && !(report.outsideSelection && report.outsideSelection.total > 0);
+    }
+
+    // ==================== HELPERS ====================
+
+    private formatPosition(entry: DiagnosticEntry): string {
+        if (entry.column === undefined) {
+            return String(entry.line);
+        }
+
+        const start = `${entry.line}:${entry.column}`;
+        if (entry.endLine === undefined || entry.endColumn === undefined) {
+            return start;
+        }
+
+        return entry.endLine === entry.line
+            ? `${start}-${entry.endColumn}`
+            : `${start}-${entry.endLine}:${entry.endColumn}`;
+    }
+
+    private formatOrigin(entry: DiagnosticEntry): string {
+        if (entry.source && entry.code) {
+            return `${entry.source}(${entry.code})`;
+        }
+        return entry.source || entry.code || '';
+    }
+
+    private appendSummary(lines: string[], summary?: DiagnosticSummary): string {
+        const summaryText = this.formatSummary(summary);
+        if (summaryText) {
+            if (lines.length > 0) {
+                lines.push('');
+            }
+            lines.push(summaryText);
+        }
+        return lines.join('\n');
+    }
+
+    private escapeCell(value: string): string {
+        return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    }
+}
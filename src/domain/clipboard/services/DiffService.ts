@@ -0,0 +1,156 @@
+/**
+ * FILE: src/domain/clipboard/services/DiffService.ts
+ *
+ * DIFF SERVICE - Unified diff parsing
+ *
+ * Splits unified diff text into per-file sections with parsed hunks, so each
+ * changed file can be copied as its own block.
+ */
+
+import { DiffHunk, FileDiff } from '../entities/FileDiff';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export class DiffService {
+
+    /**
+     * Parse a unified diff into file sections; text before the first file header is ignored
+     */
+    parse(diffText: string): FileDiff[] {
+        const lines = diffText.replace(/\r\n/g, '\n').split('\n');
+        const files: FileDiff[] = [];
+
+        let current: { lines: string[]; file: FileDiff } | undefined;
+        let hunk: DiffHunk | undefined;
+
+        const finish = () => {
+            if (current) {
+                current.file.text = current.lines.join('\n').replace(/\n+$/, '');
+                files.push(current.file);
+            }
+            current = undefined;
+            hunk = undefined;
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+
+            // Files start at "diff --git", or at "--- "/"+++ " pairs in plain unified diffs
+            const isGitHeader = line.startsWith('diff --git ');
+            const isPlainHeader = line.startsWith('--- ') && !!lines[i + 1]?.startsWith('+++ ') &&
+                (!current || (current.file.hunks.length > 0 && this.hunkIsComplete(hunk)));
+
+            if (isGitHeader || isPlainHeader) {
+                finish();
+                current = { lines: [], file: { path: '', binary: false, hunks: [], text: '' } };
+
+                const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+                if (match) {
+                    current.file.oldPath = match[1];
+                    current.file.newPath = match[2];
+                }
+            }
+
+            if (!current) {
+                continue;
+            }
+
+            current.lines.push(line);
+
+            const hunkMatch = line.match(HUNK_HEADER);
+            if (hunkMatch) {
+                hunk = {
+                    oldStart: parseInt(hunkMatch[1], 10),
+                    oldLines: hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10),
+                    newStart: parseInt(hunkMatch[3], 10),
+                    newLines: hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10),
+                    lines: []
+                };
+                current.file.hunks.push(hunk);
+            } else if (hunk && (line.startsWith('\\') || (/^[ +-]/.test(line) && !this.hunkIsComplete(hunk)))) {
+                // "\ No newline at end of file" belongs to the preceding line
+                hunk.lines.push(line);
+            } else if (hunk && line === '' && i < lines.length - 1 && !this.hunkIsComplete(hunk)) {
+                // Editors often strip the single space of empty context lines
+                hunk.lines.push(' ');
+            } else if (!hunk) {
+                this.readFileHeader(current.file, line);
+            }
+        }
+
+        finish();
+
+        for (const file of files) {
+            file.path = file.newPath || file.oldPath || '';
+        }
+
+        return files.filter(file => file.path);
+    }
+
+    /**
+     * Total added and removed lines of a file diff
+     */
+    countChanges(file: FileDiff): { additions: number; deletions: number } {
+        let additions = 0;
+        let deletions = 0;
+
+        for (const hunk of file.hunks) {
+            for (const line of hunk.lines) {
+                if (line.startsWith('+')) {
+                    additions++;
+                } else if (line.startsWith('-')) {
+                    deletions++;
+                }
+            }
+        }
+
+        return { additions, deletions };
+    }
+
+    // ==================== HELPERS ====================
+
+    private readFileHeader(file: FileDiff, line: string): void {
+        if (line.startsWith('--- ')) {
+            const oldPath = this.stripPrefix(line.slice(4));
+            file.oldPath = oldPath === '/dev/null' ? undefined : oldPath;
+        } else if (line.startsWith('+++ ')) {
+            const newPath = this.stripPrefix(line.slice(4));
+            file.newPath = newPath === '/dev/null' ? undefined : newPath;
+        } else if (line.startsWith('new file mode')) {
+            file.oldPath = undefined;
+        } else if (line.startsWith('deleted file mode')) {
+            file.newPath = undefined;
+        } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+            file.binary = true;
+        }
+    }
+
+    /**
+     * Whether a hunk already holds all the lines its header announced
+     */
+    private hunkIsComplete(hunk: DiffHunk | undefined): boolean {
+        if (!hunk) {
+            return true;
+        }
+
+        let oldCount = 0;
+        let newCount = 0;
+        for (const line of hunk.lines) {
+            if (line.startsWith('-')) {
+                oldCount++;
+            } else if (line.startsWith('+')) {
+                newCount++;
+            } else if (line.startsWith(' ')) {
+                oldCount++;
+                newCount++;
+            }
+        }
+
+        return oldCount >= hunk.oldLines && newCount >= hunk.newLines;
+    }
+
+    private stripPrefix(filePath: string): string {
+        const clean = filePath.replace(/\t.*$/, '').trim();
+        return /^[ab]\//.test(clean) ? clean.slice(2) : clean;
+    }
+}
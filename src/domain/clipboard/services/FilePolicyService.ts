@@ -0,0 +1,235 @@
+/**
+ * FILE: src/domain/clipboard/services/FilePolicyService.ts
+ *
+ * FILE POLICY SERVICE - Binary, generated and oversized files in bulk copies
+ *
+ * Classifies a file from its path and bytes, then decides whether it is copied,
+ * skipped, truncated to its first and last lines, or replaced by a summary with
+ * its size, type and hash. Binary files are checked first, then generated files
+ * (globs, "@generated" markers, minified content), then the size limit.
+ */
+
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { CopiedSegment } from '../entities/CopiedFile';
+import { FilePolicyAction, FilePolicyDecision, FilePolicyOptions, FilePolicyOutcome } from '../entities/FilePolicy';
+import { PathUtils } from '../../../shared/utils/PathUtils';
+import { TokenUtils } from '../../../shared/utils/TokenUtils';
+
+// Settings interface for the bulk copy file policy
+export interface IFilePolicySettings {
+    getFilePolicyOptions(): FilePolicyOptions;
+}
+
+// Bytes looked at for binary content, generated markers and minified lines
+const SAMPLE_SIZE = 64 * 1024;
+const BINARY_SAMPLE_SIZE = 8000;
+
+const GENERATED_MARKER = /@generated\b|\bdo not edit\b|\bauto-?generated\b|\bcode generated by\b/i;
+const GENERATED_MARKER_LINES = 5;
+
+// Minified content has few, very long lines
+const MINIFIED_MIN_SIZE = 2000;
+const MINIFIED_AVERAGE_LINE = 500;
+
+// Lines of truncated files are clipped so that a single minified line cannot fill the clipboard
+const MAX_LINE_LENGTH = 1000;
+
+const MAGIC_NUMBERS: { bytes: number[]; type: string }[] = [
+    { bytes: [0x89, 0x50, 0x4e, 0x47], type: 'PNG image' },
+    { bytes: [0xff, 0xd8, 0xff], type: 'JPEG image' },
+    { bytes: [0x47, 0x49, 0x46, 0x38], type: 'GIF image' },
+    { bytes: [0x00, 0x00, 0x01, 0x00], type: 'ICO image' },
+    { bytes: [0x25, 0x50, 0x44, 0x46], type: 'PDF document' },
+    { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'ZIP archive' },
+    { bytes: [0x1f, 0x8b], type: 'gzip archive' },
+    { bytes: [0x00, 0x61, 0x73, 0x6d], type: 'WebAssembly module' },
+    { bytes: [0x7f, 0x45, 0x4c, 0x46], type: 'ELF executable' },
+    { bytes: [0x4d, 0x5a], type: 'Windows executable' }
+];
+
+const ACTION_LABELS: Record<FilePolicyAction, string> = {
+    copy: 'copied',
+    skip: 'skipped',
+    truncate: 'truncated',
+    summary: 'summarized'
+};
+
+export class FilePolicyService {
+    constructor(private readonly settings: IFilePolicySettings) { }
+
+    /**
+     * Category of the file and what to do with it; files in no category are copied
+     */
+    evaluate(filePath: string, bytes: Uint8Array): FilePolicyDecision {
+        const options = this.settings.getFilePolicyOptions();
+
+        if (this.isBinary(bytes)) {
+            return { category: 'binary', action: options.binary === 'skip' ? 'skip' : 'summary', reason: this.describeType(filePath, bytes) };
+        }
+
+        const generated = this.findGeneratedReason(filePath, bytes, options.generatedFiles);
+        if (generated && options.generated !== 'copy') {
+            return { category: 'generated', action: options.generated, reason: generated };
+        }
+
+        if (options.maxFileSize > 0 && bytes.length > options.maxFileSize && options.oversized !== 'copy') {
+            return {
+                category: 'oversized',
+                action: options.oversized,
+                reason: `${TokenUtils.formatBytes(bytes.length)}, limit ${TokenUtils.formatBytes(options.maxFileSize)}`
+            };
+        }
+
+        return { action: 'copy' };
+    }
+
+    /**
+     * NUL bytes or many control characters near the start; UTF-16 text with a byte order mark is text
+     */
+    isBinary(bytes: Uint8Array): boolean {
+        if ((bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] === 0xfe && bytes[1] === 0xff)) {
+            return false;
+        }
+
+        const sample = bytes.subarray(0, BINARY_SAMPLE_SIZE);
+        let control = 0;
+        for (const byte of sample) {
+            if (byte === 0) {
+                return true;
+            }
+            // Tab, line breaks, form feed and escape are common in text
+            if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 12 && byte !== 13 && byte !== 27) {
+                control++;
+            }
+        }
+
+        return sample.length > 0 && control / sample.length > 0.1;
+    }
+
+    /**
+     * First and last lines of the text as segments; the omitted lines in between become an elision
+     * marker when the segments are joined. Overlong lines are clipped.
+     */
+    truncate(text: string): CopiedSegment[] {
+        const { headLines, tailLines } = this.settings.getFilePolicyOptions();
+        const lines = text.split('\n').map(line => this.clipLine(line));
+
+        if (lines.length <= headLines + tailLines) {
+            return [{ startLine: 1, endLine: lines.length, content: lines.join('\n') }];
+        }
+
+        const segments: CopiedSegment[] = [];
+        if (headLines > 0) {
+            segments.push({ startLine: 1, endLine: headLines, content: lines.slice(0, headLines).join('\n') });
+        }
+        if (tailLines > 0) {
+            segments.push({
+                startLine: lines.length - tailLines + 1,
+                endLine: lines.length,
+                content: lines.slice(-tailLines).join('\n')
+            });
+        }
+
+        // Neither head nor tail lines: keep the first line so that the block is not empty
+        return segments.length > 0 ? segments : [{ startLine: 1, endLine: 1, content: lines[0] }];
+    }
+
+    /**
+     * Metadata copied instead of the content: category, type, size and SHA-256 hash
+     */
+    summarize(filePath: string, bytes: Uint8Array, decision: FilePolicyDecision): string {
+        const type = decision.category === 'binary' ? decision.reason : this.describeType(filePath, bytes);
+        const lines = [
+            `[${decision.category || 'file'} content not copied]`,
+            `type: ${type}`,
+            `size: ${TokenUtils.formatBytes(bytes.length)}${bytes.length >= 1024 ? ` (${bytes.length} bytes)` : ''}`,
+            `sha256: ${createHash('sha256').update(bytes).digest('hex')}`
+        ];
+
+        if (decision.category && decision.category !== 'binary' && decision.reason) {
+            lines.splice(1, 0, `reason: ${decision.reason}`);
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * What happened to one file, e.g. "truncated (oversized: 1.2 MB, limit 500.0 KB)"
+     */
+    describe(decision: FilePolicyDecision): string {
+        const action = ACTION_LABELS[decision.action];
+        if (!decision.category) {
+            return action;
+        }
+        return `${action} (${decision.category}${decision.reason ? `: ${decision.reason}` : ''})`;
+    }
+
+    /**
+     * Notification suffix such as " - 2 binary summarized, 1 oversized truncated", empty when no file was affected
+     */
+    formatNotice(outcomes: FilePolicyOutcome[]): string {
+        const affected = outcomes.filter(outcome => outcome.category);
+        const counts = new Map<string, number>();
+        for (const outcome of affected) {
+            const key = `${outcome.category} ${ACTION_LABELS[outcome.action]}`;
+            counts.set(key, (counts.get(key) || 0) + 1);
+        }
+
+        if (counts.size === 0) {
+            return '';
+        }
+
+        // A few files are named, more are counted
+        if (affected.length <= 3) {
+            return ' - ' + affected
+                .map(outcome => `${path.basename(outcome.path)} ${outcome.category} ${ACTION_LABELS[outcome.action]}`)
+                .join(', ');
+        }
+
+        return ' - ' + Array.from(counts.entries())
+            .map(([key, count]) => `${count} ${key}`)
+            .join(', ');
+    }
+
+    // ==================== HELPERS ====================
+
+    private findGeneratedReason(filePath: string, bytes: Uint8Array, globs: string[]): string | undefined {
+        const glob = globs.find(g => PathUtils.matchesGlob(filePath, g));
+        if (glob) {
+            return `matches ${glob}`;
+        }
+
+        const sample = Buffer.from(bytes.buffer, bytes.byteOffset, Math.min(bytes.length, SAMPLE_SIZE)).toString('utf8');
+        const lines = sample.split('\n');
+
+        if (lines.slice(0, GENERATED_MARKER_LINES).some(line => GENERATED_MARKER.test(line))) {
+            return 'generated marker';
+        }
+        if (sample.length >= MINIFIED_MIN_SIZE && sample.length / lines.length > MINIFIED_AVERAGE_LINE) {
+            return 'minified';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Type from the magic number, else from the extension
+     */
+    private describeType(filePath: string, bytes: Uint8Array): string {
+        const magic = MAGIC_NUMBERS.find(entry => entry.bytes.every((byte, i) => bytes[i] === byte));
+        if (magic) {
+            return magic.type;
+        }
+
+        const extension = path.extname(filePath).slice(1).toLowerCase();
+        return extension ? `.${extension} file` : 'unknown type';
+    }
+
+    private clipLine(line: string): string {
+        if (line.length <= MAX_LINE_LENGTH) {
+            return line;
+        }
+        return `${line.slice(0, MAX_LINE_LENGTH)} ... (${line.length - MAX_LINE_LENGTH} characters omitted)`;
+    }
+}
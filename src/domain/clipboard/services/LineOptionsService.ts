@@ -0,0 +1,122 @@
+/**
+ * FILE: src/domain/clipboard/services/LineOptionsService.ts
+ *
+ * LINE OPTIONS SERVICE - Line numbering and header description for copied blocks
+ *
+ * Merges configured line options with per-invocation overrides, renders copied
+ * segments minified and with real line numbers, and describes the active options
+ * for block headers.
+ */
+
+import { LineOptions } from '../entities/LineOptions';
+import { MinifyResult } from '../entities/MinifyOptions';
+import { CopiedFileEntity, CopiedSegment } from '../entities/CopiedFile';
+import { MinifyService } from './MinifyService';
+
+// Settings interface for line numbers and context lines
+export interface ILineOptionSettings {
+    getLineOptions(): LineOptions;
+}
+
+export const LINE_NUMBER_SEPARATOR = ' | ';
+
+export interface RenderedContent {
+    content: string;
+
+    /**
+     * Characters removed by minification
+     */
+    saved: number;
+}
+
+export class LineOptionsService {
+    constructor(
+        private readonly settings: ILineOptionSettings,
+        private readonly minifyService: MinifyService
+    ) { }
+
+    /**
+     * Configured options with the given overrides applied; minify overrides are merged flag by flag
+     */
+    resolveOptions(overrides?: Partial<LineOptions>): LineOptions {
+        const configured = this.settings.getLineOptions();
+        const options = { ...configured, ...overrides };
+
+        return {
+            lineNumbers: !!options.lineNumbers,
+            contextLines: Math.max(0, Math.floor(Number(options.contextLines) || 0)),
+            minify: this.minifyService.normalize({ ...configured.minify, ...overrides?.minify })
+        };
+    }
+
+    /**
+     * Render segments as block content, minified and with line numbers when requested;
+     * language selects the comment syntax
+     */
+    renderSegments(segments: CopiedSegment[], options: LineOptions, language: string = ''): RenderedContent {
+        const minified = segments.map(segment =>
+            this.minifyService.minify(segment.content, language, options.minify, segment.startLine === 1)
+        );
+        const width = String(Math.max(...segments.map(s => s.endLine))).length;
+
+        return {
+            content: CopiedFileEntity.joinSegments(
+                segments.map((segment, i) => ({
+                    ...segment,
+                    content: options.lineNumbers
+                        ? this.numberLines(minified[i], segment.startLine, width)
+                        : minified[i].text
+                }))
+            ),
+            saved: minified.reduce((sum, result) => sum + result.saved, 0)
+        };
+    }
+
+    /**
+     * Render whole-file content, minified and with line numbers when requested
+     */
+    renderContent(content: string, options: LineOptions, language: string = ''): RenderedContent {
+        const minified = this.minifyService.minify(content, language, options.minify);
+        const lineCount = content.split('\n').length;
+
+        return {
+            content: options.lineNumbers ? this.numberLines(minified, 1, String(lineCount).length) : minified.text,
+            saved: minified.saved
+        };
+    }
+
+    /**
+     * Short description for the block header, e.g. "line numbers, 3 context lines"
+     */
+    describe(options: LineOptions): string {
+        const parts: string[] = [];
+
+        if (options.lineNumbers) {
+            parts.push('line numbers');
+        }
+        if (options.contextLines > 0) {
+            parts.push(`${options.contextLines} context line${options.contextLines !== 1 ? 's' : ''}`);
+        }
+
+        const minify = this.minifyService.describe(options.minify);
+        if (minify) {
+            parts.push(minify);
+        }
+
+        return parts.join(', ');
+    }
+
+    /**
+     * Lines removed by minification leave gaps in the numbering, so the numbers stay those of the source
+     */
+    private numberLines(minified: MinifyResult, firstLine: number, width: number): string {
+        if (minified.lines.length === 0) {
+            return '';
+        }
+
+        return minified.text
+            .split('\n')
+            .map((line, i) => `${String(firstLine + minified.lines[i]).padStart(width)}${LINE_NUMBER_SEPARATOR}${line}`)
+            .join('\n');
+    }
+}
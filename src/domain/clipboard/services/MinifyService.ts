@@ -0,0 +1,403 @@
+/**
+ * FILE: src/domain/clipboard/services/MinifyService.ts
+ *
+ * MINIFY SERVICE - Shrinks copied content before it is formatted
+ *
+ * Comments are found with a small scanner per language family (C-family,
+ * CSS, Python, shell) that skips string literals, JavaScript regex literals
+ * and CSS url(...) values, so that "//" inside a url or "#" inside a string
+ * survive. An unterminated block comment leaves the rest of the text as is.
+ * Lines are only ever removed, never merged, so every output line maps back
+ * to its line in the source.
+ */
+
+import { MinifyOptions, MinifyResult } from '../entities/MinifyOptions';
+
+interface CommentSyntax {
+    line: string[];
+    block?: [string, string];
+
+    /**
+     * String delimiters, longest first
+     */
+    strings: string[];
+
+    /**
+     * "#" only starts a comment at the start of a word, as in shell scripts
+     */
+    wordStart?: boolean;
+
+    /**
+     * "/" starts a regex literal where an operand is expected, as in JavaScript
+     */
+    regex?: boolean;
+
+    /**
+     * Unquoted url(...) values are literals, as in CSS preprocessors
+     */
+    urls?: boolean;
+}
+
+interface TextSpan {
+    start: number;
+    end: number;
+}
+
+const C_FAMILY: CommentSyntax = { line: ['//'], block: ['/*', '*/'], strings: ['"', '\'', '`'] };
+const JS_FAMILY: CommentSyntax = { ...C_FAMILY, regex: true };
+const SCSS: CommentSyntax = { line: ['//'], block: ['/*', '*/'], strings: ['"', '\''], urls: true };
+const CSS: CommentSyntax = { line: [], block: ['/*', '*/'], strings: ['"', '\''] };
+const PYTHON: CommentSyntax = { line: ['#'], strings: ['"""', '\'\'\'', '"', '\''] };
+const SHELL: CommentSyntax = { line: ['#'], strings: ['"', '\''], wordStart: true };
+
+// Keyed by VS Code language identifier
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+    typescript: JS_FAMILY,
+    typescriptreact: JS_FAMILY,
+    javascript: JS_FAMILY,
+    javascriptreact: JS_FAMILY,
+    jsonc: C_FAMILY,
+    c: C_FAMILY,
+    cpp: C_FAMILY,
+    csharp: C_FAMILY,
+    'objective-c': C_FAMILY,
+    'objective-cpp': C_FAMILY,
+    java: C_FAMILY,
+    kotlin: C_FAMILY,
+    scala: C_FAMILY,
+    groovy: C_FAMILY,
+    go: C_FAMILY,
+    rust: C_FAMILY,
+    swift: C_FAMILY,
+    dart: C_FAMILY,
+    php: C_FAMILY,
+    scss: SCSS,
+    less: SCSS,
+    css: CSS,
+    python: PYTHON,
+    shellscript: SHELL,
+    dockerfile: SHELL,
+    makefile: SHELL,
+    yaml: SHELL,
+    toml: SHELL,
+    ruby: SHELL,
+    perl: SHELL,
+    r: SHELL,
+    powershell: SHELL
+};
+
+const LICENSE_PATTERN = /copyright|licen[cs]e|spdx-license-identifier|\(c\)\s*\d{4}/i;
+
+// Keywords after which "/" starts a regex literal rather than a division
+const REGEX_KEYWORD = /(?:^|[^\w$])(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+
+export class MinifyService {
+
+    /**
+     * Options with out-of-range values dropped
+     */
+    normalize(options: MinifyOptions = {}): MinifyOptions {
+        const indentWidth = Math.floor(Number(options.indentWidth) || 0);
+        return {
+            stripComments: !!options.stripComments,
+            collapseBlankLines: !!options.collapseBlankLines,
+            indentWidth: indentWidth > 0 ? Math.min(indentWidth, 8) : 0,
+            stripLicenseHeader: !!options.stripLicenseHeader
+        };
+    }
+
+    isEnabled(options: MinifyOptions = {}): boolean {
+        return !!(options.stripComments || options.collapseBlankLines || options.indentWidth || options.stripLicenseHeader);
+    }
+
+    /**
+     * Apply the enabled transforms; atFileStart tells whether the text starts at line 1,
+     * where a license header can be
+     */
+    minify(text: string, language: string, options: MinifyOptions = {}, atFileStart: boolean = true): MinifyResult {
+        const lines = text.split('\n');
+        const identity = { text, lines: lines.map((_line, i) => i), saved: 0 };
+
+        if (!this.isEnabled(options)) {
+            return identity;
+        }
+
+        const syntax = COMMENT_SYNTAX[language];
+        const comments = syntax && (options.stripComments || options.stripLicenseHeader) ? this.findComments(text, syntax) : [];
+        const header = options.stripLicenseHeader && atFileStart ? this.findLicenseHeader(text, comments) : undefined;
+
+        const removed = [
+            ...(options.stripComments ? comments : []),
+            ...(header && !options.stripComments ? [header] : [])
+        ];
+        const stripped = this.removeSpans(text, removed).split('\n');
+
+        let kept: { line: number; text: string }[] = [];
+        for (const [i, original] of lines.entries()) {
+            if (stripped[i] === original) {
+                kept.push({ line: i, text: original });
+                continue;
+            }
+
+            // Lines that held nothing but a comment are dropped rather than left blank
+            const remaining = stripped[i].trimEnd();
+            if (remaining.trim() || !original.trim()) {
+                kept.push({ line: i, text: remaining });
+            }
+        }
+
+        if (header) {
+            // Blank lines that separated the header from the code go with it
+            const firstCode = kept.findIndex(entry => entry.text.trim() && !(entry.line === 0 && entry.text.startsWith('#!')));
+            const headerEnd = text.slice(0, header.end).split('\n').length - 1;
+            kept = kept.filter((entry, i) => i >= firstCode || entry.text.trim() || entry.line < headerEnd);
+        }
+
+        if (options.collapseBlankLines) {
+            kept = kept
+                .map(entry => entry.text.trim() ? entry : { ...entry, text: '' })
+                .filter((entry, i, all) => entry.text || i === 0 || all[i - 1].text);
+        }
+
+        if (options.indentWidth) {
+            kept = this.reindent(kept, options.indentWidth);
+        }
+
+        const result = kept.map(entry => entry.text).join('\n');
+        return { text: result, lines: kept.map(entry => entry.line), saved: Math.max(0, text.length - result.length) };
+    }
+
+    /**
+     * Short description for the block header, e.g. "no comments, 2-space indent"
+     */
+    describe(options: MinifyOptions = {}): string {
+        const parts: string[] = [];
+
+        if (options.stripComments) {
+            parts.push('no comments');
+        }
+        if (options.stripLicenseHeader && !options.stripComments) {
+            parts.push('no license header');
+        }
+        if (options.collapseBlankLines) {
+            parts.push('collapsed blank lines');
+        }
+        if (options.indentWidth) {
+            parts.push(`${options.indentWidth}-space indent`);
+        }
+
+        return parts.join(', ');
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * Comment spans in order; string literals are skipped so their content is never taken for a comment
+     */
+    private findComments(text: string, syntax: CommentSyntax): TextSpan[] {
+        const spans: TextSpan[] = [];
+        let i = 0;
+
+        // A shebang is not a comment
+        if (text.startsWith('#!')) {
+            i = text.indexOf('\n') < 0 ? text.length : text.indexOf('\n');
+        }
+
+        while (i < text.length) {
+            const quote = syntax.strings.find(q => text.startsWith(q, i));
+            if (quote) {
+                i = this.skipString(text, i, quote);
+                continue;
+            }
+
+            if (syntax.urls && /^url\(/i.test(text.slice(i, i + 4)) && !/[\w-]/.test(text[i - 1] || '')) {
+                i = this.skipUrl(text, i);
+                continue;
+            }
+
+            if (syntax.block && text.startsWith(syntax.block[0], i)) {
+                const close = text.indexOf(syntax.block[1], i + syntax.block[0].length);
+                // Unterminated, most likely a token the scanner does not know; stop rather than cut the rest
+                if (close < 0) {
+                    break;
+                }
+                const end = close + syntax.block[1].length;
+                spans.push({ start: i, end });
+                i = end;
+                continue;
+            }
+
+            const lineToken = syntax.line.find(token => text.startsWith(token, i));
+            if (lineToken && (!syntax.wordStart || i === 0 || /\s/.test(text[i - 1]))) {
+                const newline = text.indexOf('\n', i);
+                const end = newline < 0 ? text.length : newline;
+                spans.push({ start: i, end });
+                i = end;
+                continue;
+            }
+
+            if (syntax.regex && text[i] === '/' && this.expectsOperand(text, i)) {
+                i = this.skipRegex(text, i);
+                continue;
+            }
+
+            i++;
+        }
+
+        return spans;
+    }
+
+    /**
+     * Whether the code before index ends where an operand is expected, so that "/" opens a regex literal
+     */
+    private expectsOperand(text: string, index: number): boolean {
+        let j = index - 1;
+        while (j >= 0 && /\s/.test(text[j])) {
+            j--;
+        }
+
+        if (j < 0) {
+            return true;
+        }
+        if (/[\w$]/.test(text[j])) {
+            return REGEX_KEYWORD.test(text.slice(Math.max(0, j - 11), j + 1));
+        }
+        return !/[)\]'"`]/.test(text[j]);
+    }
+
+    /**
+     * Index after the regex literal and its flags; a "/" with no closing "/" on its line is a plain character
+     */
+    private skipRegex(text: string, start: number): number {
+        let inClass = false;
+        let i = start + 1;
+
+        while (i < text.length && text[i] !== '\n') {
+            if (text[i] === '\\') {
+                i += 2;
+                continue;
+            }
+            if (text[i] === '[') {
+                inClass = true;
+            } else if (text[i] === ']') {
+                inClass = false;
+            } else if (text[i] === '/' && !inClass) {
+                i++;
+                while (i < text.length && /[a-z]/i.test(text[i])) {
+                    i++;
+                }
+                return i;
+            }
+            i++;
+        }
+
+        return start + 1;
+    }
+
+    /**
+     * Index after the closing parenthesis of url(...), or the line break when it is left open
+     */
+    private skipUrl(text: string, start: number): number {
+        const match = /[)\n]/.exec(text.slice(start));
+        if (!match) {
+            return text.length;
+        }
+        return start + match.index + (match[0] === ')' ? 1 : 0);
+    }
+
+    /**
+     * Index after the closing quote; single line quotes end at the line break when left open
+     */
+    private skipString(text: string, start: number, quote: string): number {
+        const multiline = quote.length > 1 || quote === '`';
+        let i = start + quote.length;
+
+        while (i < text.length) {
+            if (text[i] === '\\') {
+                i += 2;
+                continue;
+            }
+            if (text.startsWith(quote, i)) {
+                return i + quote.length;
+            }
+            if (text[i] === '\n' && !multiline) {
+                return i;
+            }
+            i++;
+        }
+
+        return text.length;
+    }
+
+    /**
+     * The comments at the very top of the text, up to the first blank line, when they mention a license
+     */
+    private findLicenseHeader(text: string, comments: TextSpan[]): TextSpan | undefined {
+        const first = comments[0];
+        const shebangEnd = text.startsWith('#!') ? text.indexOf('\n') + 1 : 0;
+        if (!first || text.slice(shebangEnd, first.start).trim()) {
+            return undefined;
+        }
+
+        let end = first.end;
+        for (const comment of comments.slice(1)) {
+            const gap = text.slice(end, comment.start);
+            if (gap.trim() || gap.split('\n').length > 2) {
+                break;
+            }
+            end = comment.end;
+        }
+
+        return LICENSE_PATTERN.test(text.slice(first.start, end)) ? { start: first.start, end } : undefined;
+    }
+
+    /**
+     * Cut the spans out, keeping their line breaks so that lines stay aligned with the input
+     */
+    private removeSpans(text: string, spans: TextSpan[]): string {
+        let result = '';
+        let cursor = 0;
+
+        for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+            result += text.slice(cursor, span.start) + text.slice(span.start, span.end).replace(/[^\n]/g, '');
+            cursor = span.end;
+        }
+
+        return result + text.slice(cursor);
+    }
+
+    /**
+     * Replace each indentation level with width spaces; the level is a tab, or the smallest
+     * step between the indentation of consecutive lines. Alignment spaces below a level are kept.
+     */
+    private reindent<T extends { text: string }>(lines: T[], width: number): T[] {
+        const indents = lines
+            .filter(entry => entry.text.trim())
+            .map(entry => entry.text.match(/^[ \t]*/)![0]);
+
+        let unit = 0;
+        let previous = 0;
+        for (const indent of indents.filter(indent => !indent.includes('\t'))) {
+            const step = indent.length - previous;
+            if (step >= 2 && (unit === 0 || step < unit)) {
+                unit = step;
+            }
+            previous = indent.length;
+        }
+        unit = unit || width;
+
+        return lines.map(entry => {
+            const indent = entry.text.match(/^[ \t]*/)![0];
+            if (!indent || !entry.text.trim()) {
+                return entry;
+            }
+
+            const tabs = (indent.match(/\t/g) || []).length;
+            const spaces = indent.length - tabs;
+            const levels = tabs + Math.floor(spaces / unit);
+            const rest = spaces % unit;
+
+            return { ...entry, text: ' '.repeat(levels * width + rest) + entry.text.slice(indent.length) };
+        });
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * FILE: src/domain/clipboard/services/PatchService.ts
+ *
+ * PATCH SERVICE - In-process application of unified diff hunks
+ *
+ * Works like "patch": each hunk is looked for near the line its header names,
+ * shifted by the hunks applied before it. A hunk that is not found may drop up
+ * to "fuzz" context lines at each end; a hunk that still does not match is
+ * rejected and reported, while the other hunks are applied.
+ */
+
+import { DiffHunk, FileDiff } from '../entities/FileDiff';
+import { HunkResult, PatchResult } from '../entities/PatchResult';
+
+// Settings interface for patch application
+export interface IPatchSettings {
+    getPatchFuzz(): number;
+}
+
+export const MAX_PATCH_FUZZ = 3;
+
+interface Placement {
+    position: number;
+    oldLines: string[];
+    newLines: string[];
+    offset: number;
+    fuzz: number;
+}
+
+export class PatchService {
+    constructor(private readonly settings: IPatchSettings) { }
+
+    /**
+     * Apply the hunks with the given indexes, all of them by default, to the lines of a file
+     */
+    apply(lines: string[], file: FileDiff, indexes?: number[]): PatchResult {
+        const fuzz = Math.min(MAX_PATCH_FUZZ, Math.max(0, Math.floor(this.settings.getPatchFuzz())));
+        const result = [...lines];
+        const hunks: HunkResult[] = [];
+
+        // Lines added minus lines removed by the hunks applied so far
+        let delta = 0;
+        // Hunks apply in order and never inside the lines written by an earlier one
+        let minIndex = 0;
+
+        file.hunks.forEach((hunk, index) => {
+            if (indexes && !indexes.includes(index)) {
+                return;
+            }
+
+            const placed = this.place(result, hunk, delta, minIndex, fuzz);
+            if ('reason' in placed) {
+                hunks.push({ index, hunk, applied: false, reason: placed.reason });
+                return;
+            }
+
+            result.splice(placed.position, placed.oldLines.length, ...placed.newLines);
+            hunks.push({ index, hunk, applied: true, offset: placed.offset, fuzz: placed.fuzz });
+
+            delta += placed.newLines.length - placed.oldLines.length;
+            minIndex = placed.position + placed.newLines.length;
+        });
+
+        return { lines: result, hunks };
+    }
+
+    /**
+     * Rejected hunks in unified diff form, each preceded by the reason, like a ".rej" file
+     */
+    renderRejects(file: FileDiff, results: HunkResult[]): string {
+        const lines = [`--- a/${file.oldPath || file.path}`, `+++ b/${file.newPath || file.path}`];
+
+        for (const result of results.filter(r => !r.applied)) {
+            const { oldStart, oldLines, newStart, newLines } = result.hunk;
+            lines.push(
+                `# Hunk #${result.index + 1} rejected: ${result.reason}`,
+                `@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`,
+                ...result.hunk.lines
+            );
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Short description of how a hunk was applied, e.g. "offset 3 lines, fuzz 1"
+     */
+    describe(result: HunkResult): string {
+        if (!result.applied) {
+            return `rejected: ${result.reason}`;
+        }
+
+        const parts: string[] = [];
+        if (result.offset) {
+            parts.push(`offset ${result.offset} line${Math.abs(result.offset) !== 1 ? 's' : ''}`);
+        }
+        if (result.fuzz) {
+            parts.push(`fuzz ${result.fuzz}`);
+        }
+        return parts.length > 0 ? parts.join(', ') : 'exact';
+    }
+
+    /**
+     * Where the hunk applies, or why it is rejected. Applied hunks are recognized before any fuzz is
+     * tried: by the lines they added anywhere nearby, or for pure deletions by the context closing
+     * over the removed lines at the expected position. Fuzz always keeps at least one context line.
+     */
+    private place(lines: string[], hunk: DiffHunk, delta: number, minIndex: number, maxFuzz: number): Placement | { reason: string } {
+        const body = hunk.lines.filter(line => !line.startsWith('\\'));
+        const adds = body.some(line => line.startsWith('+'));
+        const hasContext = body.some(line => line.startsWith(' '));
+        const leading = this.countContext(body);
+        const trailing = this.countContext([...body].reverse());
+
+        for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+            const head = Math.min(fuzz, leading);
+            const tail = Math.min(fuzz, trailing);
+            if (fuzz > 0 && head + tail === 0) {
+                break;
+            }
+
+            const trimmed = body.slice(head, body.length - tail);
+            // Without context only the removed lines are left, which may match unrelated lines
+            if (hasContext && !trimmed.some(line => line.startsWith(' '))) {
+                break;
+            }
+            const oldLines = trimmed.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+            const newLines = trimmed.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+
+            // A hunk reduced to pure additions would match anywhere
+            if (oldLines.length === 0 && body.some(line => !line.startsWith('+'))) {
+                break;
+            }
+
+            const expected = this.expectedIndex(hunk) + head + delta;
+            const position = this.findNearest(lines, oldLines, expected, minIndex);
+            if (position === undefined) {
+                if (fuzz === 0 && this.isApplied(lines, newLines, expected, adds)) {
+                    return { reason: 'already applied' };
+                }
+                continue;
+            }
+
+            // Fewer context lines can match the applied hunk itself, right before the lines it added
+            if (fuzz > 0 && adds && this.matchesAt(lines, newLines, position)) {
+                return { reason: 'already applied' };
+            }
+
+            return { position, oldLines, newLines, offset: position - expected, fuzz };
+        }
+
+        return { reason: `no match near line ${hunk.oldStart}${maxFuzz > 0 ? ` with fuzz ${maxFuzz}` : ''}` };
+    }
+
+    private isApplied(lines: string[], newLines: string[], expected: number, adds: boolean): boolean {
+        if (adds) {
+            return this.findNearest(lines, newLines, expected, 0) !== undefined;
+        }
+        // Context lines alone are too common to look for anywhere else
+        return newLines.length > 0 && expected >= 0 && this.matchesAt(lines, newLines, expected);
+    }
+
+    /**
+     * 0-based index of the first old line; hunks without old lines name the line they follow
+     */
+    private expectedIndex(hunk: DiffHunk): number {
+        return hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    }
+
+    private countContext(body: string[]): number {
+        const index = body.findIndex(line => !line.startsWith(' '));
+        return index < 0 ? body.length : index;
+    }
+
+    /**
+     * Position at or after minIndex where the block matches, closest to the expected one
+     */
+    private findNearest(lines: string[], block: string[], expected: number, minIndex: number): number | undefined {
+        const last = lines.length - block.length;
+        const start = Math.max(minIndex, Math.min(expected, last));
+
+        for (let distance = 0; start - distance >= minIndex || start + distance <= last; distance++) {
+            for (const position of distance === 0 ? [start] : [start - distance, start + distance]) {
+                if (position >= minIndex && position <= last && this.matchesAt(lines, block, position)) {
+                    return position;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    private matchesAt(lines: string[], block: string[], position: number): boolean {
+        return position + block.length <= lines.length
+            && block.every((line, i) => line.trimEnd() === lines[position + i].trimEnd());
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * FILE: src/domain/clipboard/services/PermalinkService.ts
+ *
+ * PERMALINK SERVICE - Repository web links for copied files and lines
+ *
+ * Turns a git remote url (https, ssh or scp-like) into the web url of the
+ * repository, then adds the file, revision and line anchor in the style of the
+ * host: GitHub "#L10-L20", GitLab "#L10-20", Bitbucket "#lines-10:20" and
+ * Azure DevOps "&line=10&lineEnd=21" query parameters.
+ */
+
+import { PermalinkHost, PermalinkRule, PermalinkTarget } from '../entities/Permalink';
+import { PermalinkRemoteError } from '../../../shared/errors/ClipboardErrors';
+
+// Settings interface for permalink rules
+export interface IPermalinkSettings {
+    getPermalinkRules(): PermalinkRule[];
+}
+
+interface RemoteLocation {
+    server: string; // e.g. "github.com"
+    repository: string; // e.g. "owner/repo"
+}
+
+export class PermalinkService {
+    constructor(private readonly settings: IPermalinkSettings) { }
+
+    /**
+     * Web url of the target; throws PermalinkRemoteError when the remote host is not known
+     */
+    build(target: PermalinkTarget): string {
+        const location = this.parseRemote(target.remoteUrl);
+        if (!location) {
+            throw new PermalinkRemoteError(target.remoteUrl);
+        }
+
+        const rule = this.findRule(target.remoteUrl);
+        if (rule?.url) {
+            return this.renderTemplate(rule.url, location, target);
+        }
+
+        const host = rule?.host || this.detectHost(location.server);
+        if (!host) {
+            throw new PermalinkRemoteError(target.remoteUrl);
+        }
+
+        return this.buildForHost(host, location, target);
+    }
+
+    /**
+     * "src/a.ts#L10-L20" style label for link texts and notifications
+     */
+    describe(target: PermalinkTarget): string {
+        if (!target.startLine) {
+            return target.path;
+        }
+        return target.endLine && target.endLine !== target.startLine
+            ? `${target.path}#L${target.startLine}-L${target.endLine}`
+            : `${target.path}#L${target.startLine}`;
+    }
+
+    /**
+     * Server and repository path of https, ssh:// and scp-like "git@host:owner/repo.git" remotes
+     */
+    private parseRemote(remoteUrl: string): RemoteLocation | undefined {
+        const match = remoteUrl.trim().match(/^(?:[\w+.-]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+(?=\/))?[:/](.+?)(?:\.git)?\/?$/);
+        if (!match) {
+            return undefined;
+        }
+
+        let [, server, repository] = match;
+        repository = repository.replace(/^\/+/, '');
+
+        // Azure DevOps ssh remotes: ssh.dev.azure.com:v3/org/project/repo
+        const azureSsh = server === 'ssh.dev.azure.com' && repository.match(/^v3\/([^/]+)\/([^/]+)\/([^/]+)$/);
+        if (azureSsh) {
+            return { server: 'dev.azure.com', repository: `${azureSsh[1]}/${azureSsh[2]}/_git/${azureSsh[3]}` };
+        }
+
+        return { server, repository };
+    }
+
+    private findRule(remoteUrl: string): PermalinkRule | undefined {
+        return this.settings.getPermalinkRules().find(rule => {
+            try {
+                return new RegExp(rule.match).test(remoteUrl);
+            } catch {
+                // Invalid patterns in settings never match
+                return false;
+            }
+        });
+    }
+
+    private detectHost(server: string): PermalinkHost | undefined {
+        if (/(^|\.)github\.com$/.test(server)) {
+            return 'github';
+        }
+        if (/(^|\.)gitlab\.com$/.test(server)) {
+            return 'gitlab';
+        }
+        if (/(^|\.)bitbucket\.org$/.test(server)) {
+            return 'bitbucket';
+        }
+        if (server === 'dev.azure.com' || server.endsWith('.visualstudio.com')) {
+            return 'azure';
+        }
+        return undefined;
+    }
+
+    private buildForHost(host: PermalinkHost, location: RemoteLocation, target: PermalinkTarget): string {
+        const base = `https://${location.server}/${location.repository}`;
+        const filePath = target.path.split('/').map(encodeURIComponent).join('/');
+        const revision = encodeURIComponent(target.revision);
+        const start = target.startLine;
+        const end = target.endLine ?? target.startLine;
+
+        switch (host) {
+            case 'github':
+                return `${base}/blob/${revision}/${filePath}` +
+                    (start ? (end !== start ? `#L${start}-L${end}` : `#L${start}`) : '');
+            case 'gitlab':
+                return `${base}/-/blob/${revision}/${filePath}` +
+                    (start ? (end !== start ? `#L${start}-${end}` : `#L${start}`) : '');
+            case 'bitbucket':
+                return `${base}/src/${revision}/${filePath}` +
+                    (start ? (end !== start ? `#lines-${start}:${end}` : `#lines-${start}`) : '');
+            case 'azure': {
+                const version = `${target.isCommit ? 'GC' : 'GB'}${revision}`;
+                const lines = start
+                    ? `&line=${start}&lineEnd=${end! + 1}&lineStartColumn=1&lineEndColumn=1&lineStyle=plain`
+                    : '';
+                return `${base}?path=/${filePath}&version=${version}${lines}&_a=contents`;
+            }
+        }
+    }
+
+    private renderTemplate(template: string, location: RemoteLocation, target: PermalinkTarget): string {
+        const values: Record<string, string> = {
+            server: location.server,
+            repository: location.repository,
+            revision: encodeURIComponent(target.revision),
+            path: target.path.split('/').map(encodeURIComponent).join('/'),
+            start: target.startLine ? String(target.startLine) : '',
+            end: target.startLine ? String(target.endLine ?? target.startLine) : ''
+        };
+
+        return template
+            .replace(/\{\{#lines\}\}([\s\S]*?)\{\{\/lines\}\}/g, (_, inner: string) => target.startLine ? inner : '')
+            .replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * FILE: src/domain/clipboard/services/PromptService.ts
+ *
+ * PROMPT SERVICE - Wraps the copied bundle with named prompt templates
+ *
+ * Built-in prompts are merged with the ones from settings, so that a team can
+ * share its prompts through the workspace settings. Prefix and suffix are
+ * rendered with placeholders describing the whole bundle:
+ * {{files}}, {{fileCount}}, {{language}}, {{languages}}, {{diagnosticsCount}} and {{tokens}}.
+ */
+
+import * as path from 'path';
+import { CopiedFile } from '../entities/CopiedFile';
+import { PromptTemplate } from '../entities/PromptTemplate';
+import { TemplateService } from './TemplateService';
+import { TokenUtils } from '../../../shared/utils/TokenUtils';
+
+// Settings interface for user-defined prompts
+export interface IPromptSettings {
+    getCustomPrompts(): PromptTemplate[];
+}
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+    {
+        id: 'review',
+        label: 'Review',
+        description: 'Look for bugs, edge cases and readability issues',
+        prefix: 'Review the following {{language}} code for bugs, edge cases and readability issues.\n\nFiles:\n{{files}}',
+        suffix: 'List each issue with its file, line and a suggested fix, most severe first.',
+        builtIn: true
+    },
+    {
+        id: 'tests',
+        label: 'Write Tests',
+        description: 'Unit tests for the copied code',
+        prefix: 'Write unit tests for the following {{language}} code. Cover edge cases and error paths.',
+        suffix: 'Use the test framework and conventions already used in these files where possible.',
+        builtIn: true
+    },
+    {
+        id: 'explain',
+        label: 'Explain',
+        description: 'What the code does and how the files fit together',
+        prefix: 'Explain what the following code does{{#languages}} ({{languages}}){{/languages}}, how the {{fileCount}} files relate to each other and any non-obvious behaviour.',
+        suffix: '',
+        builtIn: true
+    },
+    {
+        id: 'fix',
+        label: 'Fix Problems',
+        description: 'Fix the code, using the copied diagnostics',
+        prefix: 'Fix the problems in the following code.{{#diagnosticsCount}} It includes {{diagnosticsCount}} diagnostics reported by the editor.{{/diagnosticsCount}}',
+        suffix: 'Return the corrected code of every changed file in full.',
+        builtIn: true
+    },
+    {
+        id: 'refactor',
+        label: 'Refactor',
+        description: 'Improve structure without changing behaviour',
+        prefix: 'Refactor the following code for readability and maintainability without changing its behaviour.',
+        suffix: 'Return the refactored files and briefly explain each change.',
+        builtIn: true
+    }
+];
+
+export class PromptService {
+    constructor(
+        private readonly settings: IPromptSettings,
+        private readonly templateService: TemplateService
+    ) { }
+
+    /**
+     * Get built-in and user-defined prompts; user prompts replace built-ins with the same id
+     */
+    getPrompts(): PromptTemplate[] {
+        const prompts = new Map<string, PromptTemplate>();
+
+        for (const prompt of BUILT_IN_PROMPTS) {
+            prompts.set(prompt.id, prompt);
+        }
+
+        for (const prompt of this.settings.getCustomPrompts()) {
+            prompts.set(prompt.id, { ...prompt, builtIn: false });
+        }
+
+        return Array.from(prompts.values());
+    }
+
+    getPrompt(promptId: string): PromptTemplate | undefined {
+        return this.getPrompts().find(prompt => prompt.id === promptId);
+    }
+
+    /**
+     * Place the rendered prefix and suffix around the bundle built from the given files
+     */
+    wrap(prompt: PromptTemplate, bundle: string, files: CopiedFile[]): string {
+        const values = this.buildValues(bundle, files);
+
+        return [
+            this.templateService.renderText(prompt.prefix, values).trim(),
+            bundle,
+            this.templateService.renderText(prompt.suffix, values).trim()
+        ].filter(Boolean).join('\n\n');
+    }
+
+    // ==================== HELPERS ====================
+
+    /**
+     * Section tags such as {{#diagnosticsCount}} only render for non-empty values, so zero counts are empty
+     */
+    private buildValues(bundle: string, files: CopiedFile[]): Record<string, string> {
+        const languages = this.rankLanguages(files);
+        const diagnostics = files.reduce((sum, file) => sum + (file.diagnostics || 0), 0);
+
+        return {
+            files: files.map(file => `- ${file.displayPath}`).join('\n'),
+            fileCount: String(files.length),
+            language: languages[0] || '',
+            languages: languages.join(', '),
+            diagnosticsCount: diagnostics > 0 ? String(diagnostics) : '',
+            tokens: String(TokenUtils.estimateTokens(bundle))
+        };
+    }
+
+    /**
+     * Distinct languages, most frequent first; files restored without a language fall back to their extension
+     */
+    private rankLanguages(files: CopiedFile[]): string[] {
+        const counts = new Map<string, number>();
+
+        for (const file of files) {
+            const language = file.language || path.extname(file.basePath).slice(1).toLowerCase();
+            if (language) {
+                counts.set(language, (counts.get(language) || 0) + 1);
+            }
+        }
+
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .map(([language]) => language);
+    }
+}
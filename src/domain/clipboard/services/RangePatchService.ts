@@ -0,0 +1,252 @@
+/**
+ * FILE: src/domain/clipboard/services/RangePatchService.ts
+ *
+ * RANGE PATCH SERVICE - Line-range replacements found on the clipboard
+ *
+ * A block under a "file.ts:10-20" header replaces those lines only. Before it
+ * is placed, the lines as they were copied must still be in the file: at the
+ * copied position, or elsewhere when the file moved. Anything that cannot be
+ * placed safely is reported as a conflict instead.
+ */
+
+import { LineRange, PatchPlacement, RangePatch, RangePatchResult } from '../entities/RangePatch';
+import { CopiedSegment } from '../entities/CopiedFile';
+
+// A trailing line range such as ":10-20" or ":1-5,9-12"
+const RANGE_SUFFIX = /:(\d+-\d+(?:,\d+-\d+)*)$/;
+
+// Written between the segments of one block, see CopiedFileEntity.joinSegments
+const ELISION_MARKER = /^\.\.\. \(\d+ lines? omitted\) \.\.\.$/;
+
+// Prefix written by LineOptionsService; editors may strip the trailing space of empty lines
+const NUMBERED_LINE = /^\s*\d+ \|(?: |$)/;
+
+export class RangePatchService {
+
+    /**
+     * Split "src/a.ts:10-20,30-40" into the path and its ranges; undefined for whole-file paths
+     */
+    parseHeader(filePath: string): { path: string; ranges: LineRange[] } | undefined {
+        const match = filePath.match(RANGE_SUFFIX);
+        if (!match) {
+            return undefined;
+        }
+
+        const ranges = match[1].split(',').map(range => {
+            const [startLine, endLine] = range.split('-').map(n => parseInt(n, 10));
+            return { startLine, endLine };
+        });
+
+        const valid = ranges.every((range, i) =>
+            range.startLine >= 1 && range.endLine >= range.startLine &&
+            (i === 0 || range.startLine > ranges[i - 1].endLine)
+        );
+
+        return valid ? { path: filePath.slice(0, match.index), ranges } : undefined;
+    }
+
+    /**
+     * One patch per range, with the lines as copied taken from the copied stack when it still covers them.
+     * Undefined when the content does not split into one part per range.
+     */
+    createPatches(ranges: LineRange[], content: string, copiedSegments: CopiedSegment[] = []): RangePatch[] | undefined {
+        const parts: string[][] = [[]];
+        for (const line of content.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n')) {
+            if (ELISION_MARKER.test(line.trim())) {
+                parts.push([]);
+            } else {
+                parts[parts.length - 1].push(line);
+            }
+        }
+
+        if (parts.length !== ranges.length) {
+            return undefined;
+        }
+
+        // Blocks copied with line numbers carry them on every line
+        const numbered = parts.every(lines => lines.every(line => NUMBERED_LINE.test(line)));
+
+        return ranges.map((range, i) => ({
+            ...range,
+            content: (numbered ? parts[i].map(line => line.replace(NUMBERED_LINE, '')) : parts[i]).join('\n'),
+            original: this.findOriginal(range, copiedSegments)
+        }));
+    }
+
+    /**
+     * Find where each patch goes in the current lines of the file
+     */
+    place(lines: string[], patches: RangePatch[]): RangePatchResult {
+        const placements: PatchPlacement[] = [];
+
+        for (const patch of patches) {
+            const placement = patch.original !== undefined
+                ? this.placeByOriginal(lines, patch)
+                : this.placeByBoundaries(lines, patch);
+
+            if (!placement) {
+                return {
+                    conflict: patch.original !== undefined
+                        ? `Lines ${this.describe(patch)} no longer match what was copied`
+                        : `Lines ${this.describe(patch)} cannot be matched against the file; copy them again to apply the change`
+                };
+            }
+            placements.push(placement);
+        }
+
+        const sorted = [...placements].sort((a, b) => a.startLine - b.startLine);
+        for (let i = 1; i < sorted.length; i++) {
+            if (sorted[i].startLine <= sorted[i - 1].endLine) {
+                return { conflict: `Lines ${this.describe(sorted[i - 1].patch)} and ${this.describe(sorted[i].patch)} overlap` };
+            }
+        }
+
+        return { placements: sorted };
+    }
+
+    /**
+     * The lines of the file with every placement replaced
+     */
+    apply(lines: string[], placements: PatchPlacement[]): string[] {
+        const result = [...lines];
+
+        // From the bottom up, so that earlier line numbers stay valid
+        for (const placement of [...placements].sort((a, b) => b.startLine - a.startLine)) {
+            result.splice(
+                placement.startLine - 1,
+                placement.endLine - placement.startLine + 1,
+                ...placement.patch.content.split('\n')
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * The file with conflict markers around each range that was copied, for a side-by-side review
+     */
+    renderConflict(lines: string[], patches: RangePatch[]): string {
+        const result = [...lines];
+
+        for (const patch of [...patches].sort((a, b) => b.startLine - a.startLine)) {
+            const start = Math.min(patch.startLine, result.length + 1) - 1;
+            const end = Math.min(patch.endLine, result.length);
+
+            result.splice(
+                start,
+                Math.max(0, end - start),
+                `<<<<<<< Workspace (lines ${this.describe(patch)})`,
+                ...result.slice(start, end),
+                '=======',
+                ...patch.content.split('\n'),
+                '>>>>>>> Clipboard'
+            );
+        }
+
+        return result.join('\n');
+    }
+
+    describe(range: LineRange): string {
+        return `${range.startLine}-${range.endLine}`;
+    }
+
+    private findOriginal(range: LineRange, segments: CopiedSegment[]): string | undefined {
+        const segment = segments.find(s => s.startLine <= range.startLine && s.endLine >= range.endLine);
+        if (!segment) {
+            return undefined;
+        }
+
+        return segment.content
+            .split('\n')
+            .slice(range.startLine - segment.startLine, range.endLine - segment.startLine + 1)
+            .join('\n');
+    }
+
+    /**
+     * The lines as copied must still be in the file: at the copied position, else at the nearest
+     * place where they appear with only whitespace changes inside the range. The first and last
+     * lines must match exactly, as whole lines are replaced: a block copied from the middle of a
+     * line would otherwise drop the indentation before it.
+     */
+    private placeByOriginal(lines: string[], patch: RangePatch): PatchPlacement | undefined {
+        const original = patch.original!.split('\n');
+
+        if (this.matchesAt(lines, original, patch.startLine - 1, line => line.trimEnd())) {
+            return { patch, startLine: patch.startLine, endLine: patch.startLine + original.length - 1, exact: true };
+        }
+
+        const start = this.findNearest(
+            lines.length - original.length + 1,
+            patch.startLine - 1,
+            index => this.matchesBoundaries(lines, index, original.length, original[0], original[original.length - 1]) &&
+                this.matchesAt(lines, original, index, line => line.replace(/\s+/g, ' ').trim())
+        );
+
+        return start === undefined
+            ? undefined
+            : { patch, startLine: start + 1, endLine: start + original.length, exact: false };
+    }
+
+    /**
+     * Without the copied lines, the first and last lines of the replacement are used as anchors:
+     * edits rarely touch the lines around them. Blank anchors prove nothing, so they do not place a patch.
+     */
+    private placeByBoundaries(lines: string[], patch: RangePatch): PatchPlacement | undefined {
+        const content = patch.content.split('\n');
+        const length = patch.endLine - patch.startLine + 1;
+
+        if (!content[0].trim() || !content[content.length - 1].trim()) {
+            return undefined;
+        }
+
+        const start = this.findNearest(
+            lines.length - length + 1,
+            patch.startLine - 1,
+            index => this.matchesBoundaries(lines, index, length, content[0], content[content.length - 1])
+        );
+        return start === undefined
+            ? undefined
+            : { patch, startLine: start + 1, endLine: start + length, exact: start === patch.startLine - 1 };
+    }
+
+    /**
+     * The block of length lines at index starts and ends with the given lines, ignoring trailing whitespace only
+     */
+    private matchesBoundaries(lines: string[], index: number, length: number, first: string, last: string): boolean {
+        if (index < 0 || index + length > lines.length) {
+            return false;
+        }
+        return lines[index].trimEnd() === first.trimEnd() && lines[index + length - 1].trimEnd() === last.trimEnd();
+    }
+
+    private matchesAt(lines: string[], block: string[], index: number, normalize: (line: string) => string): boolean {
+        if (index < 0 || index + block.length > lines.length) {
+            return false;
+        }
+        return block.every((line, i) => normalize(line) === normalize(lines[index + i]));
+    }
+
+    /**
+     * Index in [0, count) closest to the expected one that matches; undefined when none does,
+     * or when two are equally close and the choice would be a guess
+     */
+    private findNearest(count: number, expected: number, matches: (index: number) => boolean): number | undefined {
+        for (let distance = 0; distance < Math.max(count, expected + 1); distance++) {
+            const before = expected - distance;
+            const after = expected + distance;
+            const beforeMatches = before >= 0 && before < count && matches(before);
+            const afterMatches = distance > 0 && after >= 0 && after < count && matches(after);
+
+            if (beforeMatches && afterMatches) {
+                return undefined;
+            }
+            if (beforeMatches) {
+                return before;
+            }
+            if (afterMatches) {
+                return after;
+            }
+        }
+        return undefined;
+    }
+}
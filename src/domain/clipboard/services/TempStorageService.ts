@@ -1,13 +1,17 @@
 /**
  * FILE: src/domain/clipboard/services/TempStorageService.ts
- * 
+ *
  * TEMPORARY STORAGE SERVICE - WORKSPACE SPECIFIC
- * 
+ *
  * Manages temporary clipboard storage that is specific to each VSCode workspace.
- * Each workspace maintains its own separate temporary storage.
+ * Each workspace maintains its own separate temporary storage, which holds the
+ * active copied stack and the named sessions saved from it.
  */
 
 import { TempClipboardFile } from '../entities/TempClipboardFile';
+import { ClipboardSession } from '../entities/ClipboardSession';
+import { CopiedFile } from '../entities/CopiedFile';
+import { ClipboardSessionExistsError, ClipboardSessionNotFoundError } from '../../../shared/errors/ClipboardErrors';
 
 export interface ITempStorageRepository {
     // Temp storage operations for current workspace
@@ -16,31 +20,39 @@ export interface ITempStorageRepository {
     addTempFile(file: TempClipboardFile): void;
     clearTempFiles(workspaceId: string): void;
 
+    // Named sessions
+    getSessions(workspaceId: string): ClipboardSession[];
+    setSessions(workspaceId: string, sessions: ClipboardSession[]): void;
+
+    // Maintenance
+    cleanupOldTempFiles(maxAge?: number): void;
+
     // Workspace management
     getCurrentWorkspaceId(): string;
 }
 
+// Settings interface for session retention
+export interface ISessionSettings {
+    /**
+     * Days after their last update that sessions are deleted, 0 to keep them forever
+     */
+    getSessionRetentionDays(): number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class TempStorageService {
     constructor(
-        private repository: ITempStorageRepository
+        private repository: ITempStorageRepository,
+        private settings: ISessionSettings
     ) { }
 
     /**
      * Save current copied files to temporary storage for current workspace
      */
-    async saveToTempStorage(copiedFiles: any[]): Promise<void> {
+    async saveToTempStorage(copiedFiles: CopiedFile[]): Promise<void> {
         const workspaceId = this.repository.getCurrentWorkspaceId();
-
-        const tempFiles: TempClipboardFile[] = copiedFiles.map(file => ({
-            displayPath: file.displayPath,
-            basePath: file.basePath,
-            content: file.content,
-            format: file.format,
-            workspaceId: workspaceId,
-            savedAt: Date.now()
-        }));
-
-        this.repository.setTempFiles(workspaceId, tempFiles);
+        this.repository.setTempFiles(workspaceId, this.toTempFiles(copiedFiles, workspaceId));
     }
 
     /**
@@ -78,4 +90,117 @@ export class TempStorageService {
             workspaceId: workspaceId
         };
     }
-}
\ No newline at end of file
+
+    // ==================== SESSIONS ====================
+
+    /**
+     * Sessions of the current workspace, most recently updated first
+     */
+    getSessions(): ClipboardSession[] {
+        const workspaceId = this.repository.getCurrentWorkspaceId();
+        return this.repository.getSessions(workspaceId).sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    getSession(name: string): ClipboardSession | undefined {
+        return this.getSessions().find(session => session.name === name);
+    }
+
+    /**
+     * Save copied files under a name, replacing the files of an existing session with that name
+     */
+    async saveSession(name: string, copiedFiles: CopiedFile[]): Promise<ClipboardSession> {
+        const workspaceId = this.repository.getCurrentWorkspaceId();
+        const sessions = this.repository.getSessions(workspaceId);
+        const existing = sessions.find(session => session.name === name);
+        const now = Date.now();
+
+        const session: ClipboardSession = {
+            name,
+            workspaceId,
+            files: this.toTempFiles(copiedFiles, workspaceId),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+
+        this.repository.setSessions(workspaceId, [...sessions.filter(s => s !== existing), session]);
+        return session;
+    }
+
+    async renameSession(name: string, newName: string): Promise<void> {
+        const workspaceId = this.repository.getCurrentWorkspaceId();
+        const sessions = this.repository.getSessions(workspaceId);
+
+        if (!sessions.some(session => session.name === name)) {
+            throw new ClipboardSessionNotFoundError(name);
+        }
+        if (name !== newName && sessions.some(session => session.name === newName)) {
+            throw new ClipboardSessionExistsError(newName);
+        }
+
+        this.repository.setSessions(workspaceId, sessions.map(session =>
+            session.name === name ? { ...session, name: newName } : session
+        ));
+    }
+
+    async deleteSession(name: string): Promise<void> {
+        const workspaceId = this.repository.getCurrentWorkspaceId();
+        const sessions = this.repository.getSessions(workspaceId);
+
+        if (!sessions.some(session => session.name === name)) {
+            throw new ClipboardSessionNotFoundError(name);
+        }
+
+        this.repository.setSessions(workspaceId, sessions.filter(session => session.name !== name));
+    }
+
+    /**
+     * Delete sessions and stored stacks older than the configured retention period
+     */
+    applyRetentionPolicy(): void {
+        const days = this.settings.getSessionRetentionDays();
+        if (days > 0) {
+            this.repository.cleanupOldTempFiles(days * DAY_MS);
+        }
+    }
+
+    /**
+     * Convert stored files back to copied files
+     */
+    toCopiedFiles(tempFiles: TempClipboardFile[]): CopiedFile[] {
+        return tempFiles.map(tempFile => ({
+            displayPath: tempFile.displayPath,
+            basePath: tempFile.basePath,
+            content: tempFile.content,
+            format: tempFile.format,
+            templateId: tempFile.templateId,
+            segments: tempFile.segments,
+            redactions: tempFile.redactions,
+            minified: tempFile.minified,
+            policy: tempFile.policy,
+            language: tempFile.language,
+            diagnostics: tempFile.diagnostics,
+            source: tempFile.source
+        }));
+    }
+
+    private toTempFiles(copiedFiles: CopiedFile[], workspaceId: string): TempClipboardFile[] {
+        const savedAt = Date.now();
+
+        return copiedFiles.map(file => ({
+            displayPath: file.displayPath,
+            basePath: file.basePath,
+            content: file.content,
+            format: file.format,
+            workspaceId,
+            savedAt,
+            templateId: file.templateId,
+            segments: file.segments,
+            redactions: file.redactions,
+            minified: file.minified,
+            policy: file.policy,
+            language: file.language,
+            diagnostics: file.diagnostics,
+            source: file.source
+        }));
+    }
+}
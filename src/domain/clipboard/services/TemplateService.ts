@@ -0,0 +1,220 @@
+/**
+ * FILE: src/domain/clipboard/services/TemplateService.ts
+ *
+ * TEMPLATE SERVICE - Renders copied file blocks through output templates
+ *
+ * Every copy command formats its file blocks here so that the layout written
+ * to the clipboard is consistent and can be switched by setting or per invocation.
+ */
+
+import * as path from 'path';
+import { OutputTemplate, TemplateContext } from '../entities/OutputTemplate';
+import { DiagnosticService } from './DiagnosticService';
+import { Logger } from '../../../utils/common/logger';
+
+// Settings interface for template selection and user-defined templates
+export interface ITemplateSettings {
+    getDefaultTemplateId(): string;
+    getCustomTemplates(): OutputTemplate[];
+}
+
+export const DEFAULT_TEMPLATE_ID = 'markdown';
+
+// Structured values keep their raw data so that {{key|json}} can serialize it
+type TemplateValue = string | { text: string; data: unknown };
+
+export const BUILT_IN_TEMPLATES: OutputTemplate[] = [
+    {
+        id: 'markdown',
+        label: 'Markdown',
+        description: 'Path header followed by a fenced code block with language tag',
+        body: '{{location}}{{#symbols}} [{{symbols}}]{{/symbols}}{{#options}} ({{options}}){{/options}}:\n{{fence}}{{language}}\n{{content}}{{#diagnostics}}\n\n{{diagnostics}}{{/diagnostics}}\n{{fence}}',
+        builtIn: true
+    },
+    {
+        id: 'xml',
+        label: 'XML',
+        description: '<file path="..."> blocks, suited for LLM prompts',
+        body: '<file path="{{path|xml}}"{{#range}} lines="{{range|xml}}"{{/range}}{{#language}} language="{{language|xml}}"{{/language}}{{#symbols}} symbols="{{symbols|xml}}"{{/symbols}}{{#options}} options="{{options|xml}}"{{/options}}>\n{{content}}\n{{#diagnostics}}<diagnostics>\n{{diagnostics}}\n</diagnostics>\n{{/diagnostics}}</file>',
+        builtIn: true
+    },
+    {
+        id: 'plain',
+        label: 'Plain Text',
+        description: 'File name and path headers without markup',
+        body: 'File: {{name}}\nPath: {{location}}{{#symbols}} [{{symbols}}]{{/symbols}}{{#options}} ({{options}}){{/options}}\n{{separator}}\n{{content}}{{#diagnostics}}\n\n{{diagnostics}}{{/diagnostics}}',
+        builtIn: true
+    },
+    {
+        id: 'json',
+        label: 'JSON',
+        description: 'One JSON object per file',
+        body: '{"path": {{path|json}}, "range": {{range|json}}, "language": {{language|json}}, "symbols": {{symbols|json}}, "options": {{options|json}}, "content": {{content|json}}, "diagnostics": {{diagnostics|json}}}',
+        builtIn: true
+    }
+];
+
+export class TemplateService {
+    constructor(
+        private readonly settings: ITemplateSettings,
+        private readonly diagnosticService: DiagnosticService
+    ) { }
+
+    /**
+     * Get built-in and user-defined templates; user templates replace built-ins with the same id
+     */
+    getTemplates(): OutputTemplate[] {
+        const templates = new Map<string, OutputTemplate>();
+
+        for (const template of BUILT_IN_TEMPLATES) {
+            templates.set(template.id, template);
+        }
+
+        for (const template of this.settings.getCustomTemplates()) {
+            if (template.id && typeof template.body === 'string') {
+                templates.set(template.id, { ...template, builtIn: false });
+            }
+        }
+
+        return Array.from(templates.values());
+    }
+
+    /**
+     * Resolve a template by id, falling back to the configured default
+     */
+    getTemplate(templateId?: string): OutputTemplate {
+        const templates = this.getTemplates();
+        const requestedId = templateId || this.settings.getDefaultTemplateId();
+
+        const template = templates.find(t => t.id === requestedId);
+        if (template) {
+            return template;
+        }
+
+        Logger.warn(`Unknown output template "${requestedId}", using "${DEFAULT_TEMPLATE_ID}"`);
+        return templates.find(t => t.id === DEFAULT_TEMPLATE_ID)!;
+    }
+
+    /**
+     * Render a single file block
+     */
+    render(context: TemplateContext, templateId?: string): string {
+        const template = this.getTemplate(templateId);
+        return this.renderTemplate(template.body, this.buildValues(context));
+    }
+
+    /**
+     * Build the location string used as display path, e.g. "src/a.ts:10-20"
+     */
+    formatLocation(context: Pick<TemplateContext, 'path' | 'range'>): string {
+        return context.range ? `${context.path}:${context.range}` : context.path;
+    }
+
+    /**
+     * Render text outside of a file block with the same placeholder syntax, e.g. a prompt prefix
+     */
+    renderText(body: string, values: Record<string, string>): string {
+        return this.renderTemplate(body, values);
+    }
+
+    // ==================== RENDERING ====================
+
+    private buildValues(context: TemplateContext): Record<string, TemplateValue> {
+        return {
+            path: context.path,
+            range: context.range || '',
+            location: this.formatLocation(context),
+            name: path.basename(context.path),
+            language: context.language || '',
+            symbols: context.symbols || '',
+            options: context.options || '',
+            content: context.content,
+            ...this.buildDiagnosticValues(context.diagnostics),
+            fence: this.createFence(context.content),
+            separator: '─'.repeat(30)
+        };
+    }
+
+    /**
+     * {{diagnostics}} uses the configured format; the other keys force a specific layout
+     */
+    private buildDiagnosticValues(diagnostics: TemplateContext['diagnostics']): Record<string, TemplateValue> {
+        if (!diagnostics || typeof diagnostics === 'string') {
+            const text = diagnostics || '';
+            return {
+                diagnostics: text,
+                diagnosticsList: text,
+                diagnosticsTable: '',
+                diagnosticsJson: '',
+                diagnosticsSummary: '',
+                diagnosticsCount: ''
+            };
+        }
+
+        if (this.diagnosticService.isEmpty(diagnostics)) {
+            return {
+                diagnostics: { text: '', data: diagnostics },
+                diagnosticsList: '',
+                diagnosticsTable: '',
+                diagnosticsJson: '',
+                diagnosticsSummary: '',
+                diagnosticsCount: '0'
+            };
+        }
+
+        return {
+            diagnostics: { text: this.diagnosticService.format(diagnostics), data: diagnostics },
+            diagnosticsList: this.diagnosticService.formatList(diagnostics),
+            diagnosticsTable: this.diagnosticService.formatTable(diagnostics),
+            diagnosticsJson: this.diagnosticService.formatJson(diagnostics),
+            diagnosticsSummary: this.diagnosticService.formatSummary(diagnostics.outsideSelection),
+            diagnosticsCount: String(diagnostics.entries.length)
+        };
+    }
+
+    private renderTemplate(body: string, values: Record<string, TemplateValue>): string {
+        // Sections first, so that substituted values are never re-scanned for tags
+        const withSections = body.replace(
+            /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+            (_match, key: string, inner: string) => key in values && this.textOf(values[key]) ? inner : ''
+        );
+
+        return withSections.replace(
+            /\{\{(\w+)(?:\|(\w+))?\}\}/g,
+            (match, key: string, filter?: string) => {
+                if (!(key in values)) {
+                    return match;
+                }
+                return this.applyFilter(values[key], filter);
+            }
+        );
+    }
+
+    private textOf(value: TemplateValue): string {
+        return typeof value === 'string' ? value : value.text;
+    }
+
+    private applyFilter(value: TemplateValue, filter?: string): string {
+        switch (filter) {
+            case 'json':
+                return JSON.stringify(typeof value === 'string' ? value : value.data);
+            case 'xml':
+                return this.textOf(value)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            default:
+                return this.textOf(value);
+        }
+    }
+
+    /**
+     * Use a fence longer than any backtick run inside the content
+     */
+    createFence(content: string): string {
+        const runs = content.match(/`{3,}/g) || [];
+        const longest = runs.reduce((max, run) => Math.max(max, run.length), 0);
+        return '`'.repeat(Math.max(3, longest + 1));
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * FILE: src/domain/clipboard/services/TreeStructureService.ts
+ *
+ * TREE STRUCTURE SERVICE - Text rendering of file trees
+ *
+ * Renders FileNode trees, as built by TreeService, as an ASCII tree or a
+ * Markdown list, optionally with file sizes and line counts, followed by a
+ * "3 directories, 12 files" summary.
+ */
+
+import { FileNode } from '../../folder/entities/FileNode';
+import { TreeFileStats, TreeStructureOptions } from '../entities/TreeStructure';
+import { TokenUtils } from '../../../shared/utils/TokenUtils';
+
+// Settings interface for tree structure copies
+export interface ITreeStructureSettings {
+    getTreeStructureOptions(): TreeStructureOptions;
+
+    /**
+     * Whether folder content copies start with the tree of the folder
+     */
+    getTreeHeader(): boolean;
+}
+
+export class TreeStructureService {
+    constructor(private readonly settings: ITreeStructureSettings) { }
+
+    /**
+     * Configured options with the given overrides applied
+     */
+    resolveOptions(overrides?: Partial<TreeStructureOptions>): TreeStructureOptions {
+        const options = { ...this.settings.getTreeStructureOptions(), ...overrides };
+        return {
+            style: options.style === 'markdown' ? 'markdown' : 'ascii',
+            sizes: !!options.sizes,
+            lineCounts: !!options.lineCounts
+        };
+    }
+
+    isHeaderEnabled(override?: boolean): boolean {
+        return override ?? this.settings.getTreeHeader();
+    }
+
+    /**
+     * Render the nodes under a root line; stats are keyed by node path
+     */
+    render(rootName: string, nodes: FileNode[], options: TreeStructureOptions, stats?: Map<string, TreeFileStats>): string {
+        const lines = options.style === 'markdown'
+            ? [`- ${rootName}`, ...this.renderMarkdown(nodes, options, stats, 1)]
+            : [rootName, ...this.renderAscii(nodes, options, stats, '')];
+
+        return [...lines, '', this.summarize(nodes, options, stats)].join('\n');
+    }
+
+    /**
+     * Summary line such as "3 directories, 12 files, 48.2 KB, 1520 lines"
+     */
+    summarize(nodes: FileNode[], options: TreeStructureOptions, stats?: Map<string, TreeFileStats>): string {
+        const files = nodes.flatMap(node => node.getAllFiles());
+        const directories = nodes.reduce((sum, node) => sum + this.countDirectories(node), 0);
+        const parts = [
+            `${directories} director${directories !== 1 ? 'ies' : 'y'}`,
+            `${files.length} file${files.length !== 1 ? 's' : ''}`
+        ];
+
+        if (options.sizes && stats) {
+            parts.push(TokenUtils.formatBytes(files.reduce((sum, file) => sum + (stats.get(file.path)?.size || 0), 0)));
+        }
+        if (options.lineCounts && stats) {
+            parts.push(`${files.reduce((sum, file) => sum + (stats.get(file.path)?.lines || 0), 0)} lines`);
+        }
+
+        return parts.join(', ');
+    }
+
+    // ==================== HELPERS ====================
+
+    private renderAscii(nodes: FileNode[], options: TreeStructureOptions, stats: Map<string, TreeFileStats> | undefined, prefix: string): string[] {
+        const sorted = FileNode.sortNodes([...nodes]);
+
+        return sorted.flatMap((node, i) => {
+            const last = i === sorted.length - 1;
+            const line = `${prefix}${last ? '└── ' : '├── '}${this.label(node, options, stats)}`;
+            return node.isFile
+                ? [line]
+                : [line, ...this.renderAscii(node.getChildrenArray(), options, stats, prefix + (last ? '    ' : '│   '))];
+        });
+    }
+
+    private renderMarkdown(nodes: FileNode[], options: TreeStructureOptions, stats: Map<string, TreeFileStats> | undefined, depth: number): string[] {
+        return FileNode.sortNodes([...nodes]).flatMap(node => {
+            const line = `${'  '.repeat(depth)}- ${this.label(node, options, stats)}`;
+            return node.isFile
+                ? [line]
+                : [line, ...this.renderMarkdown(node.getChildrenArray(), options, stats, depth + 1)];
+        });
+    }
+
+    /**
+     * Directories end with a slash; files get "(1.2 KB, 40 lines)" when requested and known
+     */
+    private label(node: FileNode, options: TreeStructureOptions, stats?: Map<string, TreeFileStats>): string {
+        if (node.isDirectory) {
+            return `${node.name}/`;
+        }
+
+        const fileStats = stats?.get(node.path);
+        const details = [
+            options.sizes && fileStats ? TokenUtils.formatBytes(fileStats.size) : '',
+            options.lineCounts && fileStats?.lines !== undefined ? `${fileStats.lines} line${fileStats.lines !== 1 ? 's' : ''}` : ''
+        ].filter(Boolean);
+
+        return details.length > 0 ? `${node.name} (${details.join(', ')})` : node.name;
+    }
+
+    private countDirectories(node: FileNode): number {
+        if (node.isFile) {
+            return 0;
+        }
+        return 1 + node.getChildrenArray().reduce((sum, child) => sum + this.countDirectories(child), 0);
+    }
+}
@@ -4,17 +4,20 @@ import { ServiceContainer, IFolderTreeService } from './infrastructure/di/Servic
 import { FolderProvider } from './providers/FolderProvider';
 import { registerAllCommands } from './commands';
 import { ClipboardProvider } from './providers/ClipboardProvider';
+import { CopiedStackProvider } from './providers/CopiedStackProvider';
 import { Logger } from './utils/common/logger';
 import { FileWatcher } from './utils/folder/fileWatcher';
 
 // Import clipboard services
 import { ClipboardService } from './domain/clipboard/services/ClipboardService';
+import { ClipboardApplicationService } from './application/clipboard/service/ClipboardApplicationService';
 import { ClipboardDetector } from './utils/clipboard/clipboardDetector';
+import { ClipboardWatcher } from './infrastructure/clipboard/system/ClipboardWatcher';
 
 // SOLUTION: Import the function to set tree view reference
 import { setFolderTreeView } from './commands/folder/FolderCommands';
 
-let clipboardMonitoringInterval: NodeJS.Timeout | undefined;
+let clipboardMonitoringListener: vscode.Disposable | undefined;
 let clipboardDetector: ClipboardDetector | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
@@ -31,6 +34,7 @@ export function activate(context: vscode.ExtensionContext) {
 
         // Initialize status bar item
         state.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        state.statusBarItem.command = 'copy-path-with-code.showCopiedStack';
         state.statusBarItem.hide();
         context.subscriptions.push(state.statusBarItem);
 
@@ -58,8 +62,15 @@ export function activate(context: vscode.ExtensionContext) {
             showCollapseAll: false
         });
 
-        // Complete the dependency injection chain (pass both providers)
-        container.registerUIServices(treeDataProvider, clipboardProvider);
+        // Create copied stack provider
+        const copiedStackProvider = new CopiedStackProvider();
+        const copiedStackTreeView = vscode.window.createTreeView('copied-stack', {
+            treeDataProvider: copiedStackProvider,
+            showCollapseAll: false
+        });
+
+        // Complete the dependency injection chain (pass all providers)
+        container.registerUIServices(treeDataProvider, clipboardProvider, copiedStackProvider);
 
         // Set initial context
         vscode.commands.executeCommand('setContext', 'copyPathWithCode.viewMode', 'workspace');
@@ -68,8 +79,9 @@ export function activate(context: vscode.ExtensionContext) {
         // Initialize clipboard detection using the existing ClipboardDetector class
         clipboardDetector = ClipboardDetector.init(context);
 
-        // Start clipboard integrity monitoring
-        startClipboardMonitoring(container);
+        // Restore the copied stack of the previous window before monitoring can clear it
+        container.resolve<ClipboardApplicationService>('ClipboardApplicationService').restoreActiveStack()
+            .finally(() => startClipboardMonitoring(container));
 
         // Register ALL commands through the centralized system
         registerAllCommands(context, treeDataProvider, clipboardProvider);
@@ -77,6 +89,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Add tree views to subscriptions for proper cleanup
         context.subscriptions.push(treeView);
         context.subscriptions.push(clipboardTreeView);
+        context.subscriptions.push(copiedStackTreeView);
 
         // Cleanup
         context.subscriptions.push({
@@ -85,11 +98,11 @@ export function activate(context: vscode.ExtensionContext) {
                     clipboardDetector.dispose();
                 }
                 fileWatcher.dispose();
-                container.dispose();
-                if (clipboardMonitoringInterval) {
-                    clearInterval(clipboardMonitoringInterval);
-                    clipboardMonitoringInterval = undefined;
+                if (clipboardMonitoringListener) {
+                    clipboardMonitoringListener.dispose();
+                    clipboardMonitoringListener = undefined;
                 }
+                container.dispose();
             }
         });
 
@@ -100,14 +113,16 @@ export function activate(context: vscode.ExtensionContext) {
 }
 
 function startClipboardMonitoring(container: ServiceContainer) {
-    // Monitor clipboard integrity every 2 seconds
-    clipboardMonitoringInterval = setInterval(async () => {
+    const clipboardWatcher = container.resolve<ClipboardWatcher>('ClipboardWatcher');
+
+    // Check clipboard integrity whenever the watcher sees new clipboard content
+    clipboardMonitoringListener = clipboardWatcher.onDidChange(async ({ text }) => {
         try {
             const clipboardService = container.resolve<ClipboardService>('ClipboardService');
             const copiedFiles = clipboardService.getCopiedFiles();
 
             if (copiedFiles.length > 0) {
-                const integrityOk = await clipboardService.checkClipboardIntegrity();
+                const integrityOk = await clipboardService.checkClipboardIntegrity(text);
 
                 // FIXED: Force statusbar update when integrity check clears files
                 if (!integrityOk) {
@@ -121,7 +136,9 @@ function startClipboardMonitoring(container: ServiceContainer) {
         } catch (error) {
             Logger.error('Error during clipboard monitoring', error);
         }
-    }, 2000);
+    });
+
+    clipboardWatcher.start();
 }
 
 export function deactivate() {
@@ -131,10 +148,10 @@ export function deactivate() {
         state.clipboardFiles.length = 0;
         // tempClipboard removed - no longer needed
 
-        // Clear clipboard monitoring interval
-        if (clipboardMonitoringInterval) {
-            clearInterval(clipboardMonitoringInterval);
-            clipboardMonitoringInterval = undefined;
+        // Stop clipboard integrity monitoring
+        if (clipboardMonitoringListener) {
+            clipboardMonitoringListener.dispose();
+            clipboardMonitoringListener = undefined;
         }
 
         // Dispose clipboard detector
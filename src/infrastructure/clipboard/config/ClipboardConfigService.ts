@@ -0,0 +1,301 @@
+/**
+ * FILE: src/infrastructure/clipboard/config/ClipboardConfigService.ts
+ *
+ * CLIPBOARD CONFIGURATION - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Reads clipboard related settings from the "copyPathWithCode" configuration section.
+ * Values are read on every call so that changes apply without reloading the window.
+ */
+
+import * as vscode from 'vscode';
+import { ITemplateSettings, DEFAULT_TEMPLATE_ID } from '../../../domain/clipboard/services/TemplateService';
+import { OutputTemplate } from '../../../domain/clipboard/entities/OutputTemplate';
+import { IBudgetSettings, BudgetAction } from '../../../domain/clipboard/services/BudgetService';
+import { IDiagnosticSettings } from '../../../domain/clipboard/services/DiagnosticService';
+import { ILineOptionSettings } from '../../../domain/clipboard/services/LineOptionsService';
+import { IDependencySettings } from '../../../domain/clipboard/services/DependencyService';
+import { IRedactionSettings } from '../../../domain/clipboard/services/RedactionService';
+import { ISessionSettings } from '../../../domain/clipboard/services/TempStorageService';
+import { REDACTION_DETECTORS, RedactionOptions } from '../../../domain/clipboard/entities/Redaction';
+import { LineOptions } from '../../../domain/clipboard/entities/LineOptions';
+import { FileFilter, IExplorerCopySettings } from '../files/FileCollector';
+import { ClipboardWatchOptions, IClipboardWatcherSettings } from '../system/ClipboardWatcher';
+import { IClipboardDetectionSettings } from '../../../domain/clipboard/services/ClipboardDetectionService';
+import { DetectionOptions } from '../../../domain/clipboard/entities/BundleParser';
+import { IPatchSettings, MAX_PATCH_FUZZ } from '../../../domain/clipboard/services/PatchService';
+import { IPermalinkSettings } from '../../../domain/clipboard/services/PermalinkService';
+import { PermalinkHost, PermalinkRule } from '../../../domain/clipboard/entities/Permalink';
+import { IFilePolicySettings } from '../../../domain/clipboard/services/FilePolicyService';
+import { FILE_POLICY_ACTIONS, FilePolicyAction, FilePolicyOptions } from '../../../domain/clipboard/entities/FilePolicy';
+import { ITreeStructureSettings } from '../../../domain/clipboard/services/TreeStructureService';
+import { TreeStructureOptions } from '../../../domain/clipboard/entities/TreeStructure';
+import { IPromptSettings } from '../../../domain/clipboard/services/PromptService';
+import { PromptTemplate } from '../../../domain/clipboard/entities/PromptTemplate';
+import {
+    DiagnosticOptions,
+    DiagnosticsFormat,
+    DiagnosticSeverityName,
+    DIAGNOSTIC_SEVERITIES
+} from '../../../domain/clipboard/entities/DiagnosticReport';
+
+export const CONFIG_SECTION = 'copyPathWithCode';
+
+const DEFAULT_EXPLORER_INCLUDE = '**/*';
+const DEFAULT_EXPLORER_EXCLUDE = '**/{node_modules,.git,dist,out,build,coverage}/**';
+const DEFAULT_REDACTION_MASK = '[REDACTED]';
+const DEFAULT_SENSITIVE_FILES = ['*.pem', '*.key', '*.p12', '*.pfx', 'id_rsa', 'id_dsa', 'id_ecdsa', 'id_ed25519'];
+const DEFAULT_SESSION_RETENTION_DAYS = 30;
+const DEFAULT_WATCH_INTERVAL = 1000;
+const DEFAULT_WATCH_IDLE_INTERVAL = 10000;
+const DEFAULT_DETECTION_MAX_SIZE = 1000000;
+const DEFAULT_PATCH_FUZZ = 2;
+const PERMALINK_HOSTS: PermalinkHost[] = ['github', 'gitlab', 'bitbucket', 'azure'];
+const DEFAULT_MAX_FILE_SIZE = 500000;
+const DEFAULT_HEAD_LINES = 100;
+const DEFAULT_TAIL_LINES = 20;
+const DEFAULT_GENERATED_FILES = [
+    'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'Cargo.lock', 'poetry.lock', 'composer.lock', 'Gemfile.lock', 'go.sum',
+    '*.min.js', '*.min.css', '*.map'
+];
+
+export class VSCodeClipboardConfigService implements ITemplateSettings, IBudgetSettings, IDiagnosticSettings, ILineOptionSettings,
+    IDependencySettings, IExplorerCopySettings, IRedactionSettings, ISessionSettings,
+    IClipboardWatcherSettings, IClipboardDetectionSettings, IPatchSettings, IPermalinkSettings,
+    IFilePolicySettings, ITreeStructureSettings, IPromptSettings {
+
+    // ==================== TEMPLATES ====================
+
+    getDefaultTemplateId(): string {
+        return this.getConfig().get<string>('outputTemplate', DEFAULT_TEMPLATE_ID) || DEFAULT_TEMPLATE_ID;
+    }
+
+    getCustomTemplates(): OutputTemplate[] {
+        const templates = this.getConfig().get<any[]>('customTemplates', []);
+        if (!Array.isArray(templates)) {
+            return [];
+        }
+
+        return templates
+            .filter(t => t && typeof t.id === 'string' && typeof t.body === 'string')
+            .map(t => ({
+                id: t.id,
+                label: typeof t.label === 'string' ? t.label : t.id,
+                description: typeof t.description === 'string' ? t.description : undefined,
+                body: t.body
+            }));
+    }
+
+    // ==================== BUDGET ====================
+
+    getTokenBudget(): number {
+        const budget = this.getConfig().get<number>('tokenBudget', 0);
+        return typeof budget === 'number' && budget > 0 ? budget : 0;
+    }
+
+    getBudgetAction(): BudgetAction {
+        return this.getConfig().get<string>('budgetAction', 'warn') === 'refuse' ? 'refuse' : 'warn';
+    }
+
+    // ==================== LINE OPTIONS ====================
+
+    getLineOptions(): LineOptions {
+        const config = this.getConfig();
+        const contextLines = config.get<number>('contextLines', 0);
+
+        return {
+            lineNumbers: config.get<boolean>('lineNumbers', false),
+            contextLines: typeof contextLines === 'number' && contextLines > 0 ? Math.floor(contextLines) : 0,
+            minify: {
+                stripComments: config.get<boolean>('minify.stripComments', false),
+                collapseBlankLines: config.get<boolean>('minify.collapseBlankLines', false),
+                indentWidth: config.get<number>('minify.indentWidth', 0),
+                stripLicenseHeader: config.get<boolean>('minify.stripLicenseHeader', false)
+            }
+        };
+    }
+
+    // ==================== DIAGNOSTICS ====================
+
+    getDiagnosticOptions(): DiagnosticOptions {
+        const config = this.getConfig();
+        const severities = config.get<string[]>('diagnostics.severities', ['error', 'warning']);
+        const contextLines = config.get<number>('diagnostics.contextLines', 0);
+
+        return {
+            severities: Array.isArray(severities)
+                ? DIAGNOSTIC_SEVERITIES.filter(s => severities.includes(s))
+                : ['error', 'warning'] as DiagnosticSeverityName[],
+            includeSource: config.get<boolean>('diagnostics.includeSource', false),
+            includeCode: config.get<boolean>('diagnostics.includeCode', false),
+            includeColumns: config.get<boolean>('diagnostics.includeColumns', false),
+            includeRelatedInformation: config.get<boolean>('diagnostics.includeRelatedInformation', false),
+            contextLines: typeof contextLines === 'number' && contextLines > 0 ? Math.floor(contextLines) : 0,
+            includeOutsideSelection: config.get<boolean>('diagnostics.includeOutsideSelection', false)
+        };
+    }
+
+    getDiagnosticsFormat(): DiagnosticsFormat {
+        const format = this.getConfig().get<string>('diagnostics.format', 'list');
+        return format === 'table' || format === 'json' ? format : 'list';
+    }
+
+    // ==================== DEPENDENCIES ====================
+
+    getDependencyDepth(): number {
+        const depth = this.getConfig().get<number>('dependencies.maxDepth', 2);
+        return typeof depth === 'number' && depth >= 0 ? Math.floor(depth) : 2;
+    }
+
+    // ==================== REDACTION ====================
+
+    getRedactionOptions(): RedactionOptions {
+        const config = this.getConfig();
+        const detectors = config.get<string[]>('redaction.detectors', REDACTION_DETECTORS);
+        const customPatterns = config.get<string[]>('redaction.customPatterns', []);
+        const sensitiveFiles = config.get<string[]>('redaction.sensitiveFiles', DEFAULT_SENSITIVE_FILES);
+
+        return {
+            enabled: config.get<boolean>('redaction.enabled', true),
+            detectors: Array.isArray(detectors)
+                ? REDACTION_DETECTORS.filter(d => detectors.includes(d))
+                : REDACTION_DETECTORS,
+            customPatterns: Array.isArray(customPatterns) ? customPatterns.filter(p => typeof p === 'string' && p) : [],
+            sensitiveFiles: Array.isArray(sensitiveFiles) ? sensitiveFiles.filter(g => typeof g === 'string' && g) : [],
+            mask: config.get<string>('redaction.mask', DEFAULT_REDACTION_MASK) || DEFAULT_REDACTION_MASK
+        };
+    }
+
+    // ==================== EXPLORER ====================
+
+    getExplorerFilter(): FileFilter {
+        const config = this.getConfig();
+        return {
+            include: config.get<string>('explorer.include', DEFAULT_EXPLORER_INCLUDE) || DEFAULT_EXPLORER_INCLUDE,
+            exclude: config.get<string>('explorer.exclude', DEFAULT_EXPLORER_EXCLUDE) ?? DEFAULT_EXPLORER_EXCLUDE
+        };
+    }
+
+    // ==================== SESSIONS ====================
+
+    getSessionRetentionDays(): number {
+        const days = this.getConfig().get<number>('sessions.retentionDays', DEFAULT_SESSION_RETENTION_DAYS);
+        return typeof days === 'number' && days >= 0 ? Math.floor(days) : DEFAULT_SESSION_RETENTION_DAYS;
+    }
+
+    // ==================== CLIPBOARD WATCHER ====================
+
+    getClipboardWatchOptions(): ClipboardWatchOptions {
+        const config = this.getConfig();
+        const interval = this.getPositive(config.get<number>('clipboardWatcher.interval'), DEFAULT_WATCH_INTERVAL);
+        const idleInterval = this.getPositive(config.get<number>('clipboardWatcher.idleInterval'), DEFAULT_WATCH_IDLE_INTERVAL);
+
+        return {
+            interval,
+            idleInterval: Math.max(idleInterval, interval)
+        };
+    }
+
+    // ==================== DETECTION ====================
+
+    getDetectionOptions(): DetectionOptions {
+        const config = this.getConfig();
+        const ignore = config.get<string[]>('detection.ignore', []);
+
+        return {
+            ignore: Array.isArray(ignore) ? ignore.filter(g => typeof g === 'string' && g) : [],
+            maxSize: this.getPositive(config.get<number>('detection.maxSize'), DEFAULT_DETECTION_MAX_SIZE)
+        };
+    }
+
+    // ==================== PATCHES ====================
+
+    getPatchFuzz(): number {
+        const fuzz = this.getConfig().get<number>('patch.fuzz', DEFAULT_PATCH_FUZZ);
+        return typeof fuzz === 'number' && fuzz >= 0 ? Math.min(MAX_PATCH_FUZZ, Math.floor(fuzz)) : DEFAULT_PATCH_FUZZ;
+    }
+
+    // ==================== PERMALINKS ====================
+
+    getPermalinkRules(): PermalinkRule[] {
+        const rules = this.getConfig().get<any[]>('permalink.rules', []);
+        if (!Array.isArray(rules)) {
+            return [];
+        }
+
+        return rules
+            .filter(r => r && typeof r.match === 'string' && r.match &&
+                (PERMALINK_HOSTS.includes(r.host) || (typeof r.url === 'string' && r.url)))
+            .map(r => ({
+                match: r.match,
+                host: PERMALINK_HOSTS.includes(r.host) ? r.host : undefined,
+                url: typeof r.url === 'string' && r.url ? r.url : undefined
+            }));
+    }
+
+    // ==================== FILE POLICY ====================
+
+    getFilePolicyOptions(): FilePolicyOptions {
+        const config = this.getConfig();
+        const maxFileSize = config.get<number>('filePolicy.maxFileSize', DEFAULT_MAX_FILE_SIZE);
+        const generatedFiles = config.get<string[]>('filePolicy.generatedFiles', DEFAULT_GENERATED_FILES);
+        const headLines = config.get<number>('filePolicy.headLines', DEFAULT_HEAD_LINES);
+        const tailLines = config.get<number>('filePolicy.tailLines', DEFAULT_TAIL_LINES);
+
+        return {
+            binary: this.getPolicyAction('filePolicy.binary', 'summary'),
+            generated: this.getPolicyAction('filePolicy.generated', 'summary'),
+            oversized: this.getPolicyAction('filePolicy.oversized', 'truncate'),
+            maxFileSize: typeof maxFileSize === 'number' && maxFileSize > 0 ? Math.floor(maxFileSize) : 0,
+            generatedFiles: Array.isArray(generatedFiles) ? generatedFiles.filter(g => typeof g === 'string' && g) : [],
+            headLines: typeof headLines === 'number' && headLines >= 0 ? Math.floor(headLines) : DEFAULT_HEAD_LINES,
+            tailLines: typeof tailLines === 'number' && tailLines >= 0 ? Math.floor(tailLines) : DEFAULT_TAIL_LINES
+        };
+    }
+
+    // ==================== TREE STRUCTURE ====================
+
+    getTreeStructureOptions(): TreeStructureOptions {
+        const config = this.getConfig();
+        return {
+            style: config.get<string>('treeStructure.style', 'ascii') === 'markdown' ? 'markdown' : 'ascii',
+            sizes: config.get<boolean>('treeStructure.sizes', false),
+            lineCounts: config.get<boolean>('treeStructure.lineCounts', false)
+        };
+    }
+
+    getTreeHeader(): boolean {
+        return this.getConfig().get<boolean>('treeStructure.folderCopyHeader', false);
+    }
+
+    // ==================== PROMPTS ====================
+
+    getCustomPrompts(): PromptTemplate[] {
+        const prompts = this.getConfig().get<any[]>('prompts', []);
+        if (!Array.isArray(prompts)) {
+            return [];
+        }
+
+        return prompts
+            .filter(p => p && typeof p.id === 'string' && (typeof p.prefix === 'string' || typeof p.suffix === 'string'))
+            .map(p => ({
+                id: p.id,
+                label: typeof p.label === 'string' ? p.label : p.id,
+                description: typeof p.description === 'string' ? p.description : undefined,
+                prefix: typeof p.prefix === 'string' ? p.prefix : '',
+                suffix: typeof p.suffix === 'string' ? p.suffix : ''
+            }));
+    }
+
+    private getPolicyAction(key: string, fallback: FilePolicyAction): FilePolicyAction {
+        const action = this.getConfig().get<string>(key, fallback);
+        return FILE_POLICY_ACTIONS.find(a => a === action) || fallback;
+    }
+
+    private getPositive(value: number | undefined, fallback: number): number {
+        return typeof value === 'number' && value > 0 ? Math.floor(value) : fallback;
+    }
+
+    private getConfig(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration(CONFIG_SECTION);
+    }
+}
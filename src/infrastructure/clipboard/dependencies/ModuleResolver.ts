@@ -0,0 +1,208 @@
+/**
+ * FILE: src/infrastructure/clipboard/dependencies/ModuleResolver.ts
+ *
+ * MODULE RESOLVER - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Resolves TypeScript / JavaScript module specifiers to workspace files:
+ * relative paths, tsconfig/jsconfig "paths" aliases and "baseUrl" imports.
+ * Bare package names, node_modules and files outside the workspace are skipped.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IModuleResolver } from '../../../domain/clipboard/services/DependencyService';
+import { Logger } from '../../../utils/common/logger';
+import { SourceUtils } from '../../../shared/utils/SourceUtils';
+
+interface PathsConfig {
+    baseUrl?: string; // absolute
+    paths?: Record<string, string[]>;
+    pathsBase: string; // absolute directory "paths" targets are relative to
+}
+
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+const EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// ESM style imports of compiled output, e.g. './util.js' for './util.ts'
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts']
+};
+
+export class VSCodeModuleResolver implements IModuleResolver {
+
+    async resolve(specifier: string, fromFile: string): Promise<string | undefined> {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fromFile));
+        if (!workspaceFolder) {
+            return undefined;
+        }
+
+        const root = workspaceFolder.uri.fsPath;
+        const candidates: string[] = [];
+
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            candidates.push(path.resolve(path.dirname(fromFile), specifier));
+        } else {
+            const config = await this.findPathsConfig(path.dirname(fromFile), root);
+            if (config) {
+                candidates.push(...this.matchPaths(specifier, config));
+                if (config.baseUrl) {
+                    candidates.push(path.resolve(config.baseUrl, specifier));
+                }
+            }
+        }
+
+        for (const candidate of candidates) {
+            const resolved = await this.resolveFile(candidate);
+            if (resolved && this.isWorkspaceFile(resolved, root)) {
+                return resolved;
+            }
+        }
+
+        return undefined;
+    }
+
+    async readFile(filePath: string): Promise<string> {
+        const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+        return new TextDecoder().decode(bytes);
+    }
+
+    // ==================== FILE RESOLUTION ====================
+
+    private async resolveFile(candidate: string): Promise<string | undefined> {
+        const ext = path.extname(candidate);
+        const attempts = [
+            ...(COMPILED_EXTENSIONS[ext] || []).map(sourceExt => candidate.slice(0, -ext.length) + sourceExt),
+            candidate,
+            ...EXTENSIONS.map(e => candidate + e),
+            ...EXTENSIONS.map(e => path.join(candidate, `index${e}`))
+        ];
+
+        for (const attempt of attempts) {
+            if (await this.isFile(attempt)) {
+                return attempt;
+            }
+        }
+
+        return undefined;
+    }
+
+    private isWorkspaceFile(filePath: string, root: string): boolean {
+        const relative = path.relative(root, filePath);
+        return !relative.startsWith('..') &&
+            !path.isAbsolute(relative) &&
+            !relative.split(path.sep).includes('node_modules');
+    }
+
+    private async isFile(filePath: string): Promise<boolean> {
+        try {
+            const stat = await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+            return stat.type === vscode.FileType.File;
+        } catch {
+            return false;
+        }
+    }
+
+    // ==================== TSCONFIG PATHS ====================
+
+    /**
+     * Candidate files for a specifier matching a "paths" pattern such as "@/*"
+     */
+    private matchPaths(specifier: string, config: PathsConfig): string[] {
+        const candidates: string[] = [];
+
+        for (const [pattern, targets] of Object.entries(config.paths || {})) {
+            const star = pattern.indexOf('*');
+            let wildcard: string | undefined;
+
+            if (star === -1) {
+                wildcard = pattern === specifier ? '' : undefined;
+            } else {
+                const prefix = pattern.slice(0, star);
+                const suffix = pattern.slice(star + 1);
+                if (specifier.startsWith(prefix) && specifier.endsWith(suffix) &&
+                    specifier.length >= prefix.length + suffix.length) {
+                    wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+                }
+            }
+
+            if (wildcard === undefined || !Array.isArray(targets)) {
+                continue;
+            }
+
+            for (const target of targets) {
+                candidates.push(path.resolve(config.pathsBase, target.replace('*', wildcard)));
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Nearest tsconfig.json / jsconfig.json between the file and the workspace root
+     */
+    private async findPathsConfig(dir: string, root: string): Promise<PathsConfig | undefined> {
+        let current = dir;
+
+        while (true) {
+            for (const name of CONFIG_FILES) {
+                const configPath = path.join(current, name);
+                if (await this.isFile(configPath)) {
+                    return this.loadPathsConfig(configPath, 0);
+                }
+            }
+
+            const parent = path.dirname(current);
+            if (current === root || parent === current || path.relative(root, parent).startsWith('..')) {
+                return undefined;
+            }
+            current = parent;
+        }
+    }
+
+    private async loadPathsConfig(configPath: string, level: number): Promise<PathsConfig | undefined> {
+        let json: any;
+        try {
+            json = JSON.parse(this.stripJsonComments(await this.readFile(configPath)));
+        } catch (error) {
+            Logger.warn(`Could not parse ${configPath}`, error);
+            return undefined;
+        }
+
+        const configDir = path.dirname(configPath);
+        let config: PathsConfig = { pathsBase: configDir };
+
+        // Only relative "extends" are followed; package configs rarely define paths
+        if (typeof json?.extends === 'string' && json.extends.startsWith('.') && level < 5) {
+            const extendsPath = path.resolve(configDir, json.extends);
+            const parent = await this.loadPathsConfig(
+                extendsPath.endsWith('.json') ? extendsPath : `${extendsPath}.json`,
+                level + 1
+            );
+            if (parent) {
+                config = parent;
+            }
+        }
+
+        const options = json?.compilerOptions || {};
+        if (typeof options.baseUrl === 'string') {
+            config.baseUrl = path.resolve(configDir, options.baseUrl);
+            config.pathsBase = config.baseUrl;
+        }
+        if (options.paths && typeof options.paths === 'object') {
+            config.paths = options.paths;
+            config.pathsBase = config.baseUrl || configDir;
+        }
+
+        return config;
+    }
+
+    /**
+     * tsconfig files allow comments and trailing commas
+     */
+    private stripJsonComments(text: string): string {
+        return SourceUtils.stripCStyleComments(text).replace(/,(\s*[}\]])/g, '$1');
+    }
+}
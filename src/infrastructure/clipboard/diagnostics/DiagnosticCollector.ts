@@ -0,0 +1,133 @@
+/**
+ * FILE: src/infrastructure/clipboard/diagnostics/DiagnosticCollector.ts
+ *
+ * DIAGNOSTIC COLLECTOR - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Reads diagnostics from the Problems panel for a document and converts them
+ * into a DiagnosticReport according to the requested options.
+ */
+
+import * as vscode from 'vscode';
+import {
+    DiagnosticEntry,
+    DiagnosticLine,
+    DiagnosticOptions,
+    DiagnosticReport,
+    DiagnosticSeverityName,
+    DiagnosticSummary
+} from '../../../domain/clipboard/entities/DiagnosticReport';
+
+export interface IDiagnosticCollector {
+    collect(document: vscode.TextDocument, ranges: readonly vscode.Range[], options: DiagnosticOptions): DiagnosticReport;
+}
+
+const SEVERITY_NAMES: Record<vscode.DiagnosticSeverity, DiagnosticSeverityName> = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'information',
+    [vscode.DiagnosticSeverity.Hint]: 'hint'
+};
+
+export class VSCodeDiagnosticCollector implements IDiagnosticCollector {
+
+    /**
+     * Collect diagnostics intersecting the given ranges; an empty list means the whole document
+     */
+    collect(document: vscode.TextDocument, ranges: readonly vscode.Range[], options: DiagnosticOptions): DiagnosticReport {
+        const diagnostics = vscode.languages.getDiagnostics(document.uri)
+            .filter(d => options.severities.includes(SEVERITY_NAMES[d.severity]))
+            .sort((a, b) => a.range.start.compareTo(b.range.start));
+
+        const inside: vscode.Diagnostic[] = [];
+        const outside: vscode.Diagnostic[] = [];
+
+        for (const diagnostic of diagnostics) {
+            const intersects = ranges.length === 0 ||
+                ranges.some(range => range.intersection(diagnostic.range));
+            (intersects ? inside : outside).push(diagnostic);
+        }
+
+        const report: DiagnosticReport = {
+            entries: inside.map((diagnostic, i) => this.toEntry(document, diagnostic, i + 1, options))
+        };
+
+        if (options.includeOutsideSelection && outside.length > 0) {
+            report.outsideSelection = this.summarize(outside);
+        }
+
+        return report;
+    }
+
+    // ==================== CONVERSION ====================
+
+    private toEntry(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        index: number,
+        options: DiagnosticOptions
+    ): DiagnosticEntry {
+        const line = diagnostic.range.start.line;
+        const entry: DiagnosticEntry = {
+            index,
+            severity: SEVERITY_NAMES[diagnostic.severity],
+            message: diagnostic.message,
+            line: line + 1,
+            lineContent: line < document.lineCount ? document.lineAt(line).text.trim() : ''
+        };
+
+        if (options.includeColumns) {
+            entry.column = diagnostic.range.start.character + 1;
+            entry.endLine = diagnostic.range.end.line + 1;
+            entry.endColumn = diagnostic.range.end.character + 1;
+        }
+
+        if (options.includeSource && diagnostic.source) {
+            entry.source = diagnostic.source;
+        }
+
+        if (options.includeCode && diagnostic.code !== undefined) {
+            entry.code = this.formatCode(diagnostic.code);
+        }
+
+        if (options.includeRelatedInformation && diagnostic.relatedInformation?.length) {
+            entry.related = diagnostic.relatedInformation.map(info => ({
+                path: vscode.workspace.asRelativePath(info.location.uri),
+                line: info.location.range.start.line + 1,
+                message: info.message
+            }));
+        }
+
+        if (options.contextLines > 0) {
+            entry.context = this.getContextLines(document, diagnostic.range, options.contextLines);
+        }
+
+        return entry;
+    }
+
+    private formatCode(code: NonNullable<vscode.Diagnostic['code']>): string {
+        return typeof code === 'object' ? String(code.value) : String(code);
+    }
+
+    private getContextLines(document: vscode.TextDocument, range: vscode.Range, count: number): DiagnosticLine[] {
+        const first = Math.max(0, range.start.line - count);
+        const last = Math.min(document.lineCount - 1, range.end.line + count);
+        const lines: DiagnosticLine[] = [];
+
+        for (let line = first; line <= last; line++) {
+            lines.push({ line: line + 1, text: document.lineAt(line).text });
+        }
+
+        return lines;
+    }
+
+    private summarize(diagnostics: vscode.Diagnostic[]): DiagnosticSummary {
+        const summary: DiagnosticSummary = { total: diagnostics.length, bySeverity: {} };
+
+        for (const diagnostic of diagnostics) {
+            const severity = SEVERITY_NAMES[diagnostic.severity];
+            summary.bySeverity[severity] = (summary.bySeverity[severity] || 0) + 1;
+        }
+
+        return summary;
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * FILE: src/infrastructure/clipboard/files/FileCollector.ts
+ *
+ * FILE COLLECTOR - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Expands an Explorer selection into files. Selected directories are walked
+ * recursively with include/exclude globs; selected files are always kept.
+ */
+
+import * as vscode from 'vscode';
+import { Logger } from '../../../utils/common/logger';
+
+export interface FileFilter {
+    /**
+     * Glob relative to each selected directory, e.g. "**\/*.ts"
+     */
+    include: string;
+
+    /**
+     * Glob of workspace relative paths to skip, empty to skip nothing
+     */
+    exclude: string;
+}
+
+export interface IExplorerCopySettings {
+    getExplorerFilter(): FileFilter;
+}
+
+export interface IFileCollector {
+    collect(uris: vscode.Uri[], filter: FileFilter, token?: vscode.CancellationToken): Promise<vscode.Uri[]>;
+}
+
+export class VSCodeFileCollector implements IFileCollector {
+
+    async collect(uris: vscode.Uri[], filter: FileFilter, token?: vscode.CancellationToken): Promise<vscode.Uri[]> {
+        const files = new Map<string, vscode.Uri>();
+
+        for (const uri of uris) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+
+            let stat: vscode.FileStat;
+            try {
+                stat = await vscode.workspace.fs.stat(uri);
+            } catch (error) {
+                Logger.warn(`Could not read selection: ${uri.fsPath}`, error);
+                continue;
+            }
+
+            if (stat.type & vscode.FileType.Directory) {
+                const found = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(uri, filter.include || '**/*'),
+                    filter.exclude || null,
+                    undefined,
+                    token
+                );
+
+                found
+                    .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+                    .forEach(file => files.set(file.toString(), file));
+            } else {
+                files.set(uri.toString(), uri);
+            }
+        }
+
+        return Array.from(files.values());
+    }
+}
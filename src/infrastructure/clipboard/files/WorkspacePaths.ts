@@ -0,0 +1,46 @@
+/**
+ * FILE: src/infrastructure/clipboard/files/WorkspacePaths.ts
+ *
+ * WORKSPACE PATHS - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Copied paths are workspace relative, prefixed with the folder name in
+ * multi-root workspaces. Paths detected in pasted text follow the same rule
+ * but may use backslashes or a leading "./".
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Uri of a copied path, undefined when no workspace folder matches
+ */
+export function resolveWorkspaceUri(filePath: string): vscode.Uri | undefined {
+    if (path.isAbsolute(filePath)) {
+        return vscode.Uri.file(filePath);
+    }
+
+    const relativePath = filePath.replace(/\\/g, '/').replace(/^(?:\.\/)+/, '');
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 1) {
+        return vscode.Uri.joinPath(folders[0].uri, relativePath);
+    }
+
+    const [folderName, ...rest] = relativePath.split('/');
+    const folder = folders.find(f => f.name === folderName);
+    return folder ? vscode.Uri.joinPath(folder.uri, ...rest) : undefined;
+}
+
+/**
+ * Like resolveWorkspaceUri, but only for paths that stay inside a workspace folder
+ */
+export function resolveInsideWorkspace(filePath: string): vscode.Uri | undefined {
+    const uri = resolveWorkspaceUri(filePath);
+    const folder = uri && vscode.workspace.getWorkspaceFolder(uri);
+    if (!uri || !folder) {
+        return undefined;
+    }
+
+    // "../" segments are resolved by joinPath, so a path escaping its folder ends up outside of it
+    const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? uri : undefined;
+}
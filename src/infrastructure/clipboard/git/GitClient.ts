@@ -0,0 +1,127 @@
+/**
+ * FILE: src/infrastructure/clipboard/git/GitClient.ts
+ *
+ * GIT CLIENT - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Runs the local git binary to read diffs and references. Commands are executed
+ * with execFile (no shell), so paths and refs are never interpreted by a shell;
+ * refs come from command arguments and are refused when git would read them as options.
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { GitCommandError } from '../../../shared/errors/ClipboardErrors';
+
+export interface GitDiffOptions {
+    /**
+     * Compare the index instead of the working tree
+     */
+    staged?: boolean;
+
+    /**
+     * Branch, tag or commit to compare against; HEAD/index when omitted
+     */
+    ref?: string;
+
+    /**
+     * Absolute file paths to limit the diff to; whole repository when omitted
+     */
+    paths?: string[];
+}
+
+export interface GitRef {
+    name: string;
+    kind: 'branch' | 'remote' | 'tag' | 'commit';
+    description?: string;
+}
+
+export interface IGitClient {
+    getRepositoryRoot(directory: string): Promise<string | undefined>;
+    diff(root: string, options: GitDiffOptions): Promise<string>;
+    listRefs(root: string): Promise<GitRef[]>;
+}
+
+const MAX_BUFFER = 64 * 1024 * 1024;
+const RECENT_COMMITS = 20;
+
+export class GitClient implements IGitClient {
+
+    /**
+     * Top level directory of the repository containing the directory, undefined outside git
+     */
+    async getRepositoryRoot(directory: string): Promise<string | undefined> {
+        try {
+            const output = await this.run(directory, ['rev-parse', '--show-toplevel']);
+            return path.normalize(output.trim());
+        } catch {
+            return undefined;
+        }
+    }
+
+    async diff(root: string, options: GitDiffOptions): Promise<string> {
+        const args = ['-c', 'core.quotepath=off', 'diff', '--no-color', '--no-ext-diff'];
+
+        if (options.staged) {
+            args.push('--cached');
+        }
+        if (options.ref) {
+            if (options.ref.startsWith('-')) {
+                throw new GitCommandError('diff', `"${options.ref}" is not a valid ref`);
+            }
+            args.push(options.ref);
+        }
+
+        args.push('--');
+        if (options.paths && options.paths.length > 0) {
+            args.push(...options.paths.map(p => path.relative(root, p) || '.'));
+        }
+
+        return this.run(root, args);
+    }
+
+    /**
+     * Local branches, remote branches, tags and recent commits
+     */
+    async listRefs(root: string): Promise<GitRef[]> {
+        const refs: GitRef[] = [];
+
+        const refOutput = await this.run(root, [
+            'for-each-ref', '--sort=-committerdate',
+            '--format=%(refname)%09%(refname:short)',
+            'refs/heads', 'refs/remotes', 'refs/tags'
+        ]);
+
+        for (const line of refOutput.split('\n').filter(Boolean)) {
+            const [fullName, shortName] = line.split('\t');
+            if (fullName.endsWith('/HEAD')) {
+                continue;
+            }
+
+            const kind = fullName.startsWith('refs/heads/') ? 'branch'
+                : fullName.startsWith('refs/remotes/') ? 'remote'
+                    : 'tag';
+            refs.push({ name: shortName, kind });
+        }
+
+        const logOutput = await this.run(root, ['log', `-n${RECENT_COMMITS}`, '--format=%h%x09%s']);
+        for (const line of logOutput.split('\n').filter(Boolean)) {
+            const [hash, subject] = line.split('\t');
+            refs.push({ name: hash, kind: 'commit', description: subject });
+        }
+
+        return refs;
+    }
+
+    private run(cwd: string, args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile('git', args, { cwd, maxBuffer: MAX_BUFFER, windowsHide: true }, (error, stdout, stderr) => {
+                if (error) {
+                    const details = (stderr || error.message).toString().trim().split('\n')[0];
+                    reject(new GitCommandError(args[args[0] === '-c' ? 2 : 0], details));
+                    return;
+                }
+                resolve(stdout.toString());
+            });
+        });
+    }
+}
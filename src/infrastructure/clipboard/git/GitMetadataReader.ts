@@ -0,0 +1,179 @@
+/**
+ * FILE: src/infrastructure/clipboard/git/GitMetadataReader.ts
+ *
+ * GIT METADATA READER - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Reads the repository root, HEAD and remotes straight from the .git directory,
+ * without running git. Worktrees and submodules, whose ".git" is a file pointing
+ * at the real git directory, are followed; refs are looked up as loose files
+ * first and in packed-refs otherwise.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface GitRepositoryInfo {
+    root: string;
+
+    /**
+     * Checked out branch, undefined for a detached HEAD
+     */
+    branch?: string;
+
+    /**
+     * Commit SHA of HEAD, undefined when the branch has no commit yet
+     */
+    commit?: string;
+
+    /**
+     * Remote urls by remote name
+     */
+    remotes: Record<string, string>;
+
+    /**
+     * Remote the checked out branch tracks, when configured
+     */
+    upstreamRemote?: string;
+}
+
+export interface IGitMetadataReader {
+    /**
+     * Repository containing the file, undefined outside git
+     */
+    readRepository(filePath: string): Promise<GitRepositoryInfo | undefined>;
+}
+
+export class GitMetadataReader implements IGitMetadataReader {
+
+    async readRepository(filePath: string): Promise<GitRepositoryInfo | undefined> {
+        const location = await this.findGitDirectory(path.dirname(filePath));
+        if (!location) {
+            return undefined;
+        }
+
+        const { root, gitDir } = location;
+
+        // Linked worktrees keep config and shared refs in the main git directory
+        const commonDir = await this.readText(path.join(gitDir, 'commondir'));
+        const sharedDir = commonDir ? path.resolve(gitDir, commonDir.trim()) : gitDir;
+
+        const head = (await this.readText(path.join(gitDir, 'HEAD')))?.trim() ?? '';
+        const refMatch = head.match(/^ref:\s*(\S+)$/);
+
+        const branch = refMatch?.[1].replace(/^refs\/heads\//, '');
+        const commit = refMatch
+            ? await this.resolveRef(refMatch[1], gitDir, sharedDir)
+            : /^[0-9a-f]{40,64}$/.test(head) ? head : undefined;
+
+        const config = this.parseConfig((await this.readText(path.join(sharedDir, 'config'))) ?? '');
+        const remotes: Record<string, string> = {};
+        for (const [section, values] of config) {
+            const remote = section.match(/^remote "(.+)"$/);
+            if (remote && values.url) {
+                remotes[remote[1]] = values.url;
+            }
+        }
+
+        return {
+            root,
+            branch,
+            commit,
+            remotes,
+            upstreamRemote: branch ? config.get(`branch "${branch}"`)?.remote : undefined
+        };
+    }
+
+    /**
+     * Walk up from the directory to the first one holding ".git", as a directory or as a "gitdir:" file
+     */
+    private async findGitDirectory(directory: string): Promise<{ root: string; gitDir: string } | undefined> {
+        let current = directory;
+
+        while (true) {
+            const dotGit = path.join(current, '.git');
+            const type = await this.statType(dotGit);
+
+            // Symbolic links are reported with both flags set
+            if (type !== undefined && type & vscode.FileType.Directory) {
+                return { root: current, gitDir: dotGit };
+            }
+            if (type !== undefined && type & vscode.FileType.File) {
+                const pointer = (await this.readText(dotGit))?.match(/^gitdir:\s*(.+)$/m);
+                if (pointer) {
+                    return { root: current, gitDir: path.resolve(current, pointer[1].trim()) };
+                }
+            }
+
+            const parent = path.dirname(current);
+            if (parent === current) {
+                return undefined;
+            }
+            current = parent;
+        }
+    }
+
+    private async resolveRef(ref: string, gitDir: string, sharedDir: string): Promise<string | undefined> {
+        for (const directory of gitDir === sharedDir ? [gitDir] : [gitDir, sharedDir]) {
+            const loose = (await this.readText(path.join(directory, ...ref.split('/'))))?.trim();
+            if (loose && /^[0-9a-f]{40,64}$/.test(loose)) {
+                return loose;
+            }
+        }
+
+        const packed = (await this.readText(path.join(sharedDir, 'packed-refs'))) ?? '';
+        for (const line of packed.split(/\r?\n/)) {
+            const [sha, name] = line.split(' ');
+            if (name === ref && /^[0-9a-f]{40,64}$/.test(sha)) {
+                return sha;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Sections of a git config file, e.g. 'remote "origin"' → { url: "..." }; keys are lower case
+     */
+    private parseConfig(text: string): Map<string, Record<string, string>> {
+        const sections = new Map<string, Record<string, string>>();
+        let current: Record<string, string> | undefined;
+
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            if (!line || line.startsWith('#') || line.startsWith(';')) {
+                continue;
+            }
+
+            const header = line.match(/^\[\s*([\w.-]+)(?:\s+"((?:[^"\\]|\\.)*)")?\s*\]$/);
+            if (header) {
+                const name = header[1].toLowerCase() + (header[2] !== undefined ? ` "${header[2]}"` : '');
+                current = sections.get(name) ?? {};
+                sections.set(name, current);
+                continue;
+            }
+
+            const entry = line.match(/^([\w-]+)\s*=\s*(.*)$/);
+            if (current && entry) {
+                current[entry[1].toLowerCase()] = entry[2].replace(/^"(.*)"$/, '$1');
+            }
+        }
+
+        return sections;
+    }
+
+    private async statType(filePath: string): Promise<vscode.FileType | undefined> {
+        try {
+            return (await vscode.workspace.fs.stat(vscode.Uri.file(filePath))).type;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async readText(filePath: string): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+}
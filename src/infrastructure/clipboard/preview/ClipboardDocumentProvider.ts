@@ -0,0 +1,67 @@
+/**
+ * FILE: src/infrastructure/clipboard/preview/ClipboardDocumentProvider.ts
+ *
+ * CLIPBOARD DOCUMENT PROVIDER - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Serves clipboard versions of files as read-only virtual documents, so that
+ * they can be shown in editors and diff views without creating untitled files.
+ * The uri keeps the file path, which lets VS Code pick the language mode.
+ */
+
+import * as vscode from 'vscode';
+
+export const CLIPBOARD_DOCUMENT_SCHEME = 'copypath-clipboard';
+
+/**
+ * Uri of the virtual document for a path; the variant, e.g. a line range, tells apart several documents of one file
+ */
+export function clipboardDocumentUri(filePath: string, variant?: string): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: CLIPBOARD_DOCUMENT_SCHEME,
+        path: `/${filePath.replace(/\\/g, '/').replace(/^\/+/, '')}`,
+        query: variant
+    });
+}
+
+export interface IClipboardDocumentProvider {
+    /**
+     * Uri of a virtual document holding the content; showing the same path again updates the open document
+     */
+    uriFor(filePath: string, content: string, variant?: string): vscode.Uri;
+}
+
+export class ClipboardDocumentProvider implements IClipboardDocumentProvider, vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private readonly documents = new Map<string, string>();
+    private readonly registration: vscode.Disposable;
+
+    constructor() {
+        this.registration = vscode.workspace.registerTextDocumentContentProvider(CLIPBOARD_DOCUMENT_SCHEME, this);
+    }
+
+    uriFor(filePath: string, content: string, variant?: string): vscode.Uri {
+        const uri = clipboardDocumentUri(filePath, variant);
+
+        const key = uri.toString();
+        const previous = this.documents.get(key);
+        this.documents.set(key, content);
+
+        if (previous !== undefined && previous !== content) {
+            this._onDidChange.fire(uri);
+        }
+
+        return uri;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
+
+    dispose(): void {
+        this.registration.dispose();
+        this._onDidChange.dispose();
+        this.documents.clear();
+    }
+}
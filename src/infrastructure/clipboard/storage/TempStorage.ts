@@ -4,7 +4,8 @@
  * TEMPORARY STORAGE INFRASTRUCTURE
  * 
  * File-based storage for workspace-specific temporary clipboard data.
- * Each workspace maintains its own temporary storage that persists across VS Code sessions.
+ * Each workspace maintains its own temporary storage that persists across VS Code sessions:
+ * the active copied stack plus any number of named sessions.
  */
 
 import * as vscode from 'vscode';
@@ -12,6 +13,12 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { ITempStorageRepository } from '../../../domain/clipboard/services/TempStorageService';
 import { TempClipboardFile } from '../../../domain/clipboard/entities/TempClipboardFile';
+import { ClipboardSession } from '../../../domain/clipboard/entities/ClipboardSession';
+
+interface TempStorageData {
+    files: TempClipboardFile[];
+    sessions: ClipboardSession[];
+}
 
 export class TempStorage implements ITempStorageRepository {
     private readonly STORAGE_FILE_NAME = 'temp-clipboard.json';
@@ -19,59 +26,16 @@ export class TempStorage implements ITempStorageRepository {
     constructor(private context: vscode.ExtensionContext) { }
 
     getTempFiles(workspaceId: string): TempClipboardFile[] {
-        try {
-            const filePath = this.getTempStorageFilePath(workspaceId);
-
-            if (!fs.existsSync(filePath)) {
-                return [];
-            }
-
-            const data = fs.readFileSync(filePath, 'utf8');
-            const tempData = JSON.parse(data);
-
-            // Return files for this workspace only
-            return (tempData.files || []).filter((file: TempClipboardFile) =>
-                file.workspaceId === workspaceId
-            );
-        } catch (error) {
-            console.error('Failed to read temp storage:', error);
-            return [];
-        }
+        // Return files for this workspace only
+        return this.readData().files.filter(file => file.workspaceId === workspaceId);
     }
 
     setTempFiles(workspaceId: string, files: TempClipboardFile[]): void {
-        try {
-            const filePath = this.getTempStorageFilePath(workspaceId);
-
-            // Ensure directory exists
-            const dir = path.dirname(filePath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            // Read existing data to preserve other workspaces
-            let allData: { files: TempClipboardFile[] } = { files: [] };
-            if (fs.existsSync(filePath)) {
-                try {
-                    const existingData = fs.readFileSync(filePath, 'utf8');
-                    allData = JSON.parse(existingData);
-                } catch {
-                    // If file is corrupted, start fresh
-                    allData = { files: [] };
-                }
-            }
-
-            // Remove existing files for this workspace
-            allData.files = allData.files.filter(file => file.workspaceId !== workspaceId);
-
-            // Add new files for this workspace
-            allData.files.push(...files);
-
-            // Write back to file
-            fs.writeFileSync(filePath, JSON.stringify(allData, null, 2), 'utf8');
-        } catch (error) {
-            console.error('Failed to write temp storage:', error);
-        }
+        // Replace files of this workspace, preserving other workspaces
+        const data = this.readData();
+        data.files = data.files.filter(file => file.workspaceId !== workspaceId);
+        data.files.push(...files);
+        this.writeData(data);
     }
 
     addTempFile(file: TempClipboardFile): void {
@@ -88,6 +52,17 @@ export class TempStorage implements ITempStorageRepository {
         this.setTempFiles(workspaceId, []);
     }
 
+    getSessions(workspaceId: string): ClipboardSession[] {
+        return this.readData().sessions.filter(session => session.workspaceId === workspaceId);
+    }
+
+    setSessions(workspaceId: string, sessions: ClipboardSession[]): void {
+        const data = this.readData();
+        data.sessions = data.sessions.filter(session => session.workspaceId !== workspaceId);
+        data.sessions.push(...sessions);
+        this.writeData(data);
+    }
+
     getCurrentWorkspaceId(): string {
         // Generate unique ID for current workspace
         if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
@@ -95,8 +70,8 @@ export class TempStorage implements ITempStorageRepository {
             return this.generateWorkspaceId(workspaceFolder.uri.fsPath);
         }
 
-        // Fallback for when no workspace is open
-        return 'no-workspace-' + Date.now();
+        // Windows without a folder share one id, so that their stack and sessions can be found again
+        return 'no-workspace';
     }
 
     private generateWorkspaceId(workspacePath: string): string {
@@ -110,34 +85,66 @@ export class TempStorage implements ITempStorageRepository {
         return 'workspace-' + Math.abs(hash).toString(36);
     }
 
-    private getTempStorageFilePath(workspaceId: string): string {
+    private getTempStorageFilePath(): string {
         return path.join(this.context.globalStorageUri.fsPath, this.STORAGE_FILE_NAME);
     }
 
-    // Cleanup method for maintenance
-    cleanupOldTempFiles(maxAge: number = 7 * 24 * 60 * 60 * 1000): void {
+    private readData(): TempStorageData {
         try {
-            const filePath = this.getTempStorageFilePath('');
+            const filePath = this.getTempStorageFilePath();
 
             if (!fs.existsSync(filePath)) {
-                return;
+                return { files: [], sessions: [] };
+            }
+
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            return {
+                files: Array.isArray(data.files) ? data.files : [],
+                sessions: Array.isArray(data.sessions) ? data.sessions : []
+            };
+        } catch (error) {
+            // If file is corrupted, start fresh
+            console.error('Failed to read temp storage:', error);
+            return { files: [], sessions: [] };
+        }
+    }
+
+    private writeData(data: TempStorageData): void {
+        try {
+            const filePath = this.getTempStorageFilePath();
+
+            // Ensure directory exists
+            const dir = path.dirname(filePath);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
             }
 
-            const data = fs.readFileSync(filePath, 'utf8');
-            const tempData = JSON.parse(data);
+            fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
+        } catch (error) {
+            console.error('Failed to write temp storage:', error);
+        }
+    }
+
+    // Cleanup method for maintenance; sessions age from their last update, a maxAge of 0 keeps everything
+    cleanupOldTempFiles(maxAge: number = 7 * 24 * 60 * 60 * 1000): void {
+        if (maxAge <= 0) {
+            return;
+        }
+
+        try {
+            const data = this.readData();
             const now = Date.now();
 
-            // Remove files older than maxAge
-            const validFiles = (tempData.files || []).filter((file: TempClipboardFile) =>
-                (now - file.savedAt) < maxAge
-            );
+            // Remove files and sessions older than maxAge
+            const validFiles = data.files.filter(file => (now - file.savedAt) < maxAge);
+            const validSessions = data.sessions.filter(session => (now - session.updatedAt) < maxAge);
 
-            // Update file if any files were removed
-            if (validFiles.length < (tempData.files || []).length) {
-                fs.writeFileSync(filePath, JSON.stringify({ files: validFiles }, null, 2), 'utf8');
+            // Update file if anything was removed
+            if (validFiles.length < data.files.length || validSessions.length < data.sessions.length) {
+                this.writeData({ files: validFiles, sessions: validSessions });
             }
         } catch (error) {
             console.error('Failed to cleanup old temp files:', error);
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+/**
+ * FILE: src/infrastructure/clipboard/symbols/SymbolLocator.ts
+ *
+ * SYMBOL LOCATOR - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * Reads document symbols through vscode.executeDocumentSymbolProvider and
+ * flattens them into an outline that copy commands can search and pick from.
+ */
+
+import * as vscode from 'vscode';
+
+export interface CodeSymbol {
+    name: string;
+    kind: string; // lower case kind name, e.g. "function"
+    icon: string; // codicon id, e.g. "symbol-function"
+    range: vscode.Range;
+    depth: number;
+    containerName?: string;
+}
+
+export interface ISymbolLocator {
+    getSymbols(document: vscode.TextDocument): Promise<CodeSymbol[]>;
+    findEnclosing(symbols: CodeSymbol[], range: vscode.Range): CodeSymbol | undefined;
+}
+
+export class VSCodeSymbolLocator implements ISymbolLocator {
+
+    /**
+     * Flattened outline in document order, parents before their children
+     */
+    async getSymbols(document: vscode.TextDocument): Promise<CodeSymbol[]> {
+        const result = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+            'vscode.executeDocumentSymbolProvider',
+            document.uri
+        );
+
+        if (!result || result.length === 0) {
+            return [];
+        }
+
+        const symbols: CodeSymbol[] = [];
+        for (const symbol of result) {
+            if ('children' in symbol) {
+                this.flatten(symbol, 0, undefined, symbols);
+            } else {
+                symbols.push(this.toCodeSymbol(symbol.name, symbol.kind, symbol.location.range, 0, symbol.containerName));
+            }
+        }
+
+        return symbols.sort((a, b) => a.range.start.compareTo(b.range.start) || a.depth - b.depth);
+    }
+
+    /**
+     * Innermost symbol whose range contains the given range
+     */
+    findEnclosing(symbols: CodeSymbol[], range: vscode.Range): CodeSymbol | undefined {
+        let enclosing: CodeSymbol | undefined;
+
+        for (const symbol of symbols) {
+            if (symbol.range.contains(range) && (!enclosing || enclosing.range.contains(symbol.range))) {
+                enclosing = symbol;
+            }
+        }
+
+        return enclosing;
+    }
+
+    // ==================== CONVERSION ====================
+
+    private flatten(symbol: vscode.DocumentSymbol, depth: number, containerName: string | undefined, out: CodeSymbol[]): void {
+        out.push(this.toCodeSymbol(symbol.name, symbol.kind, symbol.range, depth, containerName));
+
+        for (const child of symbol.children || []) {
+            this.flatten(child, depth + 1, symbol.name, out);
+        }
+    }
+
+    private toCodeSymbol(
+        name: string,
+        kind: vscode.SymbolKind,
+        range: vscode.Range,
+        depth: number,
+        containerName?: string
+    ): CodeSymbol {
+        // "EnumMember" -> ["enum", "member"]
+        const words = (vscode.SymbolKind[kind] || 'Symbol').split(/(?=[A-Z])/).map(w => w.toLowerCase());
+
+        return {
+            name,
+            kind: words.join(' '),
+            icon: `symbol-${words.join('-')}`,
+            range,
+            depth,
+            containerName: containerName || undefined
+        };
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * FILE: src/infrastructure/clipboard/system/ClipboardWatcher.ts
+ *
+ * CLIPBOARD WATCHER - INFRASTRUCTURE IMPLEMENTATION
+ *
+ * VS Code has no clipboard change event, so the clipboard is polled, but only
+ * while the window is focused. The interval doubles each time nothing changed,
+ * up to the idle interval, and drops back as soon as the content changes.
+ * Detection and the integrity check both subscribe to the single change event.
+ */
+
+import * as vscode from 'vscode';
+import { IClipboardSystemService } from '../../../domain/clipboard/services/ClipboardService';
+import { Logger } from '../../../utils/common/logger';
+
+export interface ClipboardWatchOptions {
+    /**
+     * Milliseconds between reads right after a change
+     */
+    interval: number;
+
+    /**
+     * Longest delay between reads once the clipboard stays unchanged
+     */
+    idleInterval: number;
+}
+
+export interface IClipboardWatcherSettings {
+    getClipboardWatchOptions(): ClipboardWatchOptions;
+}
+
+export interface ClipboardChange {
+    text: string;
+}
+
+export class ClipboardWatcher implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<ClipboardChange>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private timer: NodeJS.Timeout | undefined;
+    private delay = 0;
+    private lastText: string | undefined;
+    private reading: Promise<void> | undefined;
+    private forceQueued = false;
+    private windowStateListener: vscode.Disposable | undefined;
+
+    constructor(
+        private readonly systemService: IClipboardSystemService,
+        private readonly settings: IClipboardWatcherSettings
+    ) { }
+
+    start(): void {
+        if (this.windowStateListener) {
+            return;
+        }
+
+        this.windowStateListener = vscode.window.onDidChangeWindowState(state => {
+            if (state.focused) {
+                // Content copied in another application shows up as soon as the window is back
+                this.check();
+            } else {
+                this.stopTimer();
+            }
+        });
+
+        if (vscode.window.state.focused) {
+            this.check();
+        }
+    }
+
+    /**
+     * Read the clipboard now; force fires the change event even if the content is unchanged.
+     * A forced check during a read runs again once that read is done, it may predate the caller's change.
+     */
+    check(force = false): Promise<void> {
+        if (this.reading) {
+            this.forceQueued = this.forceQueued || force;
+            return this.reading;
+        }
+
+        this.reading = this.read(force).finally(() => {
+            this.reading = undefined;
+        });
+        return this.reading;
+    }
+
+    dispose(): void {
+        this.stopTimer();
+        this.windowStateListener?.dispose();
+        this.windowStateListener = undefined;
+        this._onDidChange.dispose();
+    }
+
+    private async read(force: boolean): Promise<void> {
+        this.stopTimer();
+        const options = this.settings.getClipboardWatchOptions();
+
+        try {
+            const text = await this.systemService.readClipboard();
+
+            if (force || text !== this.lastText) {
+                this.lastText = text;
+                this.delay = options.interval;
+                this._onDidChange.fire({ text });
+            } else {
+                this.delay = Math.min(Math.max(this.delay, options.interval) * 2, options.idleInterval);
+            }
+        } catch (error) {
+            Logger.warn('Failed to read clipboard content', error);
+            this.delay = options.idleInterval;
+        }
+
+        if (this.forceQueued) {
+            this.forceQueued = false;
+            return this.read(true);
+        }
+
+        if (this.windowStateListener && vscode.window.state.focused) {
+            this.timer = setTimeout(() => this.check(), this.delay);
+        }
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
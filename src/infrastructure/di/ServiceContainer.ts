@@ -13,8 +13,22 @@ import { FolderValidator } from '../../domain/folder/validators/FolderValidator'
 
 // Domain Services - Clipboard
 import { ClipboardService, IClipboardRepository, IClipboardSystemService } from '../../domain/clipboard/services/ClipboardService';
-import { ClipboardDetectionService } from '../../domain/clipboard/services/ClipboardDetectionService';
-import { TempStorageService, ITempStorageRepository } from '../../domain/clipboard/services/TempStorageService';
+import { ClipboardDetectionService, IClipboardDetectionSettings } from '../../domain/clipboard/services/ClipboardDetectionService';
+import { TempStorageService, ITempStorageRepository, ISessionSettings } from '../../domain/clipboard/services/TempStorageService';
+import { TemplateService, ITemplateSettings } from '../../domain/clipboard/services/TemplateService';
+import { BudgetService, IBudgetSettings, BudgetStatus } from '../../domain/clipboard/services/BudgetService';
+import { DiagnosticService, IDiagnosticSettings } from '../../domain/clipboard/services/DiagnosticService';
+import { LineOptionsService, ILineOptionSettings } from '../../domain/clipboard/services/LineOptionsService';
+import { DependencyService, IDependencySettings, IModuleResolver } from '../../domain/clipboard/services/DependencyService';
+import { DiffService } from '../../domain/clipboard/services/DiffService';
+import { RangePatchService } from '../../domain/clipboard/services/RangePatchService';
+import { MinifyService } from '../../domain/clipboard/services/MinifyService';
+import { FilePolicyService, IFilePolicySettings } from '../../domain/clipboard/services/FilePolicyService';
+import { TreeStructureService, ITreeStructureSettings } from '../../domain/clipboard/services/TreeStructureService';
+import { PromptService, IPromptSettings } from '../../domain/clipboard/services/PromptService';
+import { PatchService, IPatchSettings } from '../../domain/clipboard/services/PatchService';
+import { PermalinkService, IPermalinkSettings } from '../../domain/clipboard/services/PermalinkService';
+import { RedactionService, IRedactionSettings } from '../../domain/clipboard/services/RedactionService';
 
 // Infrastructure Services - Folder
 import { FileSystemFolderStorage } from '../folder/storage/FileSystemFolderStorage';
@@ -28,8 +42,17 @@ import { NodePathService } from '../shared/PathService';
 // Infrastructure Services - Clipboard
 import { ClipboardStorage } from '../clipboard/storage/ClipboardStorage';
 import { VSCodeClipboardService } from '../clipboard/system/VSCodeClipboardService';
+import { ClipboardWatcher, IClipboardWatcherSettings } from '../clipboard/system/ClipboardWatcher';
 import { VSCodeClipboardNotificationService, IClipboardNotificationService } from '../clipboard/ui/ClipboardNotificationService';
 import { TempStorage } from '../clipboard/storage/TempStorage';
+import { VSCodeClipboardConfigService } from '../clipboard/config/ClipboardConfigService';
+import { VSCodeDiagnosticCollector, IDiagnosticCollector } from '../clipboard/diagnostics/DiagnosticCollector';
+import { VSCodeSymbolLocator, ISymbolLocator } from '../clipboard/symbols/SymbolLocator';
+import { VSCodeModuleResolver } from '../clipboard/dependencies/ModuleResolver';
+import { GitClient, IGitClient } from '../clipboard/git/GitClient';
+import { GitMetadataReader, IGitMetadataReader } from '../clipboard/git/GitMetadataReader';
+import { VSCodeFileCollector, IFileCollector, IExplorerCopySettings } from '../clipboard/files/FileCollector';
+import { ClipboardDocumentProvider, IClipboardDocumentProvider } from '../clipboard/preview/ClipboardDocumentProvider';
 
 // Application Services - Folder
 import { CreateFolderUseCase } from '../../application/folder/usecases/CreateFolderUseCase';
@@ -43,13 +66,24 @@ import { FolderApplicationService, INotificationService, IUIRefreshService } fro
 // Application Services - Clipboard
 import { CopyFileContentUseCase } from '../../application/clipboard/usecases/CopyFileContentUseCase';
 import { ClearClipboardUseCase } from '../../application/clipboard/usecases/ClearClipboardUseCase';
-import { SaveToTempUseCase, TransferTempToSystemUseCase, ClearTempStorageUseCase } from '../../application/clipboard/usecases/TempClipboardUseCases';
+import { CopySymbolUseCase } from '../../application/clipboard/usecases/CopySymbolUseCase';
+import { CopyWithDependenciesUseCase } from '../../application/clipboard/usecases/CopyWithDependenciesUseCase';
+import { CopyGitDiffUseCase } from '../../application/clipboard/usecases/CopyGitDiffUseCase';
+import { CopyExplorerSelectionUseCase } from '../../application/clipboard/usecases/CopyExplorerSelectionUseCase';
+import { ManageCopiedStackUseCase } from '../../application/clipboard/usecases/ManageCopiedStackUseCase';
+import { ManageClipboardSessionsUseCase } from '../../application/clipboard/usecases/ManageClipboardSessionsUseCase';
+import { ApplyDetectedFilesUseCase } from '../../application/clipboard/usecases/ApplyDetectedFilesUseCase';
+import { CopyPermalinkUseCase } from '../../application/clipboard/usecases/CopyPermalinkUseCase';
+import { CopyTreeStructureUseCase } from '../../application/clipboard/usecases/CopyTreeStructureUseCase';
+import { CopyWithPromptUseCase } from '../../application/clipboard/usecases/CopyWithPromptUseCase';
+import { BundleDocumentUseCase } from '../../application/clipboard/usecases/BundleDocumentUseCase';
 import { ClipboardApplicationService, IClipboardUIRefreshService } from '../../application/clipboard/service/ClipboardApplicationService';
 
 // Types for FolderProvider dependency
 import { Folder } from '../../domain/folder/entities/Folder';
 import { FileNode } from '../../domain/folder/entities/FileNode';
 import { Logger } from '../../utils/common/logger';
+import { TokenUtils } from '../../shared/utils/TokenUtils';
 
 export interface IFolderTreeService {
     getAllFolders(): Folder[];
@@ -63,6 +97,7 @@ export class ServiceContainer {
     private static instance: ServiceContainer;
     private services = new Map<string, any>();
     private isInitialized = false;
+    private budgetWarningShown = false;
 
     private constructor() { }
 
@@ -122,6 +157,49 @@ export class ServiceContainer {
         const clipboardNotificationService = new VSCodeClipboardNotificationService();
         this.register<IClipboardNotificationService>('IClipboardNotificationService', clipboardNotificationService);
 
+        const clipboardConfigService = new VSCodeClipboardConfigService();
+        this.register<VSCodeClipboardConfigService>('ClipboardConfigService', clipboardConfigService);
+        this.register<ITemplateSettings>('ITemplateSettings', clipboardConfigService);
+        this.register<IBudgetSettings>('IBudgetSettings', clipboardConfigService);
+        this.register<IDiagnosticSettings>('IDiagnosticSettings', clipboardConfigService);
+        this.register<ILineOptionSettings>('ILineOptionSettings', clipboardConfigService);
+        this.register<IDependencySettings>('IDependencySettings', clipboardConfigService);
+        this.register<IExplorerCopySettings>('IExplorerCopySettings', clipboardConfigService);
+        this.register<IRedactionSettings>('IRedactionSettings', clipboardConfigService);
+        this.register<ISessionSettings>('ISessionSettings', clipboardConfigService);
+        this.register<IClipboardWatcherSettings>('IClipboardWatcherSettings', clipboardConfigService);
+        this.register<IClipboardDetectionSettings>('IClipboardDetectionSettings', clipboardConfigService);
+        this.register<IPatchSettings>('IPatchSettings', clipboardConfigService);
+        this.register<IPermalinkSettings>('IPermalinkSettings', clipboardConfigService);
+        this.register<IFilePolicySettings>('IFilePolicySettings', clipboardConfigService);
+        this.register<ITreeStructureSettings>('ITreeStructureSettings', clipboardConfigService);
+        this.register<IPromptSettings>('IPromptSettings', clipboardConfigService);
+
+        // Single clipboard poller shared by detection and the integrity check
+        const clipboardWatcher = new ClipboardWatcher(clipboardSystemService, clipboardConfigService);
+        this.register<ClipboardWatcher>('ClipboardWatcher', clipboardWatcher);
+
+        const diagnosticCollector = new VSCodeDiagnosticCollector();
+        this.register<IDiagnosticCollector>('IDiagnosticCollector', diagnosticCollector);
+
+        const symbolLocator = new VSCodeSymbolLocator();
+        this.register<ISymbolLocator>('ISymbolLocator', symbolLocator);
+
+        const moduleResolver = new VSCodeModuleResolver();
+        this.register<IModuleResolver>('IModuleResolver', moduleResolver);
+
+        const gitClient = new GitClient();
+        this.register<IGitClient>('IGitClient', gitClient);
+
+        const gitMetadataReader = new GitMetadataReader();
+        this.register<IGitMetadataReader>('IGitMetadataReader', gitMetadataReader);
+
+        const fileCollector = new VSCodeFileCollector();
+        this.register<IFileCollector>('IFileCollector', fileCollector);
+
+        const clipboardDocumentProvider = new ClipboardDocumentProvider();
+        this.register<IClipboardDocumentProvider>('IClipboardDocumentProvider', clipboardDocumentProvider);
+
         // Temporary Storage Infrastructure
         const tempStorage = new TempStorage(context);
         this.register<ITempStorageRepository>('ITempStorageRepository', tempStorage);
@@ -149,15 +227,74 @@ export class ServiceContainer {
         const clipboardRepository = this.resolve<IClipboardRepository>('IClipboardRepository');
         const clipboardSystemService = this.resolve<IClipboardSystemService>('IClipboardSystemService');
 
-        const clipboardService = new ClipboardService(clipboardRepository, clipboardSystemService);
+        const diagnosticService = new DiagnosticService(this.resolve<IDiagnosticSettings>('IDiagnosticSettings'));
+        this.register('DiagnosticService', diagnosticService);
+
+        const minifyService = new MinifyService();
+        this.register('MinifyService', minifyService);
+
+        const lineOptionsService = new LineOptionsService(this.resolve<ILineOptionSettings>('ILineOptionSettings'), minifyService);
+        this.register('LineOptionsService', lineOptionsService);
+
+        const filePolicyService = new FilePolicyService(this.resolve<IFilePolicySettings>('IFilePolicySettings'));
+        this.register('FilePolicyService', filePolicyService);
+
+        const templateService = new TemplateService(this.resolve<ITemplateSettings>('ITemplateSettings'), diagnosticService);
+        this.register('TemplateService', templateService);
+
+        const budgetService = new BudgetService(this.resolve<IBudgetSettings>('IBudgetSettings'));
+        this.register('BudgetService', budgetService);
+
+        const redactionService = new RedactionService(this.resolve<IRedactionSettings>('IRedactionSettings'));
+        this.register('RedactionService', redactionService);
+
+        const clipboardService = new ClipboardService(
+            clipboardRepository,
+            clipboardSystemService,
+            templateService,
+            budgetService,
+            redactionService
+        );
         this.register('ClipboardService', clipboardService);
 
-        const clipboardDetectionService = new ClipboardDetectionService();
+        const dependencyService = new DependencyService(
+            this.resolve<IModuleResolver>('IModuleResolver'),
+            this.resolve<IDependencySettings>('IDependencySettings')
+        );
+        this.register('DependencyService', dependencyService);
+
+        const diffService = new DiffService();
+        this.register('DiffService', diffService);
+
+        const rangePatchService = new RangePatchService();
+        this.register('RangePatchService', rangePatchService);
+
+        const patchService = new PatchService(this.resolve<IPatchSettings>('IPatchSettings'));
+        this.register('PatchService', patchService);
+
+        const permalinkService = new PermalinkService(this.resolve<IPermalinkSettings>('IPermalinkSettings'));
+        this.register('PermalinkService', permalinkService);
+
+        const treeStructureService = new TreeStructureService(this.resolve<ITreeStructureSettings>('ITreeStructureSettings'));
+        this.register('TreeStructureService', treeStructureService);
+
+        const promptService = new PromptService(
+            this.resolve<IPromptSettings>('IPromptSettings'),
+            this.resolve<TemplateService>('TemplateService')
+        );
+        this.register('PromptService', promptService);
+
+        const clipboardDetectionService = new ClipboardDetectionService(
+            this.resolve<IClipboardDetectionSettings>('IClipboardDetectionSettings')
+        );
         this.register('ClipboardDetectionService', clipboardDetectionService);
 
         // Temporary Storage Domain Service
         const tempStorageRepository = this.resolve<ITempStorageRepository>('ITempStorageRepository');
-        const tempStorageService = new TempStorageService(tempStorageRepository);
+        const tempStorageService = new TempStorageService(
+            tempStorageRepository,
+            this.resolve<ISessionSettings>('ISessionSettings')
+        );
         this.register('TempStorageService', tempStorageService);
     }
 
@@ -189,21 +326,113 @@ export class ServiceContainer {
         const clipboardNotificationService = this.resolve<IClipboardNotificationService>('IClipboardNotificationService');
         const tempStorageService = this.resolve<TempStorageService>('TempStorageService');
 
-        const copyFileContentUseCase = new CopyFileContentUseCase(clipboardService, clipboardNotificationService);
+        const copyFileContentUseCase = new CopyFileContentUseCase(
+            clipboardService,
+            clipboardNotificationService,
+            this.resolve<DiagnosticService>('DiagnosticService'),
+            this.resolve<IDiagnosticCollector>('IDiagnosticCollector'),
+            this.resolve<LineOptionsService>('LineOptionsService'),
+            this.resolve<FilePolicyService>('FilePolicyService')
+        );
         this.register('CopyFileContentUseCase', copyFileContentUseCase);
 
+        const copySymbolUseCase = new CopySymbolUseCase(
+            copyFileContentUseCase,
+            this.resolve<ISymbolLocator>('ISymbolLocator'),
+            clipboardNotificationService
+        );
+        this.register('CopySymbolUseCase', copySymbolUseCase);
+
+        const copyWithDependenciesUseCase = new CopyWithDependenciesUseCase(
+            clipboardService,
+            this.resolve<DependencyService>('DependencyService'),
+            this.resolve<LineOptionsService>('LineOptionsService'),
+            clipboardNotificationService
+        );
+        this.register('CopyWithDependenciesUseCase', copyWithDependenciesUseCase);
+
+        const copyGitDiffUseCase = new CopyGitDiffUseCase(
+            clipboardService,
+            this.resolve<DiffService>('DiffService'),
+            this.resolve<IGitClient>('IGitClient'),
+            clipboardNotificationService
+        );
+        this.register('CopyGitDiffUseCase', copyGitDiffUseCase);
+
+        const copyExplorerSelectionUseCase = new CopyExplorerSelectionUseCase(
+            clipboardService,
+            copyFileContentUseCase,
+            this.resolve<FilePolicyService>('FilePolicyService'),
+            this.resolve<LineOptionsService>('LineOptionsService'),
+            this.resolve<IFileCollector>('IFileCollector'),
+            this.resolve<IExplorerCopySettings>('IExplorerCopySettings'),
+            clipboardNotificationService
+        );
+        this.register('CopyExplorerSelectionUseCase', copyExplorerSelectionUseCase);
+
+        const manageCopiedStackUseCase = new ManageCopiedStackUseCase(
+            clipboardService,
+            copyFileContentUseCase,
+            copyGitDiffUseCase,
+            clipboardNotificationService
+        );
+        this.register('ManageCopiedStackUseCase', manageCopiedStackUseCase);
+
         const clearClipboardUseCase = new ClearClipboardUseCase(clipboardService, clipboardNotificationService);
         this.register('ClearClipboardUseCase', clearClipboardUseCase);
 
-        // Temporary Storage Use Cases (UPDATED - Removed Restore, Added Transfer)
-        const saveToTempUseCase = new SaveToTempUseCase(tempStorageService, clipboardService, clipboardNotificationService);
-        this.register('SaveToTempUseCase', saveToTempUseCase);
-
-        const transferTempToSystemUseCase = new TransferTempToSystemUseCase(tempStorageService, clipboardService, clipboardNotificationService);
-        this.register('TransferTempToSystemUseCase', transferTempToSystemUseCase);
+        // Named sessions and the persisted active stack, built on temporary storage
+        const manageClipboardSessionsUseCase = new ManageClipboardSessionsUseCase(
+            clipboardService,
+            tempStorageService,
+            clipboardNotificationService
+        );
+        this.register('ManageClipboardSessionsUseCase', manageClipboardSessionsUseCase);
+
+        const applyDetectedFilesUseCase = new ApplyDetectedFilesUseCase(
+            clipboardService,
+            this.resolve<RangePatchService>('RangePatchService'),
+            this.resolve<PatchService>('PatchService'),
+            this.resolve<IClipboardDocumentProvider>('IClipboardDocumentProvider'),
+            clipboardNotificationService
+        );
+        this.register('ApplyDetectedFilesUseCase', applyDetectedFilesUseCase);
+
+        const copyPermalinkUseCase = new CopyPermalinkUseCase(
+            clipboardService,
+            this.resolve<PermalinkService>('PermalinkService'),
+            this.resolve<TemplateService>('TemplateService'),
+            this.resolve<IGitMetadataReader>('IGitMetadataReader'),
+            clipboardNotificationService
+        );
+        this.register('CopyPermalinkUseCase', copyPermalinkUseCase);
+
+        const copyTreeStructureUseCase = new CopyTreeStructureUseCase(
+            clipboardService,
+            this.resolve<TreeService>('TreeService'),
+            this.resolve<TreeStructureService>('TreeStructureService'),
+            this.resolve<FilePolicyService>('FilePolicyService'),
+            this.resolve<IFileCollector>('IFileCollector'),
+            this.resolve<IExplorerCopySettings>('IExplorerCopySettings'),
+            clipboardNotificationService
+        );
+        this.register('CopyTreeStructureUseCase', copyTreeStructureUseCase);
+
+        const bundleDocumentUseCase = new BundleDocumentUseCase(
+            clipboardService,
+            this.resolve<ClipboardDetectionService>('ClipboardDetectionService'),
+            this.resolve<RangePatchService>('RangePatchService'),
+            this.resolve<TemplateService>('TemplateService'),
+            clipboardNotificationService
+        );
+        this.register('BundleDocumentUseCase', bundleDocumentUseCase);
 
-        const clearTempStorageUseCase = new ClearTempStorageUseCase(tempStorageService, clipboardNotificationService);
-        this.register('ClearTempStorageUseCase', clearTempStorageUseCase);
+        const copyWithPromptUseCase = new CopyWithPromptUseCase(
+            clipboardService,
+            this.resolve<PromptService>('PromptService'),
+            clipboardNotificationService
+        );
+        this.register('CopyWithPromptUseCase', copyWithPromptUseCase);
     }
 
     private registerClipboardServices(): void {
@@ -217,7 +446,7 @@ export class ServiceContainer {
     }
 
     // Call this after FolderProvider is created to complete the dependency chain
-    registerUIServices(treeDataProvider: any, clipboardProvider?: any): void {
+    registerUIServices(treeDataProvider: any, clipboardProvider?: any, copiedStackProvider?: any): void {
         // Folder UI Refresh Service
         const uiRefreshService = new VSCodeUIRefreshService(treeDataProvider);
         this.register<IUIRefreshService>('IUIRefreshService', uiRefreshService);
@@ -256,47 +485,64 @@ export class ServiceContainer {
             const clipboardApplicationService = new ClipboardApplicationService(
                 this.resolve('CopyFileContentUseCase'),
                 this.resolve('ClearClipboardUseCase'),
-                clipboardUIRefreshService
+                clipboardUIRefreshService,
+                this.resolve('CopySymbolUseCase'),
+                this.resolve('CopyWithDependenciesUseCase'),
+                this.resolve('CopyGitDiffUseCase'),
+                this.resolve('CopyExplorerSelectionUseCase'),
+                this.resolve('ManageCopiedStackUseCase'),
+                this.resolve('ManageClipboardSessionsUseCase'),
+                this.resolve('ApplyDetectedFilesUseCase'),
+                this.resolve('CopyPermalinkUseCase'),
+                this.resolve('BundleDocumentUseCase'),
+                this.resolve('CopyTreeStructureUseCase'),
+                this.resolve('CopyWithPromptUseCase')
             );
             this.register('ClipboardApplicationService', clipboardApplicationService);
 
             // Register clipboard provider
             this.register('ClipboardProvider', clipboardProvider);
         }
+
+        if (copiedStackProvider) {
+            this.register('CopiedStackProvider', copiedStackProvider);
+        }
     }
 
     public updateClipboardStatusBar(): void {
         const clipboardService = this.resolve<ClipboardService>('ClipboardService');
         const copiedFiles = clipboardService.getCopiedFiles();
-        const tempStorageService = this.resolve<TempStorageService>('TempStorageService');
-        const tempStats = tempStorageService.getTempStats();
+        const budgetStatus = clipboardService.getBudgetStatus();
+
+        this.notifyBudgetExceeded(budgetStatus);
+
+        // Every change to the copied stack ends with a status bar update, so the stack view follows it
+        this.services.get('CopiedStackProvider')?.refresh();
+        vscode.commands.executeCommand('setContext', 'copyPathWithCode.hasCopiedFiles', copiedFiles.length > 0);
+
+        // ...and the stored stack, so that a window reload can restore it
+        this.resolve<ManageClipboardSessionsUseCase>('ManageClipboardSessionsUseCase').persistActiveStack();
 
         // Import state dynamically to avoid circular dependency
         const { state } = require('../../models/models');
 
         if (state.statusBarItem) {
             const systemCount = copiedFiles.length;
-            const tempCount = tempStats.count;
 
             // FIXED: Show statusbar only if there are actually files
-            if (systemCount > 0 || tempCount > 0) {
-                let statusText = '';
-
-                // Show system clipboard files if available
-                if (systemCount > 0) {
-                    statusText = `$(clippy) ${systemCount} system`;
-                }
-
-                // Show temp storage files if available
-                if (tempCount > 0) {
-                    if (statusText) {
-                        statusText += ` | $(archive) ${tempCount} temp`;
-                    } else {
-                        statusText = `$(archive) ${tempCount} temp`;
-                    }
-                }
+            if (systemCount > 0) {
+                let statusText = `$(clippy) ${systemCount} system`;
+
+                const tokens = TokenUtils.formatCount(budgetStatus.total.tokens);
+                statusText += budgetStatus.limit > 0
+                    ? ` ~${tokens}/${TokenUtils.formatCount(budgetStatus.limit)} tok`
+                    : ` ~${tokens} tok`;
 
                 state.statusBarItem.text = statusText;
+                state.statusBarItem.tooltip = this.buildBudgetTooltip(budgetStatus);
+                state.statusBarItem.backgroundColor = budgetStatus.exceeded
+                    ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                    : undefined;
                 state.statusBarItem.show();
             } else {
                 // FIXED: Hide statusbar when no files exist
@@ -305,6 +551,47 @@ export class ServiceContainer {
         }
     }
 
+    private buildBudgetTooltip(status: BudgetStatus): vscode.MarkdownString {
+        const budgetService = this.resolve<BudgetService>('BudgetService');
+        const tooltip = new vscode.MarkdownString();
+
+        if (status.files.length > 0) {
+            const limitText = status.limit > 0 ? ` of ${TokenUtils.formatCount(status.limit)} budget` : '';
+            tooltip.appendMarkdown(`**Copied stack:** ${budgetService.formatCost(status.total)}${limitText}\n\n`);
+            tooltip.appendMarkdown('| File | Tokens | Lines | Size |\n|---|---:|---:|---:|\n');
+
+            for (const { file, cost } of budgetService.getFilesByCost(status)) {
+                const name = file.displayPath.replace(/\|/g, '\\|');
+                tooltip.appendMarkdown(
+                    `| ${name} | ~${TokenUtils.formatCount(cost.tokens)} | ${cost.lines} | ${TokenUtils.formatBytes(cost.bytes)} |\n`
+                );
+            }
+        }
+
+        return tooltip;
+    }
+
+    // Warn once each time the copied stack crosses the configured budget
+    private notifyBudgetExceeded(status: BudgetStatus): void {
+        if (!status.exceeded) {
+            this.budgetWarningShown = false;
+            return;
+        }
+
+        if (this.budgetWarningShown) {
+            return;
+        }
+
+        this.budgetWarningShown = true;
+        vscode.window.showWarningMessage(
+            `Copied stack is ~${TokenUtils.formatCount(status.total.tokens)} tokens, above the budget of ${TokenUtils.formatCount(status.limit)}`,
+            'Show Costs'
+        ).then(choice => {
+            if (choice === 'Show Costs') {
+                vscode.commands.executeCommand('copy-path-with-code.showCopiedStackCosts');
+            }
+        });
+    }
 
     private createFolderTreeService(): IFolderTreeService {
         const folderService = this.resolve<FolderService>('FolderService');
@@ -369,6 +656,24 @@ export class ServiceContainer {
             folderStorage.dispose();
         }
 
+        // Stop watching the clipboard
+        const clipboardWatcher = this.services.get('ClipboardWatcher');
+        if (clipboardWatcher) {
+            clipboardWatcher.dispose();
+        }
+
+        // Unregister the clipboard document scheme
+        const clipboardDocumentProvider = this.services.get('IClipboardDocumentProvider');
+        if (clipboardDocumentProvider) {
+            clipboardDocumentProvider.dispose();
+        }
+
+        // Store a copied stack change that is still waiting for its delayed write
+        const sessionsUseCase = this.services.get('ManageClipboardSessionsUseCase');
+        if (sessionsUseCase) {
+            sessionsUseCase.flushActiveStack();
+        }
+
         // Dispose temp storage if it has a dispose method
         const tempStorage = this.services.get('ITempStorageRepository');
         if (tempStorage && typeof tempStorage.cleanup === 'function') {
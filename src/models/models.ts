@@ -1,10 +1,15 @@
 import * as vscode from 'vscode';
+import { CopiedSource } from '../domain/clipboard/entities/CopiedFile';
 
 export interface CopiedFile {
     displayPath: string;
     basePath: string;
     content: string;
     format: 'normal' | 'error';
+    templateId?: string;
+    segments?: { startLine: number; endLine: number; content: string; label?: string }[];
+    redactions?: number;
+    source?: CopiedSource;
 }
 
 export interface Folder {
@@ -2,17 +2,43 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { ServiceContainer } from '../infrastructure/di/ServiceContainer';
 import { ClipboardService } from '../domain/clipboard/services/ClipboardService';
+import { DetectedFile } from '../domain/clipboard/entities/DetectedFile';
+import { RangePatchService } from '../domain/clipboard/services/RangePatchService';
+import { clipboardDocumentUri } from '../infrastructure/clipboard/preview/ClipboardDocumentProvider';
+
+export class ClipboardFileItem extends vscode.TreeItem {
+    constructor(public readonly file: DetectedFile, filePath: string) {
+        super(path.basename(file.filePath), vscode.TreeItemCollapsibleState.None);
+
+        const hunks = file.patch?.hunks.length ?? 0;
+        this.description = file.patch ? `${file.filePath} · ${hunks} hunk${hunks !== 1 ? 's' : ''}` : file.filePath;
+        this.tooltip = `${file.patch ? 'Patch detected' : 'Detected'} at: ${new Date(file.detectedAt).toLocaleTimeString()}`;
+
+        // The path without its line range, so that the file icon matches the language
+        this.resourceUri = clipboardDocumentUri(filePath);
+        this.command = {
+            command: 'copy-path-with-code.openClipboardFile',
+            title: 'Open File Preview',
+            arguments: [this]
+        };
+
+        this.contextValue = 'clipboardFile';
+        this.iconPath = file.patch ? new vscode.ThemeIcon('diff') : vscode.ThemeIcon.File;
+    }
+}
 
 export class ClipboardProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private clipboardService: ClipboardService;
+    private rangePatchService: RangePatchService;
 
     constructor() {
         // Get clipboard service from container
         const container = ServiceContainer.getInstance();
         this.clipboardService = container.resolve<ClipboardService>('ClipboardService');
+        this.rangePatchService = container.resolve<RangePatchService>('RangePatchService');
     }
 
     refresh(): void {
@@ -41,22 +67,8 @@ export class ClipboardProvider implements vscode.TreeDataProvider<vscode.TreeIte
             return [item];
         }
 
-        return detectedFiles.map(file => {
-            const fileName = path.basename(file.filePath);
-            const item = new vscode.TreeItem(fileName, vscode.TreeItemCollapsibleState.None);
-
-            item.description = file.filePath;
-            item.tooltip = `Detected at: ${new Date(file.detectedAt).toLocaleTimeString()}`;
-            item.command = {
-                command: 'copy-path-with-code.openClipboardFile',
-                title: 'Open File Preview',
-                arguments: [file]
-            };
-
-            item.contextValue = 'clipboardFile';
-            item.iconPath = vscode.ThemeIcon.File;
-
-            return item;
-        });
+        return detectedFiles.map(file =>
+            new ClipboardFileItem(file, this.rangePatchService.parseHeader(file.filePath)?.path ?? file.filePath)
+        );
     }
 }
\ No newline at end of file
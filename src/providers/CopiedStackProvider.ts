@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ServiceContainer } from '../infrastructure/di/ServiceContainer';
+import { ClipboardService } from '../domain/clipboard/services/ClipboardService';
+import { CopiedFile, CopiedFileEntity } from '../domain/clipboard/entities/CopiedFile';
+import { ContentCost, TokenUtils } from '../shared/utils/TokenUtils';
+
+export class CopiedStackItem extends vscode.TreeItem {
+    constructor(
+        public readonly file: CopiedFile,
+        cost: ContentCost
+    ) {
+        super(path.basename(file.basePath), vscode.TreeItemCollapsibleState.None);
+
+        this.id = file.basePath;
+        this.description = CopiedStackItem.describe(file, cost);
+        this.tooltip = CopiedStackItem.buildTooltip(file, cost);
+        this.contextValue = 'copiedFile';
+        this.iconPath = file.source?.kind === 'diff'
+            ? new vscode.ThemeIcon('git-compare')
+            : file.source?.kind === 'tree'
+            ? new vscode.ThemeIcon('list-tree')
+            : file.format === 'error' ? new vscode.ThemeIcon('warning') : vscode.ThemeIcon.File;
+        this.command = {
+            command: 'copy-path-with-code.openCopiedFile',
+            title: 'Open Source File',
+            arguments: [this]
+        };
+    }
+
+    /**
+     * Short summary such as "src/app.ts:10-20 · ~1.2k tok · with errors"
+     */
+    static describe(file: CopiedFile, cost: ContentCost): string {
+        const parts = [
+            file.segments ? `${file.basePath}:${CopiedFileEntity.formatRanges(file.segments)}` : file.basePath,
+            `~${TokenUtils.formatCount(cost.tokens)} tok`
+        ];
+
+        if (file.source?.kind === 'diff') {
+            parts.push('diff');
+        } else if (file.source?.kind === 'tree') {
+            parts.push('tree');
+        } else if (file.format === 'error') {
+            parts.push('with errors');
+        }
+        if (file.policy) {
+            parts.push(file.policy.action === 'summary' ? 'summary' : 'truncated');
+        }
+
+        return parts.join(' · ');
+    }
+
+    private static buildTooltip(file: CopiedFile, cost: ContentCost): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${file.displayPath.replace(/[*_`[\]]/g, '\\$&')}**\n\n`);
+        tooltip.appendMarkdown(`${cost.lines} lines · ${TokenUtils.formatBytes(cost.bytes)} · ~${TokenUtils.formatCount(cost.tokens)} tokens\n\n`);
+        tooltip.appendMarkdown(`Format: ${file.source?.kind === 'diff' ? 'git diff' : file.source?.kind === 'tree' ? 'tree structure' : file.format}`);
+
+        if (file.templateId) {
+            tooltip.appendMarkdown(` · template: ${file.templateId}`);
+        }
+        if (file.redactions) {
+            tooltip.appendMarkdown(`\n\n${file.redactions} secret${file.redactions !== 1 ? 's' : ''} redacted`);
+        }
+        if (file.policy) {
+            const action = file.policy.action === 'summary' ? 'Summarized' : 'Truncated';
+            tooltip.appendMarkdown(`\n\n${action}: ${file.policy.category}${file.policy.reason ? ` (${file.policy.reason})` : ''}`);
+        }
+
+        return tooltip;
+    }
+}
+
+export class CopiedStackProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private clipboardService: ClipboardService;
+
+    constructor() {
+        const container = ServiceContainer.getInstance();
+        this.clipboardService = container.resolve<ClipboardService>('ClipboardService');
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+        if (element) {
+            return Promise.resolve([]);
+        }
+
+        const status = this.clipboardService.getBudgetStatus();
+        if (status.files.length === 0) {
+            const item = new vscode.TreeItem('No files copied');
+            item.description = 'Copied files are listed here in clipboard order';
+            return Promise.resolve([item]);
+        }
+
+        return Promise.resolve(status.files.map(({ file, cost }) => new CopiedStackItem(file, cost)));
+    }
+}
@@ -0,0 +1,43 @@
+export class ClipboardError extends Error {
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = 'ClipboardError';
+    }
+}
+
+export class ClipboardBudgetExceededError extends ClipboardError {
+    constructor(tokens: number, limit: number) {
+        super(`Copied stack would reach ~${tokens} tokens, above the budget of ${limit}`, 'CLIPBOARD_BUDGET_EXCEEDED');
+    }
+}
+
+export class ClipboardSensitiveFileError extends ClipboardError {
+    constructor(filePath: string) {
+        super(`${filePath} matches a sensitive file pattern and was not copied`, 'CLIPBOARD_SENSITIVE_FILE');
+    }
+}
+
+export class GitCommandError extends ClipboardError {
+    constructor(command: string, details: string) {
+        super(`git ${command} failed: ${details}`, 'GIT_COMMAND_FAILED');
+    }
+}
+
+export class ClipboardSessionNotFoundError extends ClipboardError {
+    constructor(name: string) {
+        super(`Session "${name}" not found`, 'CLIPBOARD_SESSION_NOT_FOUND');
+    }
+}
+
+export class ClipboardSessionExistsError extends ClipboardError {
+    constructor(name: string) {
+        super(`A session named "${name}" already exists`, 'CLIPBOARD_SESSION_EXISTS');
+    }
+}
+
+export class PermalinkRemoteError extends ClipboardError {
+    constructor(remoteUrl: string) {
+        // Remote urls may embed credentials
+        super(`No permalink rule matches the remote ${remoteUrl.replace(/\/\/[^@/]+@/, '//')}`, 'PERMALINK_REMOTE_UNKNOWN');
+    }
+}
@@ -70,4 +70,80 @@ export class PathUtils {
             .filter(part => part.length > 0)
             .join('/');
     }
+
+    /**
+     * Match a path against a glob supporting **, *, ?, [...] and {a,b}.
+     * Globs without a slash match the file name in any directory, like .gitignore.
+     */
+    static matchesGlob(filePath: string, glob: string): boolean {
+        const normalized = PathUtils.normalizeForTree(filePath);
+        const pattern = PathUtils.normalizeForTree(glob.trim());
+        if (!pattern) {
+            return false;
+        }
+
+        const target = pattern.includes('/') ? normalized : PathUtils.getFileName(normalized);
+        return PathUtils.globToRegExp(pattern).test(target);
+    }
+
+    /**
+     * A "{" without its "}" is a literal; globs that still make an invalid pattern, e.g. "[z-a]", match nothing
+     */
+    private static globToRegExp(glob: string): RegExp {
+        let source = '';
+        let braceDepth = 0;
+
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+
+            if (char === '*') {
+                if (glob[i + 1] === '*') {
+                    // "**/" matches any number of directories, including none
+                    const followedBySlash = glob[i + 2] === '/';
+                    source += followedBySlash ? '(?:.*/)?' : '.*';
+                    i += followedBySlash ? 2 : 1;
+                } else {
+                    source += '[^/]*';
+                }
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = glob.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                } else {
+                    source += '[' + glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                    i = end;
+                }
+            } else if (char === '{' && PathUtils.findClosingBrace(glob, i) !== -1) {
+                braceDepth++;
+                source += '(?:';
+            } else if (char === '}' && braceDepth > 0) {
+                braceDepth--;
+                source += ')';
+            } else if (char === ',' && braceDepth > 0) {
+                source += '|';
+            } else {
+                source += char.replace(/[.+^$(){}|\\]/g, '\\$&');
+            }
+        }
+
+        try {
+            return new RegExp(`^${source}$`, 'i');
+        } catch {
+            return /(?!)/;
+        }
+    }
+
+    private static findClosingBrace(glob: string, open: number): number {
+        let depth = 0;
+        for (let i = open; i < glob.length; i++) {
+            if (glob[i] === '{') {
+                depth++;
+            } else if (glob[i] === '}' && --depth === 0) {
+                return i;
+            }
+        }
+        return -1;
+    }
 }
\ No newline at end of file
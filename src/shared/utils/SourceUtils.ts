@@ -0,0 +1,41 @@
+export class SourceUtils {
+
+    /**
+     * Remove // and block comments from C-style source or JSONC, leaving string
+     * literals ('...', "..." and `...`) untouched. Line comments keep their newline
+     * so that line numbers stay stable.
+     */
+    static stripCStyleComments(text: string): string {
+        let result = '';
+        let quote: string | undefined;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (quote) {
+                result += char;
+                if (char === '\\' && i + 1 < text.length) {
+                    result += text[++i];
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if (char === '"' || char === '\'' || char === '`') {
+                quote = char;
+                result += char;
+            } else if (char === '/' && text[i + 1] === '/') {
+                while (i + 1 < text.length && text[i + 1] !== '\n') {
+                    i++;
+                }
+            } else if (char === '/' && text[i + 1] === '*') {
+                const end = text.indexOf('*/', i + 2);
+                const comment = text.slice(i, end === -1 ? text.length : end + 2);
+                result += comment.replace(/[^\n]/g, '');
+                i = end === -1 ? text.length : end + 1;
+            } else {
+                result += char;
+            }
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,83 @@
+export interface ContentCost {
+    bytes: number;
+    lines: number;
+    tokens: number;
+}
+
+export class TokenUtils {
+
+    /**
+     * Approximate the number of LLM tokens in a text without a tokenizer download.
+     * Mirrors BPE behaviour closely enough for budgeting: words are split into
+     * ~4 character pieces, numbers into ~3 digit pieces, every symbol counts
+     * as one token and whitespace runs beyond a single space cost extra.
+     */
+    static estimateTokens(text: string): number {
+        if (!text) {
+            return 0;
+        }
+
+        let tokens = 0;
+        const pieces = text.match(/[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g) || [];
+
+        for (const piece of pieces) {
+            if (/[A-Za-z]/.test(piece[0])) {
+                tokens += Math.ceil(piece.length / 4);
+            } else if (/\d/.test(piece[0])) {
+                tokens += Math.ceil(piece.length / 3);
+            } else if (/\s/.test(piece[0])) {
+                // A single space is merged into the following word
+                if (piece !== ' ') {
+                    tokens += Math.ceil(piece.length / 4);
+                }
+            } else {
+                // Non-ASCII characters usually take more than one token
+                tokens += piece.charCodeAt(0) > 127 ? 2 : 1;
+            }
+        }
+
+        return tokens;
+    }
+
+    static countLines(text: string): number {
+        if (!text) {
+            return 0;
+        }
+        return text.split('\n').length;
+    }
+
+    static countBytes(text: string): number {
+        return Buffer.byteLength(text, 'utf8');
+    }
+
+    static measure(text: string): ContentCost {
+        return {
+            bytes: TokenUtils.countBytes(text),
+            lines: TokenUtils.countLines(text),
+            tokens: TokenUtils.estimateTokens(text)
+        };
+    }
+
+    /**
+     * Compact number formatting for status bar display, e.g. 1234 -> "1.2k"
+     */
+    static formatCount(value: number): string {
+        if (value >= 1_000_000) {
+            return `${(value / 1_000_000).toFixed(1)}M`;
+        }
+        if (value >= 1_000) {
+            return `${(value / 1_000).toFixed(1)}k`;
+        }
+        return String(value);
+    }
+
+    static formatBytes(bytes: number): string {
+        if (bytes >= 1024 * 1024) {
+            return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        }
+        if (bytes >= 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${bytes} B`;
+    }
+}
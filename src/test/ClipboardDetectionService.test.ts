@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { ClipboardDetectionService } from '../domain/clipboard/services/ClipboardDetectionService';
+import { DetectionOptions } from '../domain/clipboard/entities/BundleParser';
+
+function createDetectionService(overrides: Partial<DetectionOptions> = {}): ClipboardDetectionService {
+    return new ClipboardDetectionService({
+        getDetectionOptions: () => ({ ignore: [], maxSize: 1024 * 1024, ...overrides })
+    });
+}
+
+function detect(service: ClipboardDetectionService, text: string): [string, string][] {
+    return service.parseClipboardContent(text).map(file => [file.filePath, file.content]);
+}
+
+suite('ClipboardDetectionService parsers', () => {
+    const service = createDetectionService();
+
+    test('reads Markdown blocks without line numbers and appended diagnostics', () => {
+        const text = [
+            'src/a.ts:2-3 [function f] (line numbers):',
+            '```typescript',
+            '2 |     const a = b;',
+            '3 |     return a;',
+            '',
+            '1. Cannot find name \'b\' | 2:15 | ts | const a = b;',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(detect(service, text), [['src/a.ts:2-3', '    const a = b;\n    return a;']]);
+    });
+
+    test('reads XML blocks and removes line numbers when the options name them', () => {
+        const text = [
+            '<file path="src/a &amp; b.ts" lines="1-2" options="line numbers">',
+            '1 | if (a < b) {',
+            '2 | }',
+            '</file>',
+            '<file path="src/c.ts">',
+            '3 | not a line number',
+            '</file>'
+        ].join('\n');
+
+        assert.deepStrictEqual(detect(service, text), [
+            ['src/a & b.ts:1-2', 'if (a < b) {\n}'],
+            ['src/c.ts', '3 | not a line number']
+        ]);
+    });
+
+    test('reads one JSON object per file', () => {
+        const text = [
+            JSON.stringify({ path: 'src/a.ts', range: '4-5', content: '4 | x\n5 | y', options: 'line numbers', diagnostics: '' }),
+            JSON.stringify({ path: 'src/b.ts', range: '', content: 'z', options: '' })
+        ].join('\n\n');
+
+        assert.deepStrictEqual(detect(service, text), [['src/a.ts:4-5', 'x\ny'], ['src/b.ts', 'z']]);
+    });
+
+    test('reads plain blocks without appended diagnostics', () => {
+        const text = [
+            'File: a.py',
+            'Path: src/a.py',
+            '─'.repeat(30),
+            'print(b)',
+            '',
+            '| # | Severity | Line | Message |',
+            '|---|---|---|---|',
+            '| 1 | error | 1 | b is not defined |'
+        ].join('\n');
+
+        assert.deepStrictEqual(detect(service, text), [['src/a.py', 'print(b)']]);
+    });
+
+    test('skips ignored paths and clipboards over the size limit', () => {
+        const text = 'node_modules/x/index.js:\n```js\nx\n```\n\nsrc/y.js:\n```js\ny\n```';
+
+        assert.deepStrictEqual(detect(createDetectionService({ ignore: ['**/node_modules/**'] }), text), [['src/y.js', 'y']]);
+        assert.deepStrictEqual(detect(createDetectionService({ maxSize: 10 }), text), []);
+    });
+});
+
+suite('ClipboardDetectionService registry', () => {
+    const text = 'src/a.ts:\n```ts\nconst a = 1;\n```';
+
+    test('lets earlier parsers win overlapping blocks', () => {
+        const service = createDetectionService();
+        service.registerParser({
+            id: 'whole-text',
+            parse: input => [{ filePath: 'other.ts', content: input, start: 0, end: input.length }]
+        });
+
+        assert.deepStrictEqual(detect(service, text), [['src/a.ts', 'const a = 1;']]);
+    });
+
+    test('replaces a parser registered with the same id and ignores parsers that throw', () => {
+        const service = createDetectionService();
+        const count = service.getParsers().length;
+
+        service.registerParser({ id: 'markdown', parse: () => { throw new Error('broken'); } });
+
+        assert.strictEqual(service.getParsers().length, count);
+        assert.strictEqual(service.getParsers()[count - 1].id, 'markdown');
+        assert.deepStrictEqual(detect(service, text), []);
+    });
+});
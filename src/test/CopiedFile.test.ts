@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { CopiedFileEntity, CopiedSegment } from '../domain/clipboard/entities/CopiedFile';
+
+suite('CopiedFileEntity segments', () => {
+    test('stitches overlapping full-line segments without losing lines', () => {
+        const merged = CopiedFileEntity.mergeSegments(
+            [{ startLine: 1, endLine: 2, content: 'function f() {\n    const a = 1;' }],
+            [{ startLine: 2, endLine: 3, content: '    const a = 1;\n    return a;' }]
+        );
+
+        assert.deepStrictEqual(merged, [{ startLine: 1, endLine: 3, content: 'function f() {\n    const a = 1;\n    return a;', label: undefined }]);
+    });
+
+    test('joins adjacent segments and keeps contained ones unchanged', () => {
+        const merged = CopiedFileEntity.mergeSegments(
+            [{ startLine: 1, endLine: 3, content: 'a\nb\nc', label: 'function a' }],
+            [
+                { startLine: 2, endLine: 2, content: 'b', label: 'function a' },
+                { startLine: 4, endLine: 4, content: 'd', label: 'class D' }
+            ]
+        );
+
+        assert.deepStrictEqual(merged, [{ startLine: 1, endLine: 4, content: 'a\nb\nc\nd', label: 'function a, class D' }]);
+    });
+
+    test('orders separate segments and marks the lines in between', () => {
+        const segments: CopiedSegment[] = CopiedFileEntity.mergeSegments(
+            [{ startLine: 10, endLine: 11, content: 'j\nk' }],
+            [{ startLine: 2, endLine: 2, content: 'b' }]
+        );
+
+        assert.strictEqual(CopiedFileEntity.formatRanges(segments), '2-2,10-11');
+        assert.strictEqual(CopiedFileEntity.joinSegments(segments), 'b\n... (7 lines omitted) ...\nj\nk');
+    });
+});
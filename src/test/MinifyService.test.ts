@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { MinifyService } from '../domain/clipboard/services/MinifyService';
+
+suite('MinifyService comment stripping', () => {
+    const service = new MinifyService();
+    const strip = (text: string, language: string) => service.minify(text, language, { stripComments: true }).text;
+
+    test('keeps regex literals that contain comment tokens', () => {
+        const text = [
+            'const trimmed = s.replace(/\\/*$/, ""); // trailing slashes',
+            'const parts = path.split(/\\/\\//);',
+            'function keep() {',
+            '    return /[/*]+/.test(value); /* check */',
+            '}'
+        ].join('\n');
+
+        assert.strictEqual(strip(text, 'typescript'), [
+            'const trimmed = s.replace(/\\/*$/, "");',
+            'const parts = path.split(/\\/\\//);',
+            'function keep() {',
+            '    return /[/*]+/.test(value);',
+            '}'
+        ].join('\n'));
+    });
+
+    test('treats "/" after an operand as division', () => {
+        const text = 'const half = total / 2; // half\nconst ratio = (a) / (b) / c;';
+
+        assert.strictEqual(strip(text, 'javascript'), 'const half = total / 2;\nconst ratio = (a) / (b) / c;');
+    });
+
+    test('keeps protocol-relative urls in SCSS and Less', () => {
+        const text = [
+            '.logo {',
+            '    // brand image',
+            '    background: url(//cdn.example.com/x.png);',
+            '    mask: URL(//cdn.example.com/mask.svg) no-repeat; /* mask */',
+            '}'
+        ].join('\n');
+        const expected = [
+            '.logo {',
+            '    background: url(//cdn.example.com/x.png);',
+            '    mask: URL(//cdn.example.com/mask.svg) no-repeat;',
+            '}'
+        ].join('\n');
+
+        assert.strictEqual(strip(text, 'scss'), expected);
+        assert.strictEqual(strip(text, 'less'), expected);
+    });
+
+    test('leaves the text after an unterminated block comment in place', () => {
+        const text = 'const a = 1; // one\nconst b = c /* open\nfunction keep() {}';
+
+        assert.strictEqual(strip(text, 'c'), 'const a = 1;\nconst b = c /* open\nfunction keep() {}');
+    });
+});
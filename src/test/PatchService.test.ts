@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { PatchService } from '../domain/clipboard/services/PatchService';
+import { DiffService } from '../domain/clipboard/services/DiffService';
+import { FileDiff } from '../domain/clipboard/entities/FileDiff';
+
+function parseDiff(...hunkLines: string[]): FileDiff {
+    return new DiffService().parse(['--- a/file.txt', '+++ b/file.txt', ...hunkLines].join('\n'))[0];
+}
+
+suite('PatchService', () => {
+    const service = new PatchService({ getPatchFuzz: () => 2 });
+
+    const addition = parseDiff(
+        '@@ -2,4 +2,5 @@',
+        ' b',
+        ' c',
+        '+inserted',
+        ' d',
+        ' e'
+    );
+
+    const deletion = parseDiff(
+        '@@ -2,5 +2,4 @@',
+        ' b',
+        ' c',
+        '-x',
+        ' d',
+        ' e'
+    );
+
+    test('applies a hunk that moved by some lines', () => {
+        const result = service.apply(['header', 'a', 'b', 'c', 'd', 'e', 'f'], addition);
+
+        assert.deepStrictEqual(result.lines, ['header', 'a', 'b', 'c', 'inserted', 'd', 'e', 'f']);
+        assert.strictEqual(service.describe(result.hunks[0]), 'offset 1 line');
+    });
+
+    test('applies with fuzz when the outer context changed', () => {
+        const result = service.apply(['a', 'B', 'c', 'd', 'E', 'f'], addition);
+
+        assert.deepStrictEqual(result.lines, ['a', 'B', 'c', 'inserted', 'd', 'E', 'f']);
+        assert.strictEqual(result.hunks[0].fuzz, 1);
+    });
+
+    test('recognizes an applied hunk that adds lines', () => {
+        const lines = ['a', 'b', 'c', 'inserted', 'd', 'e', 'f'];
+        const result = service.apply(lines, addition);
+
+        assert.deepStrictEqual(result.lines, lines);
+        assert.strictEqual(result.hunks[0].reason, 'already applied');
+    });
+
+    test('recognizes an applied deletion instead of removing another matching line', () => {
+        const once = service.apply(['a', 'b', 'c', 'x', 'd', 'e', 'f', 'g', 'x', 'h'], deletion);
+        assert.deepStrictEqual(once.lines, ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'x', 'h']);
+
+        const twice = service.apply(once.lines, deletion);
+        assert.deepStrictEqual(twice.lines, once.lines);
+        assert.strictEqual(twice.hunks[0].reason, 'already applied');
+    });
+
+    test('never drops all context lines of a hunk', () => {
+        const lines = ['a', 'B', 'C', 'D', 'E', 'f', 'g', 'x', 'h'];
+        const result = service.apply(lines, deletion);
+
+        assert.deepStrictEqual(result.lines, lines);
+        assert.strictEqual(result.hunks[0].applied, false);
+    });
+
+    test('applies the other hunks and reports rejected ones', () => {
+        const file = parseDiff(
+            '@@ -1,2 +1,2 @@',
+            ' a',
+            '-b',
+            '+B',
+            '@@ -10,3 +10,3 @@',
+            ' missing',
+            '-line',
+            '+LINE',
+            ' here'
+        );
+        const result = service.apply(['a', 'b', 'c'], file);
+
+        assert.deepStrictEqual(result.lines, ['a', 'B', 'c']);
+        assert.deepStrictEqual(result.hunks.map(hunk => hunk.applied), [true, false]);
+        assert.ok(service.renderRejects(file, result.hunks).includes('# Hunk #2 rejected: no match near line 10 with fuzz 2'));
+    });
+});
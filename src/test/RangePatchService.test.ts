@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { RangePatchService } from '../domain/clipboard/services/RangePatchService';
+import { RangePatch, RangePatchResult } from '../domain/clipboard/entities/RangePatch';
+
+function placements(result: RangePatchResult) {
+    assert.ok('placements' in result, 'conflict' in result ? result.conflict : '');
+    return result.placements;
+}
+
+suite('RangePatchService', () => {
+    const service = new RangePatchService();
+    const file = [
+        'function f() {',
+        '    const a = 1;',
+        '    return a;',
+        '}'
+    ];
+
+    test('parses line ranges from the header', () => {
+        assert.deepStrictEqual(service.parseHeader('src/a.ts:2-3,7-9'), {
+            path: 'src/a.ts',
+            ranges: [{ startLine: 2, endLine: 3 }, { startLine: 7, endLine: 9 }]
+        });
+        assert.strictEqual(service.parseHeader('src/a.ts'), undefined);
+        assert.strictEqual(service.parseHeader('src/a.ts:5-3'), undefined);
+        assert.strictEqual(service.parseHeader('src/a.ts:4-6,5-8'), undefined);
+    });
+
+    test('splits blocks at elision markers and removes line numbers', () => {
+        const patches = service.createPatches(
+            [{ startLine: 2, endLine: 2 }, { startLine: 9, endLine: 10 }],
+            '2 |     const a = 2;\n... (6 lines omitted) ...\n 9 | x\n10 |'
+        );
+
+        assert.deepStrictEqual(patches?.map(patch => patch.content), ['    const a = 2;', 'x\n']);
+    });
+
+    test('replaces the copied lines at their position', () => {
+        const patch: RangePatch = { startLine: 2, endLine: 2, content: '    const a = 2;', original: '    const a = 1;' };
+        const result = placements(service.place(file, [patch]));
+
+        assert.strictEqual(result[0].exact, true);
+        assert.deepStrictEqual(service.apply(file, result), ['function f() {', '    const a = 2;', '    return a;', '}']);
+    });
+
+    test('finds copied lines that moved', () => {
+        const moved = ['// header', '', ...file];
+        const patch: RangePatch = { startLine: 2, endLine: 3, content: '    const a = 2;\n    return a;', original: '    const a = 1;\n    return a;' };
+        const result = placements(service.place(moved, [patch]));
+
+        assert.deepStrictEqual([result[0].startLine, result[0].endLine, result[0].exact], [4, 5, false]);
+    });
+
+    test('accepts whitespace changes inside the range only', () => {
+        const reformatted = ['function f() {', '    const a = 1;', '    const b  =  a;', '    return b;', '}'];
+        const patch: RangePatch = {
+            startLine: 1,
+            endLine: 4,
+            content: 'function f() {\n    const a = 1;\n    return a;\n}',
+            original: 'function f() {\n    const a = 1;\n    const b = a;\n    return b;'
+        };
+
+        assert.deepStrictEqual(placements(service.place(['', ...reformatted], [patch]))[0].startLine, 2);
+    });
+
+    test('reports a conflict when the first copied line lost its indentation', () => {
+        const patch: RangePatch = { startLine: 2, endLine: 3, content: 'const a = 2;\n    return a;', original: 'const a = 1;\n    return a;' };
+
+        assert.ok('conflict' in service.place(file, [patch]));
+    });
+
+    test('anchors blocks without the copied lines on exact first and last lines', () => {
+        const indented: RangePatch = { startLine: 1, endLine: 4, content: 'function f() {\n    return 1;\n}' };
+        const unindented: RangePatch = { startLine: 2, endLine: 3, content: 'const a = 2;\n    return a;' };
+
+        assert.strictEqual(placements(service.place(['', ...file], [indented]))[0].startLine, 2);
+        assert.ok('conflict' in service.place(file, [unindented]));
+    });
+
+    test('reports overlapping ranges as a conflict', () => {
+        const result = service.place(file, [
+            { startLine: 1, endLine: 2, content: 'function f() {\n    const a = 2;', original: 'function f() {\n    const a = 1;' },
+            { startLine: 2, endLine: 3, content: '    const a = 3;\n    return a;', original: '    const a = 1;\n    return a;' }
+        ]);
+
+        assert.ok('conflict' in result && result.conflict.includes('overlap'));
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { TemplateService } from '../domain/clipboard/services/TemplateService';
+import { DiagnosticService } from '../domain/clipboard/services/DiagnosticService';
+import { OutputTemplate, TemplateContext } from '../domain/clipboard/entities/OutputTemplate';
+import { DiagnosticReport } from '../domain/clipboard/entities/DiagnosticReport';
+
+function createTemplateService(customTemplates: OutputTemplate[] = [], defaultId = 'markdown'): TemplateService {
+    const diagnosticService = new DiagnosticService({
+        getDiagnosticOptions: () => ({
+            severities: ['error', 'warning'],
+            includeSource: true,
+            includeCode: false,
+            includeColumns: false,
+            includeRelatedInformation: false,
+            contextLines: 0,
+            includeOutsideSelection: false
+        }),
+        getDiagnosticsFormat: () => 'list'
+    });
+
+    return new TemplateService({
+        getDefaultTemplateId: () => defaultId,
+        getCustomTemplates: () => customTemplates
+    }, diagnosticService);
+}
+
+suite('TemplateService', () => {
+    const context: TemplateContext = {
+        path: 'src/a.ts',
+        range: '2-3',
+        language: 'typescript',
+        symbols: 'function f',
+        options: 'line numbers',
+        content: 'const a = 1;\nreturn a;'
+    };
+
+    test('renders the Markdown template with a fence longer than the backticks in the content', () => {
+        const service = createTemplateService();
+
+        assert.strictEqual(
+            service.render(context),
+            'src/a.ts:2-3 [function f] (line numbers):\n```typescript\nconst a = 1;\nreturn a;\n```'
+        );
+        assert.strictEqual(
+            service.render({ path: 'README.md', content: 'text\n```js\nx\n```' }),
+            'README.md:\n````\ntext\n```js\nx\n```\n````'
+        );
+    });
+
+    test('leaves out empty sections and escapes XML attributes', () => {
+        const rendered = createTemplateService().render({ path: 'src/<a> & "b".ts', content: 'x' }, 'xml');
+
+        assert.strictEqual(rendered, '<file path="src/&lt;a&gt; &amp; &quot;b&quot;.ts">\nx\n</file>');
+    });
+
+    test('serializes diagnostics reports as data with the json filter', () => {
+        const report: DiagnosticReport = {
+            entries: [{ index: 1, severity: 'error', message: 'b is not defined', line: 2, lineContent: 'return b;' }]
+        };
+        const rendered = JSON.parse(createTemplateService().render({ ...context, diagnostics: report }, 'json'));
+
+        assert.strictEqual(rendered.content, context.content);
+        assert.deepStrictEqual(rendered.diagnostics, report);
+    });
+
+    test('lets user templates replace built-ins and falls back to Markdown for unknown ids', () => {
+        const service = createTemplateService([{ id: 'plain', label: 'Mine', body: '{{path}}: {{content}}' }], 'missing');
+
+        assert.strictEqual(service.render(context, 'plain'), 'src/a.ts: const a = 1;\nreturn a;');
+        assert.strictEqual(service.getTemplate().id, 'markdown');
+    });
+
+    test('keeps unknown placeholders in free text', () => {
+        const service = createTemplateService();
+
+        assert.strictEqual(service.renderText('{{#count}}{{count}} files{{/count}} {{other}}', { count: '2' }), '2 files {{other}}');
+        assert.strictEqual(service.renderText('{{#count}}{{count}} files{{/count}}', { count: '' }), '');
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * FILE: src/utils/clipboard/applyPicker.ts
+ *
+ * APPLY PICKER - Accept/skip checklists for writing detected clipboard files to the workspace
+ *
+ * - pickTargetsToApply: the detected files to apply
+ * - pickHunksToApply: the hunks of one patch to apply
+ */
+
+import * as vscode from 'vscode';
+import { ApplyStatus, ApplyTarget, describePlacements, isApplicable } from '../../application/clipboard/usecases/ApplyDetectedFilesUseCase';
+import { HunkResult } from '../../domain/clipboard/entities/PatchResult';
+
+interface ChecklistItem<T> extends vscode.QuickPickItem {
+    value: T;
+}
+
+const PREVIEW_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Preview Changes' };
+
+const ICONS: Partial<Record<ApplyStatus, string>> = {
+    new: '$(new-file)',
+    modified: '$(edit)',
+    range: '$(diff-modified)',
+    patch: '$(diff)'
+};
+
+const SKIP_REASONS: Partial<Record<ApplyStatus, string>> = {
+    unchanged: 'unchanged',
+    conflict: 'conflict',
+    unresolved: 'not in workspace'
+};
+
+/**
+ * Checklist of the files that can be applied, all accepted by default; item buttons open the diff
+ */
+export function pickTargetsToApply(
+    targets: ApplyTarget[],
+    preview: (target: ApplyTarget) => Promise<void>
+): Promise<ApplyTarget[] | undefined> {
+    const items: ChecklistItem<ApplyTarget>[] = targets
+        .filter(isApplicable)
+        .map(target => ({
+            label: `${ICONS[target.status]} ${target.file.filePath}`,
+            description: describeTarget(target),
+            buttons: [PREVIEW_BUTTON],
+            value: target
+        }));
+
+    const skipped = targets
+        .filter(target => SKIP_REASONS[target.status])
+        .map(target => `${target.file.filePath} (${SKIP_REASONS[target.status]})`);
+
+    return showChecklist(
+        items,
+        `Apply Clipboard Files${skipped.length > 0 ? ` · ${skipped.length} skipped` : ''}`,
+        skipped.length > 0 ? `Uncheck files to skip. Skipped: ${skipped.join(', ')}` : 'Uncheck files to skip',
+        preview
+    );
+}
+
+/**
+ * Checklist of the hunks of a patch that apply, all accepted by default; item buttons open the diff of one hunk
+ */
+export function pickHunksToApply(
+    target: ApplyTarget,
+    preview: (hunk: HunkResult) => Promise<void>
+): Promise<HunkResult[] | undefined> {
+    const hunks = target.hunks || [];
+    const items: ChecklistItem<HunkResult>[] = hunks
+        .filter(result => result.applied)
+        .map(result => ({
+            label: `Hunk #${result.index + 1}`,
+            description: `@@ -${result.hunk.oldStart},${result.hunk.oldLines} +${result.hunk.newStart},${result.hunk.newLines} @@` +
+                (result.offset ? ` · offset ${result.offset}` : '') +
+                (result.fuzz ? ` · fuzz ${result.fuzz}` : ''),
+            detail: result.hunk.lines.find(line => /^[+-]/.test(line))?.trim(),
+            buttons: [PREVIEW_BUTTON],
+            value: result
+        }));
+
+    const rejected = hunks.filter(result => !result.applied).map(result => `#${result.index + 1}`);
+
+    return showChecklist(
+        items,
+        `Apply Patch to ${target.file.filePath}${rejected.length > 0 ? ` · ${rejected.length} rejected` : ''}`,
+        rejected.length > 0 ? `Uncheck hunks to skip. Rejected: ${rejected.join(', ')}` : 'Uncheck hunks to skip',
+        preview
+    );
+}
+
+function describeTarget(target: ApplyTarget): string {
+    switch (target.status) {
+        case 'range':
+            return describePlacements(target.placements!);
+        case 'patch': {
+            const applied = target.hunks!.filter(hunk => hunk.applied).length;
+            return `patch, ${applied} of ${target.hunks!.length} hunks`;
+        }
+        case 'new':
+            return 'new file';
+        default:
+            return 'modified';
+    }
+}
+
+function showChecklist<T>(
+    items: ChecklistItem<T>[],
+    title: string,
+    placeholder: string,
+    preview: (value: T) => Promise<void>
+): Promise<T[] | undefined> {
+    const quickPick = vscode.window.createQuickPick<ChecklistItem<T>>();
+    quickPick.title = title;
+    quickPick.placeholder = placeholder;
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = items;
+    quickPick.selectedItems = items;
+
+    return new Promise(resolve => {
+        let accepted = false;
+
+        quickPick.onDidTriggerItemButton(({ item }) => {
+            // Keep the checklist open beside the diff
+            preview(item.value);
+        });
+
+        quickPick.onDidAccept(() => {
+            accepted = true;
+            resolve(quickPick.selectedItems.map(item => item.value));
+            quickPick.hide();
+        });
+
+        quickPick.onDidHide(() => {
+            if (!accepted) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+
+        quickPick.show();
+    });
+}
@@ -4,7 +4,8 @@
  * CLIPBOARD DETECTOR - REFACTORED FOR CLEAN ARCHITECTURE
  * 
  * Fully integrated with clean architecture - no direct state manipulation.
- * Uses ServiceContainer to access ClipboardService and ClipboardDetectionService.
+ * Uses ServiceContainer to access ClipboardService and ClipboardDetectionService,
+ * and parses clipboard content whenever the shared ClipboardWatcher reports a change.
  */
 
 import * as vscode from 'vscode';
@@ -12,13 +13,14 @@ import { Logger } from '../common/logger';
 import { ServiceContainer } from '../../infrastructure/di/ServiceContainer';
 import { ClipboardService } from '../../domain/clipboard/services/ClipboardService';
 import { ClipboardDetectionService } from '../../domain/clipboard/services/ClipboardDetectionService';
+import { ClipboardChange, ClipboardWatcher } from '../../infrastructure/clipboard/system/ClipboardWatcher';
 
 export class ClipboardDetector {
     private static instance: ClipboardDetector;
-    private updateInterval: NodeJS.Timeout | null = null;
-    private lastClipboardContent: string = '';
+    private changeListener: vscode.Disposable | null = null;
     private clipboardService: ClipboardService;
     private detectionService: ClipboardDetectionService;
+    private watcher: ClipboardWatcher;
     private isDetectionEnabled: boolean = true;
 
     static init(context: vscode.ExtensionContext): ClipboardDetector {
@@ -33,48 +35,34 @@ export class ClipboardDetector {
         const container = ServiceContainer.getInstance();
         this.clipboardService = container.resolve<ClipboardService>('ClipboardService');
         this.detectionService = container.resolve<ClipboardDetectionService>('ClipboardDetectionService');
+        this.watcher = container.resolve<ClipboardWatcher>('ClipboardWatcher');
 
         this.startDetection();
     }
 
     private startDetection(): void {
-        if (this.updateInterval) {
-            clearInterval(this.updateInterval);
+        if (!this.changeListener) {
+            this.changeListener = this.watcher.onDidChange(change => this.onClipboardChange(change));
         }
 
-        this.updateInterval = setInterval(() => {
-            this.checkClipboard();
-        }, 1000); // Check every 1 second
-
-
-        // Initial check
-        this.checkClipboard();
+        // Parse what is on the clipboard right now, it may not change again for a while
+        this.watcher.check(true);
     }
 
     private stopDetection(): void {
-        if (this.updateInterval) {
-            clearInterval(this.updateInterval);
-            this.updateInterval = null;
+        if (this.changeListener) {
+            this.changeListener.dispose();
+            this.changeListener = null;
         }
     }
 
-    private async checkClipboard(): Promise<void> {
+    private async onClipboardChange(change: ClipboardChange): Promise<void> {
         // Check if detection is enabled
         if (!this.isDetectionEnabled) {
             return;
         }
 
-        try {
-            const clipboardText = await vscode.env.clipboard.readText();
-
-            // Only process if clipboard content has changed
-            if (clipboardText !== this.lastClipboardContent) {
-                this.lastClipboardContent = clipboardText;
-                await this.parseClipboardContent(clipboardText);
-            }
-        } catch (error) {
-            Logger.warn('Failed to read clipboard content', error);
-        }
+        await this.parseClipboardContent(change.text);
     }
 
     private async parseClipboardContent(text: string): Promise<void> {
@@ -128,9 +116,10 @@ export class ClipboardDetector {
         const count = currentFiles.length;
 
         await this.clipboardService.clearDetectedFiles();
-        this.lastClipboardContent = ''; // Reset last content to force re-parse
-
         this.refreshClipboardView();
+
+        // Re-parse the current clipboard content
+        await this.watcher.check(true);
     }
 
     public getDetectionStatus(): boolean {
@@ -0,0 +1,39 @@
+/**
+ * FILE: src/utils/clipboard/dependencyPicker.ts
+ *
+ * DEPENDENCY PICKER - Preview of the import graph before copying it
+ */
+
+import * as vscode from 'vscode';
+import { DependencyPreview } from '../../application/clipboard/usecases/CopyWithDependenciesUseCase';
+import { TokenUtils } from '../../shared/utils/TokenUtils';
+
+interface DependencyPickItem extends vscode.QuickPickItem {
+    preview: DependencyPreview;
+}
+
+/**
+ * Let the user confirm which files of the import graph are copied; all are preselected
+ */
+export async function pickDependencies(previews: DependencyPreview[]): Promise<DependencyPreview[] | undefined> {
+    const items: DependencyPickItem[] = previews.map(preview => ({
+        label: preview.relativePath,
+        description: `${preview.node.depth === 0 ? 'entry' : `depth ${preview.node.depth}`} · ` +
+            `~${TokenUtils.formatCount(preview.cost.tokens)} tokens · ${TokenUtils.formatBytes(preview.cost.bytes)}`,
+        detail: preview.importedBy ? `imported by ${preview.importedBy}` : undefined,
+        picked: true,
+        preview
+    }));
+
+    const totalTokens = previews.reduce((sum, p) => sum + p.cost.tokens, 0);
+    const totalBytes = previews.reduce((sum, p) => sum + p.cost.bytes, 0);
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        matchOnDescription: true,
+        title: `Copy with Dependencies: ${previews.length} files, ~${TokenUtils.formatCount(totalTokens)} tokens, ${TokenUtils.formatBytes(totalBytes)}`,
+        placeHolder: 'Select files to copy'
+    });
+
+    return selected?.map(item => item.preview);
+}
@@ -0,0 +1,97 @@
+/**
+ * FILE: src/utils/clipboard/diagnosticsPicker.ts
+ *
+ * DIAGNOSTICS PICKER - Quick-pick helpers for choosing the diagnostics payload per invocation
+ */
+
+import * as vscode from 'vscode';
+import { DiagnosticService } from '../../domain/clipboard/services/DiagnosticService';
+import {
+    DiagnosticOptions,
+    DiagnosticSeverityName,
+    DIAGNOSTIC_SEVERITIES
+} from '../../domain/clipboard/entities/DiagnosticReport';
+
+type ToggleOption = 'includeSource' | 'includeCode' | 'includeColumns' | 'includeRelatedInformation' | 'includeOutsideSelection';
+
+interface DiagnosticsPickItem extends vscode.QuickPickItem {
+    severity?: DiagnosticSeverityName;
+    option?: ToggleOption | 'contextLines';
+}
+
+const DEFAULT_CONTEXT_LINES = 2;
+
+const SEVERITY_LABELS: Record<DiagnosticSeverityName, string> = {
+    error: '$(error) Errors',
+    warning: '$(warning) Warnings',
+    information: '$(info) Information',
+    hint: '$(lightbulb) Hints'
+};
+
+const TOGGLE_LABELS: Record<ToggleOption, string> = {
+    includeSource: 'Source',
+    includeCode: 'Code',
+    includeColumns: 'Column ranges',
+    includeRelatedInformation: 'Related information',
+    includeOutsideSelection: 'Summary of diagnostics outside the selection'
+};
+
+/**
+ * Read diagnostic overrides from command arguments, e.g. { "diagnostics": { "severities": ["error"] } }
+ */
+export function getDiagnosticOptionsFromArgs(args: any): Partial<DiagnosticOptions> | undefined {
+    if (args && typeof args === 'object' && args.diagnostics && typeof args.diagnostics === 'object') {
+        return args.diagnostics;
+    }
+    return undefined;
+}
+
+/**
+ * Let the user choose severities and details, starting from the configured options
+ */
+export async function pickDiagnosticOptions(diagnosticService: DiagnosticService): Promise<DiagnosticOptions | undefined> {
+    const current = diagnosticService.resolveOptions();
+    const contextLines = current.contextLines || DEFAULT_CONTEXT_LINES;
+
+    const items: DiagnosticsPickItem[] = [
+        { label: 'Severities', kind: vscode.QuickPickItemKind.Separator },
+        ...DIAGNOSTIC_SEVERITIES.map(severity => ({
+            label: SEVERITY_LABELS[severity],
+            severity,
+            picked: current.severities.includes(severity)
+        })),
+        { label: 'Details', kind: vscode.QuickPickItemKind.Separator },
+        ...(Object.keys(TOGGLE_LABELS) as ToggleOption[]).map(option => ({
+            label: TOGGLE_LABELS[option],
+            option,
+            picked: current[option]
+        })),
+        {
+            label: `${contextLines} surrounding line${contextLines !== 1 ? 's' : ''}`,
+            option: 'contextLines',
+            picked: current.contextLines > 0
+        }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: 'Copy with Diagnostics',
+        placeHolder: 'Select diagnostics to include'
+    });
+
+    if (!selected) {
+        return undefined;
+    }
+
+    const has = (option: ToggleOption | 'contextLines') => selected.some(item => item.option === option);
+
+    return {
+        severities: selected.filter(item => item.severity).map(item => item.severity!),
+        includeSource: has('includeSource'),
+        includeCode: has('includeCode'),
+        includeColumns: has('includeColumns'),
+        includeRelatedInformation: has('includeRelatedInformation'),
+        includeOutsideSelection: has('includeOutsideSelection'),
+        contextLines: has('contextLines') ? contextLines : 0
+    };
+}
@@ -0,0 +1,55 @@
+/**
+ * FILE: src/utils/clipboard/fileFilterPicker.ts
+ *
+ * FILE FILTER PICKER - Include/exclude globs for copying Explorer directories
+ */
+
+import * as vscode from 'vscode';
+import { FileFilter, IExplorerCopySettings } from '../../infrastructure/clipboard/files/FileCollector';
+
+/**
+ * Read glob overrides from command arguments, e.g. { "include": "**\/*.ts", "exclude": "**\/test/**" }
+ */
+export function getFileFilterFromArgs(args: any): Partial<FileFilter> | undefined {
+    if (!args || typeof args !== 'object') {
+        return undefined;
+    }
+
+    const filter: Partial<FileFilter> = {};
+    if (typeof args.include === 'string') {
+        filter.include = args.include;
+    }
+    if (typeof args.exclude === 'string') {
+        filter.exclude = args.exclude;
+    }
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/**
+ * Let the user edit the include and exclude globs, starting from the configured ones
+ */
+export async function pickFileFilter(settings: IExplorerCopySettings): Promise<FileFilter | undefined> {
+    const configured = settings.getExplorerFilter();
+
+    const include = await vscode.window.showInputBox({
+        title: 'Copy with Filters (1/2)',
+        prompt: 'Files to include from selected folders',
+        value: configured.include,
+        validateInput: value => value.trim() ? undefined : 'Enter a glob, e.g. **/*'
+    });
+    if (include === undefined) {
+        return undefined;
+    }
+
+    const exclude = await vscode.window.showInputBox({
+        title: 'Copy with Filters (2/2)',
+        prompt: 'Files to exclude (workspace relative glob, empty for none)',
+        value: configured.exclude
+    });
+    if (exclude === undefined) {
+        return undefined;
+    }
+
+    return { include: include.trim(), exclude: exclude.trim() };
+}
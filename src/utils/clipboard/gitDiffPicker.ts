@@ -0,0 +1,85 @@
+/**
+ * FILE: src/utils/clipboard/gitDiffPicker.ts
+ *
+ * GIT DIFF PICKER - Diff options from command arguments and ref selection
+ */
+
+import * as vscode from 'vscode';
+import { CopyGitDiffOptions } from '../../application/clipboard/usecases/CopyGitDiffUseCase';
+import { GitRef } from '../../infrastructure/clipboard/git/GitClient';
+
+interface GitRefPickItem extends vscode.QuickPickItem {
+    ref?: string;
+}
+
+const REF_ICONS: Record<GitRef['kind'], string> = {
+    branch: '$(git-branch)',
+    remote: '$(cloud)',
+    tag: '$(tag)',
+    commit: '$(git-commit)'
+};
+
+/**
+ * Read diff options from command arguments, e.g. a keybinding with { "staged": true, "ref": "main" }
+ */
+export function getGitDiffOptionsFromArgs(args: any): Omit<CopyGitDiffOptions, 'templateId'> {
+    if (!args || typeof args !== 'object') {
+        return {};
+    }
+
+    return {
+        staged: typeof args.staged === 'boolean' ? args.staged : undefined,
+        ref: typeof args.ref === 'string' && args.ref.trim() ? args.ref.trim() : undefined
+    };
+}
+
+/**
+ * Let the user choose a branch, tag or recent commit, or type any revision
+ */
+export async function pickGitRef(refs: GitRef[]): Promise<string | undefined> {
+    const items: GitRefPickItem[] = [
+        { label: '$(edit) Enter a revision...', alwaysShow: true },
+        ...refs.map(ref => ({
+            label: `${REF_ICONS[ref.kind]} ${ref.name}`,
+            description: ref.description ? `${ref.kind} · ${ref.description}` : ref.kind,
+            ref: ref.name
+        }))
+    ];
+
+    const choice = await vscode.window.showQuickPick(items, {
+        matchOnDescription: true,
+        title: 'Copy Diff Against',
+        placeHolder: 'Select a branch, tag or commit'
+    });
+
+    if (!choice) {
+        return undefined;
+    }
+
+    if (choice.ref) {
+        return choice.ref;
+    }
+
+    const typed = await vscode.window.showInputBox({
+        title: 'Copy Diff Against',
+        prompt: 'Branch, tag, commit or any git revision (e.g. HEAD~3)',
+        validateInput: value => value.trim() ? undefined : 'Enter a revision'
+    });
+
+    return typed?.trim() || undefined;
+}
+
+/**
+ * Let the user choose whether the diff covers the active file or the whole repository
+ */
+export async function pickGitDiffScope(): Promise<'file' | 'repository' | undefined> {
+    const choice = await vscode.window.showQuickPick([
+        { label: '$(file) Active File', scope: 'file' as const },
+        { label: '$(repo) Whole Repository', scope: 'repository' as const }
+    ], {
+        title: 'Copy Diff Against',
+        placeHolder: 'Select what to diff'
+    });
+
+    return choice?.scope;
+}
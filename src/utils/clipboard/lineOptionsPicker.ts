@@ -0,0 +1,127 @@
+/**
+ * FILE: src/utils/clipboard/lineOptionsPicker.ts
+ *
+ * LINE OPTIONS PICKER - Quick-pick helpers for line numbers, context lines and minification per invocation
+ */
+
+import * as vscode from 'vscode';
+import { LineOptions } from '../../domain/clipboard/entities/LineOptions';
+import { MinifyOptions } from '../../domain/clipboard/entities/MinifyOptions';
+import { LineOptionsService } from '../../domain/clipboard/services/LineOptionsService';
+
+export interface LineOptionsChoice {
+    lines: LineOptions;
+    includeErrors: boolean;
+}
+
+interface LineOptionsPickItem extends vscode.QuickPickItem {
+    option: 'lineNumbers' | 'contextLines' | 'stripComments' | 'collapseBlankLines' | 'stripLicenseHeader' | 'includeErrors';
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Read line option overrides from command arguments, e.g. { "lineNumbers": true, "contextLines": 3 };
+ * "minify" takes { "stripComments", "collapseBlankLines", "indentWidth", "stripLicenseHeader" },
+ * or true / false to turn all of them but the indentation on or off
+ */
+export function getLineOptionsFromArgs(args: any): Partial<LineOptions> | undefined {
+    if (!args || typeof args !== 'object') {
+        return undefined;
+    }
+
+    const overrides: Partial<LineOptions> = {};
+    if (typeof args.lineNumbers === 'boolean') {
+        overrides.lineNumbers = args.lineNumbers;
+    }
+    if (typeof args.contextLines === 'number') {
+        overrides.contextLines = args.contextLines;
+    }
+
+    const minify = getMinifyOptionsFromArgs(args.minify);
+    if (minify) {
+        overrides.minify = minify;
+    }
+
+    return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+function getMinifyOptionsFromArgs(minify: any): MinifyOptions | undefined {
+    if (typeof minify === 'boolean') {
+        return {
+            stripComments: minify,
+            collapseBlankLines: minify,
+            stripLicenseHeader: minify,
+            ...(minify ? {} : { indentWidth: 0 })
+        };
+    }
+    if (!minify || typeof minify !== 'object') {
+        return undefined;
+    }
+
+    const overrides: MinifyOptions = {};
+    for (const flag of ['stripComments', 'collapseBlankLines', 'stripLicenseHeader'] as const) {
+        if (typeof minify[flag] === 'boolean') {
+            overrides[flag] = minify[flag];
+        }
+    }
+    if (typeof minify.indentWidth === 'number') {
+        overrides.indentWidth = minify.indentWidth;
+    }
+
+    return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+/**
+ * Let the user choose line options, starting from the configured options
+ */
+export async function pickLineOptions(
+    lineOptionsService: LineOptionsService,
+    allowErrors: boolean = true
+): Promise<LineOptionsChoice | undefined> {
+    const current = lineOptionsService.resolveOptions();
+    const contextLines = current.contextLines || DEFAULT_CONTEXT_LINES;
+
+    const items: LineOptionsPickItem[] = [
+        { label: 'Line numbers', description: 'Prefix each line with its line number', option: 'lineNumbers', picked: current.lineNumbers },
+        {
+            label: `${contextLines} context line${contextLines !== 1 ? 's' : ''}`,
+            description: 'Add lines before and after the selection',
+            option: 'contextLines',
+            picked: current.contextLines > 0
+        },
+        { label: 'Strip comments', description: 'Remove comments from the copied code', option: 'stripComments', picked: current.minify?.stripComments },
+        { label: 'Collapse blank lines', description: 'Keep at most one blank line in a row', option: 'collapseBlankLines', picked: current.minify?.collapseBlankLines },
+        { label: 'Drop license header', description: 'Remove a copyright comment at the top of the file', option: 'stripLicenseHeader', picked: current.minify?.stripLicenseHeader }
+    ];
+
+    if (allowErrors) {
+        items.push({ label: 'Include diagnostics', description: 'Copy with errors and warnings', option: 'includeErrors' });
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: 'Copy with Options',
+        placeHolder: 'Select copy options'
+    });
+
+    if (!selected) {
+        return undefined;
+    }
+
+    const has = (option: LineOptionsPickItem['option']) => selected.some(item => item.option === option);
+
+    return {
+        lines: {
+            lineNumbers: has('lineNumbers'),
+            contextLines: has('contextLines') ? contextLines : 0,
+            minify: {
+                ...current.minify,
+                stripComments: has('stripComments'),
+                collapseBlankLines: has('collapseBlankLines'),
+                stripLicenseHeader: has('stripLicenseHeader')
+            }
+        },
+        includeErrors: has('includeErrors')
+    };
+}
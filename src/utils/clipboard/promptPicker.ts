@@ -0,0 +1,38 @@
+/**
+ * FILE: src/utils/clipboard/promptPicker.ts
+ *
+ * PROMPT PICKER - Prompt template from command arguments or a quick-pick
+ */
+
+import * as vscode from 'vscode';
+import { PromptTemplate } from '../../domain/clipboard/entities/PromptTemplate';
+
+/**
+ * Read a prompt id from command arguments, e.g. a keybinding with { "prompt": "review" }
+ */
+export function getPromptIdFromArgs(args: any): string | undefined {
+    if (args && typeof args === 'object' && typeof args.prompt === 'string') {
+        return args.prompt;
+    }
+    return undefined;
+}
+
+/**
+ * Let the user choose one of the available prompts; the detail line previews the prefix
+ */
+export async function pickPrompt(prompts: PromptTemplate[]): Promise<PromptTemplate | undefined> {
+    const items = prompts.map(prompt => ({
+        label: prompt.label,
+        description: prompt.builtIn ? prompt.id : `${prompt.id} (settings)`,
+        detail: prompt.description || prompt.prefix.split('\n')[0],
+        prompt
+    }));
+
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select prompt to wrap the copied files',
+        title: 'Copy with Prompt',
+        matchOnDescription: true
+    });
+
+    return choice?.prompt;
+}
@@ -0,0 +1,74 @@
+/**
+ * FILE: src/utils/clipboard/sessionPicker.ts
+ *
+ * SESSION PICKER - Session selection and naming for saved copied stacks
+ */
+
+import * as vscode from 'vscode';
+import { ClipboardSession } from '../../domain/clipboard/entities/ClipboardSession';
+
+interface SessionPickItem extends vscode.QuickPickItem {
+    session: ClipboardSession;
+}
+
+/**
+ * Read a session name from command arguments, e.g. a keybinding with { "name": "review" }
+ */
+export function getSessionNameFromArgs(args: any): string | undefined {
+    if (!args || typeof args !== 'object' || typeof args.name !== 'string') {
+        return undefined;
+    }
+    return args.name.trim() || undefined;
+}
+
+/**
+ * Let the user choose a session, listed with its file count and last save time
+ */
+export async function pickSession(
+    sessions: ClipboardSession[],
+    title: string
+): Promise<ClipboardSession | undefined> {
+    if (sessions.length === 0) {
+        vscode.window.showInformationMessage('No saved sessions in this workspace');
+        return undefined;
+    }
+
+    const items: SessionPickItem[] = sessions.map(session => ({
+        label: `$(archive) ${session.name}`,
+        description: `${session.files.length} file${session.files.length !== 1 ? 's' : ''}`,
+        detail: `Saved ${new Date(session.updatedAt).toLocaleString()}`,
+        session
+    }));
+
+    const choice = await vscode.window.showQuickPick(items, {
+        title,
+        placeHolder: 'Select a session',
+        matchOnDetail: true
+    });
+
+    return choice?.session;
+}
+
+/**
+ * Ask for a session name; names listed in taken are refused
+ */
+export async function promptSessionName(
+    title: string,
+    value?: string,
+    taken: string[] = []
+): Promise<string | undefined> {
+    const name = await vscode.window.showInputBox({
+        title,
+        prompt: 'Session name',
+        value,
+        validateInput: input => {
+            const trimmed = input.trim();
+            if (!trimmed) {
+                return 'Enter a session name';
+            }
+            return taken.includes(trimmed) ? `A session named "${trimmed}" already exists` : undefined;
+        }
+    });
+
+    return name?.trim() || undefined;
+}
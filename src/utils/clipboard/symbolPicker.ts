@@ -0,0 +1,32 @@
+/**
+ * FILE: src/utils/clipboard/symbolPicker.ts
+ *
+ * SYMBOL PICKER - Quick-pick outline of the active file for copying several symbols
+ */
+
+import * as vscode from 'vscode';
+import { CodeSymbol } from '../../infrastructure/clipboard/symbols/SymbolLocator';
+
+interface SymbolPickItem extends vscode.QuickPickItem {
+    symbol: CodeSymbol;
+}
+
+/**
+ * Let the user choose symbols from an indented outline
+ */
+export async function pickSymbols(symbols: CodeSymbol[]): Promise<CodeSymbol[] | undefined> {
+    const items: SymbolPickItem[] = symbols.map(symbol => ({
+        label: `${'  '.repeat(symbol.depth)}$(${symbol.icon}) ${symbol.name}`,
+        description: `${symbol.kind} · lines ${symbol.range.start.line + 1}-${symbol.range.end.line + 1}`,
+        symbol
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        matchOnDescription: true,
+        title: 'Copy Symbols',
+        placeHolder: 'Select symbols to copy'
+    });
+
+    return selected?.map(item => item.symbol);
+}
@@ -0,0 +1,39 @@
+/**
+ * FILE: src/utils/clipboard/templatePicker.ts
+ *
+ * TEMPLATE PICKER - Quick-pick helpers for choosing an output template per invocation
+ */
+
+import * as vscode from 'vscode';
+import { TemplateService } from '../../domain/clipboard/services/TemplateService';
+
+/**
+ * Read a template id from command arguments, e.g. a keybinding with { "template": "xml" }
+ */
+export function getTemplateIdFromArgs(args: any): string | undefined {
+    if (args && typeof args === 'object' && typeof args.template === 'string') {
+        return args.template;
+    }
+    return undefined;
+}
+
+/**
+ * Let the user choose one of the available output templates
+ */
+export async function pickOutputTemplate(templateService: TemplateService): Promise<string | undefined> {
+    const defaultTemplate = templateService.getTemplate();
+
+    const items = templateService.getTemplates().map(template => ({
+        label: template.label,
+        description: template.id === defaultTemplate.id ? `${template.id} (default)` : template.id,
+        detail: template.description,
+        templateId: template.id
+    }));
+
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select output template',
+        title: 'Copy As'
+    });
+
+    return choice?.templateId;
+}
@@ -0,0 +1,73 @@
+/**
+ * FILE: src/utils/clipboard/treeStructurePicker.ts
+ *
+ * TREE STRUCTURE PICKER - Tree rendering options from command arguments or a quick-pick
+ */
+
+import * as vscode from 'vscode';
+import { TreeStructureService } from '../../domain/clipboard/services/TreeStructureService';
+import { TreeStructureOptions } from '../../domain/clipboard/entities/TreeStructure';
+
+interface TreeOptionPickItem extends vscode.QuickPickItem {
+    option: 'markdown' | 'sizes' | 'lineCounts';
+}
+
+/**
+ * Read tree options from command arguments, e.g. { "style": "markdown", "sizes": true, "lineCounts": true }
+ */
+export function getTreeStructureOptionsFromArgs(args: any): Partial<TreeStructureOptions> | undefined {
+    if (!args || typeof args !== 'object') {
+        return undefined;
+    }
+
+    const options: Partial<TreeStructureOptions> = {};
+    if (args.style === 'ascii' || args.style === 'markdown') {
+        options.style = args.style;
+    }
+    if (typeof args.sizes === 'boolean') {
+        options.sizes = args.sizes;
+    }
+    if (typeof args.lineCounts === 'boolean') {
+        options.lineCounts = args.lineCounts;
+    }
+
+    return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Whether a folder content copy should start with the folder tree, from { "tree": true }
+ */
+export function getTreeHeaderFromArgs(args: any): boolean | undefined {
+    return args && typeof args === 'object' && typeof args.tree === 'boolean' ? args.tree : undefined;
+}
+
+/**
+ * Let the user choose the tree style and file details, starting from the configured ones
+ */
+export async function pickTreeStructureOptions(treeStructureService: TreeStructureService): Promise<TreeStructureOptions | undefined> {
+    const current = treeStructureService.resolveOptions();
+
+    const items: TreeOptionPickItem[] = [
+        { label: 'Markdown list', description: 'Nested bullet list instead of an ASCII tree', option: 'markdown', picked: current.style === 'markdown' },
+        { label: 'File sizes', description: 'Show the size of each file', option: 'sizes', picked: current.sizes },
+        { label: 'Line counts', description: 'Show the number of lines of each text file', option: 'lineCounts', picked: current.lineCounts }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        title: 'Copy Tree Structure',
+        placeHolder: 'Select tree options'
+    });
+
+    if (!selected) {
+        return undefined;
+    }
+
+    const has = (option: TreeOptionPickItem['option']) => selected.some(item => item.option === option);
+
+    return {
+        style: has('markdown') ? 'markdown' : 'ascii',
+        sizes: has('sizes'),
+        lineCounts: has('lineCounts')
+    };
+}